@@ -1,22 +1,52 @@
 import * as tf from '@tensorflow/tfjs';
 
+import type { EnvSpec, WrapperSpec } from './envs/registration';
 import { Space } from './spaces';
+import { OwnedTensors, RandomGenerator } from './utils';
+
+/**
+ * The output of `render`, a frame of type int32 and shape [height, width, 3] in rgb_array mode,
+ * the frames since the last render in rgb_array_list mode or a text in ansi mode
+ */
+export type RenderFrame = tf.Tensor | tf.Tensor[] | string;
+
+/**
+ * The metadata of an environment, declared as a static property of its class
+ */
+export interface EnvMetadata {
+  /** The supported render modes, environments that declare none accept any render mode */
+  renderModes: string[];
+  /** The number of frames per second in human mode, null if not specified */
+  renderFps: number | null;
+}
 
 /**
  * An abstract class that represents the structure of an environment.
+ *
+ * Tensors follow an ownership model so that long runs don't leak memory without `tf.tidy`:
+ * - The observations returned by `reset` and `step` are owned by the environment (or wrapper) that returned them.
+ *   They stay valid until its next `reset`, `step` or `dispose`, callers clone them to keep them longer.
+ * - Actions are owned by the caller, environments and wrappers never dispose or mutate them.
+ * - The frames returned by `render` are owned by the caller.
+ * - Wrappers dispose the intermediate tensors they create, like transformed actions, by the next step.
  */
-abstract class BaseEnv<ObsType, ActType> {
+export abstract class BaseEnv<ObsType, ActType> {
+  /** The metadata of the environment */
+  static readonly metadata: EnvMetadata = { renderModes: [], renderFps: null };
+
   /** The action space of the environment */
   protected _actionSpace?: Space<ActType>;
   /** The observation space of the environment */
   protected _observationSpace?: Space<ObsType>;
   /** The render mode of the environment */
   public renderMode: string | null = null;
+  /** The tensors of the last output of the environment */
+  private readonly ownedTensors = new OwnedTensors();
 
   /**
    * Resets the environment.
    *
-   * @param options - additional informatiom to specify how the environment resets
+   * @param options - additional informatiom to specify how the environment resets, `seed` seeds the environment
    * @returns An array of the observation of the initial state and info
    */
   abstract reset(
@@ -34,20 +64,60 @@ abstract class BaseEnv<ObsType, ActType> {
   /**
    * Renders the environment graphically.
    *
-   * @returns Either no return or an array of the screen of the environment
+   * @returns Either no return, an array of the screen or a text representation of the environment
    */
-  abstract render(): Promise<void | tf.Tensor>;
+  abstract render(): Promise<void | RenderFrame>;
+  /**
+   * Renders the environment synchronously as a frame of shape [height, width, 3] in rgb_array mode,
+   * used by wrappers that need frames in `reset`. Environments that can't render synchronously don't implement it.
+   *
+   * @returns The frame of the environment
+   */
+  renderFrame?(): tf.Tensor;
   /**
    * Closes the environment.
    */
   abstract close(): void;
 
-  get unwrapped(): BaseEnv<unknown, unknown> {
-    return this;
-  }
+  /**
+   * @returns the base environment, without any wrappers
+   */
+  abstract get unwrapped(): Env<unknown, unknown>;
 
   abstract get observationSpace(): Space<unknown>;
   abstract get actionSpace(): Space<unknown>;
+
+  /**
+   * @returns the spec of the environment with its wrappers, null if it wasn't created by `make`
+   */
+  abstract get spec(): EnvSpec | null;
+
+  /**
+   * @returns the metadata of the environment, declared by its class
+   */
+  get metadata(): EnvMetadata {
+    return (this.constructor as typeof BaseEnv).metadata;
+  }
+
+  /**
+   * Disposes the tensors owned by the environment, the observation it returned last.
+   * Wrappers also dispose the tensors owned by the wrapped environments.
+   */
+  dispose(): void {
+    this.ownedTensors.dispose();
+  }
+
+  /**
+   * Takes ownership of the tensors of an output, meant to be called on the observations returned by `reset` and `step`.
+   * The tensors of the previous output are disposed.
+   *
+   * @param output - The output of the environment
+   * @param borrowed - Values whose tensors are owned by someone else, like the observation of a wrapped environment
+   * @returns The output
+   */
+  protected own<T>(output: T, ...borrowed: unknown[]): T {
+    return this.ownedTensors.replace(output, ...borrowed);
+  }
 }
 
 export abstract class Env<ObsType, ActType> extends BaseEnv<ObsType, ActType> {
@@ -57,6 +127,10 @@ export abstract class Env<ObsType, ActType> extends BaseEnv<ObsType, ActType> {
   public observationSpace: Space<ObsType>;
   /** The render mode of the environment */
   public renderMode: string | null;
+  /** The spec the environment was created from, set by `make` */
+  public spec: EnvSpec | null = null;
+  /** The random number generator of the environment */
+  private _rng: RandomGenerator | null = null;
 
   constructor(
     actionSpace: Space<ActType>,
@@ -67,11 +141,60 @@ export abstract class Env<ObsType, ActType> extends BaseEnv<ObsType, ActType> {
     this.actionSpace = actionSpace;
     this.observationSpace = observationSpace;
     this.renderMode = renderMode;
+
+    const renderModes = this.metadata.renderModes;
+    if (
+      renderMode !== null &&
+      renderModes.length > 0 &&
+      !renderModes.includes(renderMode)
+    ) {
+      throw new Error(
+        `Invalid render mode ${renderMode}, expected one of ${renderModes.join(', ')}`
+      );
+    }
   }
 
   get unwrapped(): Env<unknown, unknown> {
     return this;
   }
+
+  /**
+   * @returns the class name of the environment and its id, like `<CartPoleEnv<CartPole-v1>>`
+   */
+  toString(): string {
+    if (this.spec === null) {
+      return `<${this.constructor.name} instance>`;
+    }
+    return `<${this.constructor.name}<${this.spec.id}>>`;
+  }
+
+  /**
+   * @returns the random number generator of the environment, randomly seeded if the environment was never seeded
+   */
+  get rng(): RandomGenerator {
+    if (this._rng === null) {
+      this._rng = new RandomGenerator();
+    }
+    return this._rng;
+  }
+
+  /**
+   * Sets the random number generator of the environment.
+   */
+  set rng(rng: RandomGenerator) {
+    this._rng = rng;
+  }
+
+  /**
+   * Seeds the random number generator of the environment, meant to be called at the start of `reset`.
+   *
+   * @param seed - The seed, the generator is left unchanged if not specified
+   */
+  protected seed(seed?: number | null): void {
+    if (seed !== undefined && seed !== null) {
+      this._rng = new RandomGenerator(seed);
+    }
+  }
 }
 
 /**
@@ -83,12 +206,15 @@ export abstract class Wrapper<
   ObsType,
   ActType,
 > extends BaseEnv<WrapperObsType, WrapperActType> {
-  /** Environemnt to wrap */
-  env: Env<ObsType, ActType>;
+  /** Environemnt to wrap, either an environment or another wrapper */
+  env: BaseEnv<ObsType, ActType>;
+  /** The keyword arguments of the wrapper, recorded in its spec */
+  protected wrapperKwargs: Record<string, any> = {};
 
-  constructor(env: Env<ObsType, ActType>) {
+  constructor(env: BaseEnv<ObsType, ActType>) {
     super();
     this.env = env;
+    this.renderMode = env.renderMode;
   }
 
   /**
@@ -134,21 +260,82 @@ export abstract class Wrapper<
    *
    * @returns Either no return or an array of the screen of the environment
    */
-  async render(): Promise<void | tf.Tensor> {
+  async render(): Promise<void | RenderFrame> {
     return this.env.render();
   }
+  /**
+   * @returns the metadata of the wrapped environment
+   */
+  get metadata(): EnvMetadata {
+    return this.env.metadata;
+  }
+  /**
+   * Renders the wrapped environment synchronously as a frame.
+   *
+   * @returns The frame of the environment
+   */
+  renderFrame(): tf.Tensor {
+    if (this.env.renderFrame === undefined) {
+      throw new Error(
+        `${this.unwrapped.constructor.name} cannot render frames synchronously!`
+      );
+    }
+    return this.env.renderFrame();
+  }
   /**
    * Closes the environment.
    */
   close(): void {
     this.env.close();
   }
+  /**
+   * Disposes the tensors owned by the wrapper and the wrapped environment.
+   */
+  dispose(): void {
+    super.dispose();
+    this.env.dispose();
+  }
   /**
    * @returns the unwrapped environment
    */
   get unwrapped(): Env<unknown, unknown> {
     return this.env.unwrapped;
   }
+  /**
+   * @returns the spec of the wrapped environment updated with the wrapper, null if the environment has no spec
+   */
+  get spec(): EnvSpec | null {
+    const envSpec = this.env.spec;
+    return envSpec === null ? null : this.updateSpec(envSpec);
+  }
+  /**
+   * Records the wrapper in the spec of the wrapped environment, as an additional wrapper by default.
+   * The wrappers applied by `make` override it to set their field of the spec instead.
+   *
+   * @param spec - The spec of the wrapped environment
+   * @returns A new spec
+   */
+  protected updateSpec(spec: EnvSpec): EnvSpec {
+    const wrapperSpec: WrapperSpec = {
+      name: this.constructor.name,
+      kwargs: { ...this.wrapperKwargs },
+    };
+    return spec.copy({
+      additionalWrappers: [...spec.additionalWrappers, wrapperSpec],
+    });
+  }
+  /**
+   * @returns the class names of the wrappers and the environment, like `<TimeLimit<CartPoleEnv<CartPole-v1>>>`
+   */
+  toString(): string {
+    return `<${this.constructor.name}${this.env}>`;
+  }
+  /**
+   * @returns the random number generator of the unwrapped environment
+   */
+  get rng(): RandomGenerator {
+    return this.unwrapped.rng;
+  }
   /**
    * @returns the action space of the wrapper.
    */
@@ -193,7 +380,7 @@ export abstract class ObservationWrapper<
   ObsType,
   ActType,
 > extends Wrapper<WrapperObsType, ActType, ObsType, ActType> {
-  constructor(env: Env<ObsType, ActType>) {
+  constructor(env: BaseEnv<ObsType, ActType>) {
     super(env);
   }
 
@@ -207,7 +394,7 @@ export abstract class ObservationWrapper<
     options?: Record<string, any>
   ): [WrapperObsType, Record<string, any> | null] {
     let [obs, info] = this.env.reset(options);
-    return [this.observarionTransform(obs), info];
+    return [this.own(this.observarionTransform(obs), obs), info];
   }
 
   async step(
@@ -218,7 +405,7 @@ export abstract class ObservationWrapper<
     let [obs, reward, terminated, truncated, info] =
       await this.env.step(action);
     return [
-      this.observarionTransform(obs),
+      this.own(this.observarionTransform(obs), obs),
       reward,
       terminated,
       truncated,
@@ -226,7 +413,7 @@ export abstract class ObservationWrapper<
     ];
   }
   /**
-   * Makes changes to the observation of the environment
+   * Makes changes to the observation of the environment, the new tensors of the transformed observation are owned by the wrapper
    *
    * @param obs - The original observation to change
    * @returns the transformed observation
@@ -243,7 +430,7 @@ export abstract class RewardWrapper<ObsType, ActType> extends Wrapper<
   ObsType,
   ActType
 > {
-  constructor(env: Env<ObsType, ActType>) {
+  constructor(env: BaseEnv<ObsType, ActType>) {
     super(env);
   }
 
@@ -252,15 +439,27 @@ export abstract class RewardWrapper<ObsType, ActType> extends Wrapper<
   ): Promise<[ObsType, number, boolean, boolean, Record<string, any> | null]> {
     let [obs, reward, terminated, truncated, info] =
       await this.env.step(action);
-    return [obs, this.rewardTransform(reward), terminated, truncated, info];
+    return [
+      obs,
+      this.rewardTransform(reward, terminated, truncated),
+      terminated,
+      truncated,
+      info,
+    ];
   }
   /**
    * Makes changes to the rewards of the environment
    *
    * @param reward - The original reward to change
+   * @param terminated - If the episode terminated at this step
+   * @param truncated - If the episode was truncated at this step
    * @returns the transformed reward
    */
-  abstract rewardTransform(reward: number): number;
+  abstract rewardTransform(
+    reward: number,
+    terminated: boolean,
+    truncated: boolean
+  ): number;
 }
 
 /**
@@ -271,17 +470,30 @@ export abstract class ActionWrapper<
   ObsType,
   ActType,
 > extends Wrapper<ObsType, WrapperActType, ObsType, ActType> {
-  constructor(env: Env<ObsType, ActType>) {
+  /** The tensors of the last transformed action */
+  private readonly transformedActions = new OwnedTensors();
+
+  constructor(env: BaseEnv<ObsType, ActType>) {
     super(env);
   }
 
   async step(
     action: WrapperActType
   ): Promise<[ObsType, number, boolean, boolean, Record<string, any> | null]> {
-    return await this.env.step(this.actionTransform(action));
+    return await this.env.step(
+      this.transformedActions.replace(this.actionTransform(action), action)
+    );
+  }
+  /**
+   * Disposes the last transformed action and the tensors owned by the wrapped environment.
+   */
+  dispose(): void {
+    this.transformedActions.dispose();
+    super.dispose();
   }
   /**
-   * Makes changes to the actions of the environment
+   * Makes changes to the actions of the environment, the new tensors of the transformed action are owned by the wrapper
+   * until its next step, as the wrapped environment may return them
    *
    * @param action - The original action to change
    * @returns the transformed action
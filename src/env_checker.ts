@@ -0,0 +1,549 @@
+import * as tf from '@tensorflow/tfjs';
+
+import { BaseEnv } from './core';
+import { Space } from './spaces';
+import { disposeTensors } from './utils';
+
+/**
+ * A problem found by the environment checker
+ */
+export interface EnvCheckIssue {
+  /** Errors break the API contract, warnings are likely to be bugs */
+  level: 'error' | 'warning';
+  /** The part of the API that was checked, like `reset` or `step` */
+  check: string;
+  /** The description of the problem */
+  message: string;
+}
+
+/**
+ * The options of `checkEnv`
+ */
+export interface CheckEnvOptions {
+  /** The number of steps taken with sampled actions */
+  numSteps?: number;
+  /** The seed used to check that resetting is deterministic */
+  seed?: number;
+  /** If the render check should be skipped */
+  skipRenderCheck?: boolean;
+}
+
+/**
+ * Checks that an environment follows the API by resetting and stepping it with sampled actions
+ *
+ * @param env - The environment to check, it is reset, stepped and closed
+ * @param options - The options of the checker
+ * @returns The problems found, empty if the environment follows the API
+ */
+export async function checkEnv(
+  env: BaseEnv<any, any>,
+  options: CheckEnvOptions = {}
+): Promise<EnvCheckIssue[]> {
+  const numSteps = options.numSteps ?? 10;
+  const seed = options.seed ?? 42;
+  const issues: EnvCheckIssue[] = [];
+
+  if (!(env instanceof BaseEnv)) {
+    return [
+      {
+        level: 'error',
+        check: 'env',
+        message: 'The environment must inherit from `Env` or `Wrapper`.',
+      },
+    ];
+  }
+
+  issues.push(...checkSpace(env.observationSpace, 'observation'));
+  issues.push(...checkSpace(env.actionSpace, 'action'));
+  if (issues.length > 0) {
+    return issues;
+  }
+
+  issues.push(...checkMetadata(env));
+
+  // Reset
+  let resetOutput: any;
+  try {
+    resetOutput = env.reset({ seed });
+  } catch (error) {
+    issues.push(errorIssue('reset', `Reset threw an error: ${error}`));
+    return issues;
+  }
+  const resetIssues = checkResetOutput(resetOutput, env.observationSpace);
+  issues.push(...resetIssues);
+  if (resetIssues.some((issue) => issue.level === 'error')) {
+    return issues;
+  }
+
+  // Seeding
+  try {
+    issues.push(...(await checkDeterminism(env, seed, numSteps)));
+  } catch (error) {
+    issues.push(
+      errorIssue('seeding', `Seeded rollout threw an error: ${error}`)
+    );
+  }
+
+  // Steps with sampled actions
+  try {
+    env.reset();
+    for (let i = 0; i < numSteps; i++) {
+      const action = env.actionSpace.sample();
+      const actionSnapshot = snapshot(action);
+      const stepOutput = await env.step(action);
+
+      if (action instanceof tf.Tensor && action.isDisposed) {
+        issues.push(
+          errorIssue('step', 'The action tensor was disposed by the step.')
+        );
+      } else if (!valuesEqual(actionSnapshot, snapshot(action))) {
+        issues.push(
+          errorIssue('step', 'The action tensor was mutated by the step.')
+        );
+      }
+
+      disposeTensors(action);
+
+      const stepIssues = checkStepOutput(stepOutput, env.observationSpace);
+      issues.push(...stepIssues);
+      if (stepIssues.length > 0) {
+        break;
+      }
+
+      const [, , terminated, truncated] = stepOutput;
+      if (terminated || truncated) {
+        env.reset();
+      }
+    }
+  } catch (error) {
+    issues.push(errorIssue('step', `Step threw an error: ${error}`));
+  }
+
+  // Render
+  if (
+    !options.skipRenderCheck &&
+    env.renderMode !== null &&
+    env.renderMode !== 'human'
+  ) {
+    try {
+      const output = await env.render();
+      issues.push(...checkRenderOutput(output, env.renderMode));
+      disposeTensors(output);
+    } catch (error) {
+      issues.push(errorIssue('render', `Render threw an error: ${error}`));
+    }
+  }
+
+  // Close
+  try {
+    env.close();
+    env.close();
+  } catch (error) {
+    issues.push(errorIssue('close', `Closing twice threw an error: ${error}`));
+  }
+
+  return issues;
+}
+
+/**
+ * The options of `checkMemoryLeaks`
+ */
+export interface CheckMemoryLeaksOptions {
+  /** The number of steps taken with sampled actions, 10000 by default */
+  numSteps?: number;
+  /** The seed of the resets and of the action space */
+  seed?: number;
+  /** If the environment is rendered after each step, the rendered frames are disposed */
+  render?: boolean;
+}
+
+/**
+ * Checks that stepping an environment doesn't leak tensors, following the ownership model of `BaseEnv`.
+ * The number of tensors must not grow over the steps, the sampled actions are disposed after each step
+ * since they are owned by the caller. The environment is reset when an episode ends.
+ *
+ * @param env - The environment to check, it is reset and stepped
+ * @param options - The options of the checker
+ * @returns The problems found, empty if the number of tensors is stable
+ */
+export async function checkMemoryLeaks(
+  env: BaseEnv<any, any>,
+  options: CheckMemoryLeaksOptions = {}
+): Promise<EnvCheckIssue[]> {
+  const numSteps = options.numSteps ?? 10000;
+  const seed = options.seed ?? 42;
+
+  const rollout = async (steps: number) => {
+    for (let i = 0; i < steps; i++) {
+      const action = env.actionSpace.sample();
+      const [, , terminated, truncated] = await env.step(action);
+      disposeTensors(action);
+      if (options.render) {
+        disposeTensors(await env.render());
+      }
+      if (terminated || truncated) {
+        env.reset();
+      }
+    }
+  };
+
+  env.reset({ seed });
+  env.actionSpace.seed(seed);
+  // A few steps first, for the tensors created lazily
+  await rollout(10);
+
+  const numTensors = tf.memory().numTensors;
+  await rollout(numSteps);
+  const leaked = tf.memory().numTensors - numTensors;
+
+  if (leaked > 0) {
+    return [
+      errorIssue(
+        'memory',
+        `The number of tensors grew by ${leaked} over ${numSteps} steps.`
+      ),
+    ];
+  }
+  return [];
+}
+
+/**
+ * Checks that the output of `reset` is an observation in the space and an info
+ *
+ * @returns The problems found
+ */
+export function checkResetOutput(
+  output: any,
+  observationSpace: Space<any>
+): EnvCheckIssue[] {
+  if (!Array.isArray(output) || output.length !== 2) {
+    return [
+      errorIssue(
+        'reset',
+        'Reset must return an array of the observation and the info.'
+      ),
+    ];
+  }
+
+  const [obs, info] = output;
+  return [
+    ...checkObservation(obs, observationSpace, 'reset'),
+    ...checkInfo(info, 'reset'),
+  ];
+}
+
+/**
+ * Checks that the output of `step` is an observation in the space, a reward, termination, truncation and an info
+ *
+ * @returns The problems found
+ */
+export function checkStepOutput(
+  output: any,
+  observationSpace: Space<any>
+): EnvCheckIssue[] {
+  if (!Array.isArray(output) || output.length !== 5) {
+    return [
+      errorIssue(
+        'step',
+        'Step must return an array of the observation, reward, termination, truncation and info.'
+      ),
+    ];
+  }
+
+  const [obs, reward, terminated, truncated, info] = output;
+  const issues = [
+    ...checkObservation(obs, observationSpace, 'step'),
+    ...checkInfo(info, 'step'),
+  ];
+
+  if (typeof reward !== 'number') {
+    issues.push(
+      errorIssue('step', `The reward must be a number, got ${typeof reward}.`)
+    );
+  } else if (!Number.isFinite(reward)) {
+    issues.push(warningIssue('step', `The reward is not finite (${reward}).`));
+  }
+
+  if (typeof terminated !== 'boolean') {
+    issues.push(
+      errorIssue(
+        'step',
+        `The termination must be a boolean, got ${typeof terminated}.`
+      )
+    );
+  }
+
+  if (typeof truncated !== 'boolean') {
+    issues.push(
+      errorIssue(
+        'step',
+        `The truncation must be a boolean, got ${typeof truncated}.`
+      )
+    );
+  }
+
+  return issues;
+}
+
+/**
+ * Checks that an observation is in the observation space and that it is finite
+ *
+ * @returns The problems found
+ */
+export function checkObservation(
+  obs: any,
+  observationSpace: Space<any>,
+  check: string
+): EnvCheckIssue[] {
+  if (obs instanceof tf.Tensor && obs.isDisposed) {
+    return [errorIssue(check, 'The observation tensor is disposed.')];
+  }
+
+  if (!observationSpace.contains(obs)) {
+    return [
+      errorIssue(check, 'The observation is not in the observation space.'),
+    ];
+  }
+
+  if (!isFinite(obs)) {
+    return [warningIssue(check, 'The observation contains NaN or Infinity.')];
+  }
+
+  return [];
+}
+
+/**
+ * Checks the metadata of an environment and that its render mode is one of the declared render modes
+ *
+ * @returns The problems found
+ */
+export function checkMetadata(env: BaseEnv<any, any>): EnvCheckIssue[] {
+  const { renderModes, renderFps } = env.metadata;
+
+  if (
+    !Array.isArray(renderModes) ||
+    renderModes.some((mode) => typeof mode !== 'string')
+  ) {
+    return [
+      errorIssue('metadata', 'The render modes must be an array of strings.'),
+    ];
+  }
+
+  const issues: EnvCheckIssue[] = [];
+  if (renderFps !== null && !(renderFps > 0)) {
+    issues.push(
+      errorIssue(
+        'metadata',
+        `The render fps must be a positive number or null, got ${renderFps}.`
+      )
+    );
+  }
+  if (
+    env.renderMode !== null &&
+    renderModes.length > 0 &&
+    !renderModes.includes(env.renderMode)
+  ) {
+    issues.push(
+      errorIssue(
+        'metadata',
+        `The render mode ${env.renderMode} isn't one of the render modes of the metadata (${renderModes.join(', ')}).`
+      )
+    );
+  }
+  if (env.renderMode === 'human' && renderFps === null) {
+    issues.push(
+      warningIssue(
+        'metadata',
+        'The render fps should be specified in the metadata in human mode.'
+      )
+    );
+  }
+
+  return issues;
+}
+
+/**
+ * Checks the output of `render` for a render mode, frames in rgb_array and rgb_array_list modes and a text in ansi mode
+ *
+ * @returns The problems found
+ */
+export function checkRenderOutput(
+  output: any,
+  renderMode: string
+): EnvCheckIssue[] {
+  if (renderMode === 'rgb_array') {
+    return checkRenderFrame(output);
+  } else if (renderMode === 'rgb_array_list') {
+    if (!Array.isArray(output)) {
+      return [
+        errorIssue(
+          'render',
+          'Render must return an array of tensors in rgb_array_list mode.'
+        ),
+      ];
+    }
+    return output.flatMap((frame) => checkRenderFrame(frame)).slice(0, 1);
+  } else if (renderMode === 'ansi' && typeof output !== 'string') {
+    return [errorIssue('render', 'Render must return a string in ansi mode.')];
+  }
+
+  return [];
+}
+
+/**
+ * Checks that a rendered frame is a tensor of type int32 and shape `[height, width, 3]`
+ *
+ * @returns The problems found
+ */
+export function checkRenderFrame(frame: any): EnvCheckIssue[] {
+  if (!(frame instanceof tf.Tensor)) {
+    return [errorIssue('render', 'Render must return a tensor as a frame.')];
+  }
+
+  if (frame.rank !== 3 || frame.shape[2] !== 3) {
+    return [
+      errorIssue(
+        'render',
+        `The rendered frame must have a shape of [height, width, 3], got [${frame.shape}].`
+      ),
+    ];
+  }
+
+  if (frame.dtype !== 'int32') {
+    return [
+      errorIssue(
+        'render',
+        `The rendered frame must have a type of int32, got ${frame.dtype}.`
+      ),
+    ];
+  }
+
+  return [];
+}
+
+function checkInfo(info: any, check: string): EnvCheckIssue[] {
+  if (info !== null && (typeof info !== 'object' || Array.isArray(info))) {
+    return [errorIssue(check, 'The info must be an object or null.')];
+  }
+  return [];
+}
+
+function checkSpace(space: any, name: string): EnvCheckIssue[] {
+  if (!(space instanceof Space)) {
+    return [
+      errorIssue(
+        'spaces',
+        `The ${name} space must inherit from \`Space\`, got ${space}.`
+      ),
+    ];
+  }
+  return [];
+}
+
+// Resets with the seed and steps twice, the observations must be the same
+async function checkDeterminism(
+  env: BaseEnv<any, any>,
+  seed: number,
+  numSteps: number
+): Promise<EnvCheckIssue[]> {
+  const rollout = async () => {
+    const [obs] = env.reset({ seed });
+    const observations = [snapshot(obs)];
+    env.actionSpace.seed(seed);
+
+    for (let i = 0; i < numSteps; i++) {
+      const action = env.actionSpace.sample();
+      const [obs, , terminated, truncated] = await env.step(action);
+      disposeTensors(action);
+      observations.push(snapshot(obs));
+      if (terminated || truncated) {
+        break;
+      }
+    }
+    return observations;
+  };
+
+  const first = await rollout();
+  const second = await rollout();
+
+  if (!valuesEqual(first[0], second[0])) {
+    return [
+      errorIssue(
+        'seeding',
+        'Resetting with the same seed must produce the same observation.'
+      ),
+    ];
+  } else if (!valuesEqual(first, second)) {
+    return [
+      warningIssue(
+        'seeding',
+        'Stepping with the same seed and actions produced different observations, the environment is nondeterministic.'
+      ),
+    ];
+  }
+
+  return [];
+}
+
+// A copy of the value with its tensors replaced by nested arrays
+function snapshot(value: any): any {
+  if (value instanceof tf.Tensor) {
+    return value.isDisposed
+      ? null
+      : { shape: value.shape, dtype: value.dtype, values: value.arraySync() };
+  } else if (Array.isArray(value)) {
+    return value.map(snapshot);
+  } else if (typeof value === 'object' && value !== null) {
+    const copy: Record<string, any> = {};
+    Object.keys(value).forEach((key) => {
+      copy[key] = snapshot(value[key]);
+    });
+    return copy;
+  }
+  return value;
+}
+
+function valuesEqual(first: any, second: any): boolean {
+  if (Array.isArray(first) && Array.isArray(second)) {
+    return (
+      first.length === second.length &&
+      first.every((item, index) => valuesEqual(item, second[index]))
+    );
+  } else if (
+    typeof first === 'object' &&
+    first !== null &&
+    typeof second === 'object' &&
+    second !== null
+  ) {
+    const keys = Object.keys(first);
+    return (
+      keys.length === Object.keys(second).length &&
+      keys.every((key) => valuesEqual(first[key], second[key]))
+    );
+  }
+  return Object.is(first, second);
+}
+
+function isFinite(value: any): boolean {
+  if (value instanceof tf.Tensor) {
+    if (value.dtype === 'string') {
+      return true;
+    }
+    return tf.tidy(() => tf.isFinite(value).all().dataSync()[0] === 1);
+  } else if (typeof value === 'number') {
+    return Number.isFinite(value);
+  } else if (Array.isArray(value)) {
+    return value.every(isFinite);
+  } else if (typeof value === 'object' && value !== null) {
+    return Object.values(value).every(isFinite);
+  }
+  return true;
+}
+
+function errorIssue(check: string, message: string): EnvCheckIssue {
+  return { level: 'error', check, message };
+}
+
+function warningIssue(check: string, message: string): EnvCheckIssue {
+  return { level: 'warning', check, message };
+}
@@ -0,0 +1,409 @@
+import * as tf from '@tensorflow/tfjs';
+
+import { Discrete } from '../../spaces/discrete';
+import { Box } from '../../spaces/box';
+import { BackendValue, SpaceBackend, createValue } from '../../spaces/backend';
+import { Env, EnvMetadata } from '../../core';
+import { Renderer } from './rendering';
+
+/**
+ * Acrobot, an environment based on Sutton's work in "Generalization in Reinforcement Learning"
+ * The system consists of two links connected linearly to form a chain, with one end of the chain fixed.
+ * The joint between the two links is actuated and the goal is to apply torques on the actuated joint
+ * to swing the free end of the chain above a given height while starting from hanging downwards.
+ */
+export class AcrobotEnv<B extends SpaceBackend = 'tensor'> extends Env<
+  BackendValue<B>,
+  number
+> {
+  static readonly metadata: EnvMetadata = {
+    renderModes: ['human', 'rgb_array'],
+    renderFps: 15,
+  };
+
+  // A bunch of environment constants
+  static readonly dt = 0.2;
+  static readonly linkLength1 = 1.0;
+  static readonly linkLength2 = 1.0;
+  static readonly linkMass1 = 1.0;
+  static readonly linkMass2 = 1.0;
+  static readonly linkComPos1 = 0.5;
+  static readonly linkComPos2 = 0.5;
+  static readonly linkMoi = 1.0;
+  static readonly maxVel1 = 4 * Math.PI;
+  static readonly maxVel2 = 9 * Math.PI;
+  static readonly availTorque = [-1.0, 0.0, 1.0];
+  static readonly torqueNoiseMax = 0.0;
+  static readonly screenDim = 500;
+
+  // Per-instance variables
+  private readonly bookOrNips: 'book' | 'nips';
+  protected state: [number, number, number, number] | null;
+
+  private readonly backend: B;
+
+  // Instance variables related to rendering
+  private readonly renderer: Renderer;
+
+  /**
+   * Creates an instance of AcrobotEnv.
+   *
+   * @param bookOrNips - The dynamics used, "book" follows Sutton and Barto's book and "nips" the NIPS paper
+   * which lacks a term in the acceleration of the second link
+   * @param renderMode - Specify the render mode, null means no rendering and "human" means rendering on a canvas.
+   * @param canvas - Specify which canvas to render on, must be specified on web if the rendering mode is human
+   * @param backend - How the observations are represented, "tensor" or "array" for typed arrays that are faster to create
+   */
+  constructor(
+    bookOrNips: 'book' | 'nips' = 'book',
+    renderMode: 'human' | 'rgb_array' | null = null,
+    canvas: HTMLCanvasElement | null = null,
+    backend: B = 'tensor' as B
+  ) {
+    let actionSpace = new Discrete(3);
+
+    const high = tf.tensor([
+      1.0,
+      1.0,
+      1.0,
+      1.0,
+      AcrobotEnv.maxVel1,
+      AcrobotEnv.maxVel2,
+    ]);
+
+    let observationSpace = new Box(
+      tf.neg(high),
+      high,
+      [6],
+      'float32',
+      null,
+      backend
+    );
+
+    super(actionSpace, observationSpace, renderMode);
+    this.backend = backend;
+    this.bookOrNips = bookOrNips;
+    this.state = null;
+    this.renderer = new Renderer(
+      'Acrobot',
+      AcrobotEnv.screenDim,
+      AcrobotEnv.screenDim,
+      renderMode,
+      canvas
+    );
+  }
+
+  /**
+   * Resets the environment.
+   *
+   * @param options - `seed` seeds the random number generator of the environment,
+   * `low` and `high` bound the uniformly sampled initial state (-0.1 and 0.1 by default)
+   * @returns a tuple of observation (type float32 and shape [6]) and info (null)
+   */
+  reset(options?: Record<string, any>): [BackendValue<B>, null] {
+    this.seed(options?.seed);
+
+    const low: number = options?.low ?? -0.1;
+    const high: number = options?.high ?? 0.1;
+    if (low > high) {
+      throw new Error(
+        `Lower bound (${low}) must be lower than higher bound (${high}).`
+      );
+    }
+
+    const [theta1, theta2, dtheta1, dtheta2] = Array.from({ length: 4 }, () =>
+      this.rng.uniform(low, high)
+    );
+    this.state = [theta1, theta2, dtheta1, dtheta2];
+
+    return [this.own(this.getObs()), null];
+  }
+
+  /**
+   * Takes one step in the environment.
+   *
+   * @param action - The torque applied on the actuated joint, 0 means -1, 1 means 0 and 2 means 1
+   *
+   * @returns A tuple of observation (type float32 and shape [6]), reward, terminated, truncated and info (null)
+   */
+  async step(
+    action: number
+  ): Promise<[BackendValue<B>, number, boolean, boolean, null]> {
+    if (this.state === null) {
+      throw new Error('State variables must be defined.');
+    }
+
+    // Logic taken from:
+    // https://github.com/Farama-Foundation/Gymnasium/blob/main/gymnasium/envs/classic_control/acrobot.py
+
+    if (!this.actionSpace.contains(action)) {
+      throw Error(`Action invalid`);
+    }
+
+    if (this.renderer.ready !== null) {
+      await this.renderer.ready;
+    }
+
+    let torque = AcrobotEnv.availTorque[action];
+
+    // Add noise to the force action
+    if (AcrobotEnv.torqueNoiseMax > 0) {
+      torque += this.rng.uniform(
+        -AcrobotEnv.torqueNoiseMax,
+        AcrobotEnv.torqueNoiseMax
+      );
+    }
+
+    // The torque is appended to the state so that the integrator can pass it to the dynamics
+    const augmented = [...this.state, torque];
+    const ns = rk4((s) => this.dsdt(s), augmented, AcrobotEnv.dt);
+
+    this.state = [
+      wrap(ns[0], -Math.PI, Math.PI),
+      wrap(ns[1], -Math.PI, Math.PI),
+      tf.util.clamp(-AcrobotEnv.maxVel1, ns[2], AcrobotEnv.maxVel1),
+      tf.util.clamp(-AcrobotEnv.maxVel2, ns[3], AcrobotEnv.maxVel2),
+    ];
+
+    const terminated = this.terminal();
+    const reward = terminated ? 0.0 : -1.0;
+
+    if (this.renderMode === 'human') {
+      await this.render();
+    }
+
+    return [this.own(this.getObs()), reward, terminated, false, null];
+  }
+
+  /**
+   * Renders the environment on the canvas.
+   */
+  async render(): Promise<void | tf.Tensor> {
+    if (this.renderMode === 'human') {
+      this.draw();
+      await this.renderer.present(AcrobotEnv.metadata.renderFps);
+    } else if (this.renderMode === 'rgb_array' && this.state !== null) {
+      this.draw();
+      return this.renderer.frame();
+    }
+  }
+
+  /**
+   * Renders the environment synchronously as a frame, in rgb_array mode only.
+   *
+   * @returns A tensor of type int32 and shape [height, width, 3]
+   */
+  renderFrame(): tf.Tensor {
+    if (this.renderMode !== 'rgb_array') {
+      throw new Error('Frames can only be rendered in rgb_array mode!');
+    }
+
+    if (this.state === null) {
+      throw new Error("Can't render a frame without a state!");
+    }
+
+    this.draw();
+    return this.renderer.frame();
+  }
+
+  /**
+   * Closes the window on Node JS
+   */
+  close(): void {
+    this.renderer.close();
+  }
+
+  private getObs(): BackendValue<B> {
+    if (this.state === null) {
+      throw Error("State can't be null!");
+    }
+
+    const [theta1, theta2, dtheta1, dtheta2] = this.state;
+    return createValue(
+      [
+        Math.cos(theta1),
+        Math.sin(theta1),
+        Math.cos(theta2),
+        Math.sin(theta2),
+        dtheta1,
+        dtheta2,
+      ],
+      this.observationSpace.shape,
+      this.observationSpace.dtype,
+      this.backend
+    );
+  }
+
+  private terminal(): boolean {
+    if (this.state === null) {
+      throw Error("State can't be null!");
+    }
+
+    const [theta1, theta2] = this.state;
+    return -Math.cos(theta1) - Math.cos(theta2 + theta1) > 1.0;
+  }
+
+  // The derivatives of the augmented state [theta1, theta2, dtheta1, dtheta2, torque]
+  private dsdt(augmented: number[]): number[] {
+    const m1 = AcrobotEnv.linkMass1;
+    const m2 = AcrobotEnv.linkMass2;
+    const l1 = AcrobotEnv.linkLength1;
+    const lc1 = AcrobotEnv.linkComPos1;
+    const lc2 = AcrobotEnv.linkComPos2;
+    const I1 = AcrobotEnv.linkMoi;
+    const I2 = AcrobotEnv.linkMoi;
+    const g = 9.8;
+
+    const [theta1, theta2, dtheta1, dtheta2, a] = augmented;
+
+    const d1 =
+      m1 * lc1 ** 2 +
+      m2 * (l1 ** 2 + lc2 ** 2 + 2 * l1 * lc2 * Math.cos(theta2)) +
+      I1 +
+      I2;
+    const d2 = m2 * (lc2 ** 2 + l1 * lc2 * Math.cos(theta2)) + I2;
+    const phi2 = m2 * lc2 * g * Math.cos(theta1 + theta2 - Math.PI / 2.0);
+    const phi1 =
+      -m2 * l1 * lc2 * dtheta2 ** 2 * Math.sin(theta2) -
+      2 * m2 * l1 * lc2 * dtheta2 * dtheta1 * Math.sin(theta2) +
+      (m1 * lc1 + m2 * l1) * g * Math.cos(theta1 - Math.PI / 2) +
+      phi2;
+
+    let ddtheta2: number;
+    if (this.bookOrNips === 'nips') {
+      // The dynamics of the NIPS paper
+      ddtheta2 =
+        (a + (d2 / d1) * phi1 - phi2) / (m2 * lc2 ** 2 + I2 - d2 ** 2 / d1);
+    } else {
+      // The dynamics of the book, with the missing term
+      ddtheta2 =
+        (a +
+          (d2 / d1) * phi1 -
+          m2 * l1 * lc2 * dtheta1 ** 2 * Math.sin(theta2) -
+          phi2) /
+        (m2 * lc2 ** 2 + I2 - d2 ** 2 / d1);
+    }
+    const ddtheta1 = -(d2 * ddtheta2 + phi1) / d1;
+
+    return [dtheta1, dtheta2, ddtheta1, ddtheta2, 0.0];
+  }
+
+  private draw(): void {
+    const ctx = this.renderer.getContext();
+
+    const width = AcrobotEnv.screenDim;
+    const height = AcrobotEnv.screenDim;
+
+    // Background color
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+
+    if (this.state === null) {
+      return;
+    }
+
+    const bound = AcrobotEnv.linkLength1 + AcrobotEnv.linkLength2 + 0.2;
+    const scale = AcrobotEnv.screenDim / (bound * 2);
+    const offset = AcrobotEnv.screenDim / 2;
+
+    // The drawing is done with the y axis pointing up, so it is flipped on the canvas
+    const toCanvas = (x: number, y: number): [number, number] => [
+      x + offset,
+      offset - y,
+    ];
+
+    const [theta1, theta2] = this.state;
+
+    const p1 = [
+      AcrobotEnv.linkLength1 * Math.sin(theta1) * scale,
+      -AcrobotEnv.linkLength1 * Math.cos(theta1) * scale,
+    ];
+
+    const joints = [[0, 0], p1];
+    const thetas = [theta1 - Math.PI / 2, theta1 + theta2 - Math.PI / 2];
+    const linkLengths = [
+      AcrobotEnv.linkLength1 * scale,
+      AcrobotEnv.linkLength2 * scale,
+    ];
+
+    // Draw the goal line
+    ctx.lineWidth = 1;
+    ctx.strokeStyle = '#000000';
+    ctx.beginPath();
+    ctx.moveTo(...toCanvas(-2.2 * scale, 1 * scale));
+    ctx.lineTo(...toCanvas(2.2 * scale, 1 * scale));
+    ctx.stroke();
+
+    for (let i = 0; i < 2; i++) {
+      const [x, y] = joints[i];
+      const cos = Math.cos(thetas[i]);
+      const sin = Math.sin(thetas[i]);
+
+      // Left, right, top, bottom
+      const [l, r, t, b] = [0, linkLengths[i], 0.1 * scale, -0.1 * scale];
+      const linkCoords = [
+        [l, b], // Bottom-left
+        [l, t], // Top-left
+        [r, t], // Top-right
+        [r, b], // Bottom-right
+      ].map((c) =>
+        toCanvas(c[0] * cos - c[1] * sin + x, c[0] * sin + c[1] * cos + y)
+      );
+
+      // Draw the link
+      ctx.fillStyle = '#00cccc';
+      ctx.beginPath();
+      ctx.moveTo(linkCoords[0][0], linkCoords[0][1]);
+      for (let j = 1; j < 4; j++) {
+        ctx.lineTo(linkCoords[j][0], linkCoords[j][1]);
+      }
+      ctx.closePath();
+      ctx.fill();
+
+      // Draw the joint
+      ctx.fillStyle = '#cccc00';
+      ctx.beginPath();
+      ctx.arc(...toCanvas(x, y), 0.1 * scale, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  }
+}
+
+/**
+ * Wraps a value to the range [min, max], unlike modulo it works on ranges that don't start at zero
+ */
+function wrap(x: number, min: number, max: number): number {
+  const diff = max - min;
+  while (x > max) {
+    x -= diff;
+  }
+  while (x < min) {
+    x += diff;
+  }
+  return x;
+}
+
+/**
+ * Integrates the derivatives over one time step with the fourth-order Runge-Kutta method
+ *
+ * @param derivs - Computes the derivatives of a state
+ * @param y0 - The initial state
+ * @param dt - The length of the time step
+ * @returns The state at the end of the time step
+ */
+function rk4(
+  derivs: (y: number[]) => number[],
+  y0: number[],
+  dt: number
+): number[] {
+  const shift = (k: number[], h: number) => y0.map((y, i) => y + h * k[i]);
+
+  const k1 = derivs(y0);
+  const k2 = derivs(shift(k1, dt / 2));
+  const k3 = derivs(shift(k2, dt / 2));
+  const k4 = derivs(shift(k3, dt));
+
+  return y0.map(
+    (y, i) => y + (dt / 6.0) * (k1[i] + 2 * k2[i] + 2 * k3[i] + k4[i])
+  );
+}
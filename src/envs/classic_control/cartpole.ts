@@ -1,21 +1,25 @@
 import * as tf from '@tensorflow/tfjs';
 
-import type { Canvas } from '@napi-rs/canvas';
-import type { Sdl } from '@kmamal/sdl';
 import { Discrete } from '../../spaces/discrete';
 import { Box } from '../../spaces/box';
-import { Env } from '../../core';
-
-let sdl: typeof import('@kmamal/sdl') | undefined = undefined;
-let createCanvas: typeof import('@napi-rs/canvas').createCanvas | undefined =
-  undefined;
+import { BackendValue, SpaceBackend, createValue } from '../../spaces/backend';
+import { Env, EnvMetadata } from '../../core';
+import { Renderer } from './rendering';
 
 /**
  * CartPole, an environment that corresponds to the version of the cart-pole problem described by Barto, Sutton, and Anderson
  * The Cartpole problem in reinforcement learning involves balancing a pole on a moving cart along a track, where the agent
  * must learn to keep the pole upright by choosing to move the cart left or right based on the state of the system.
  */
-export class CartPoleEnv extends Env<tf.Tensor, number> {
+export class CartPoleEnv<B extends SpaceBackend = 'tensor'> extends Env<
+  BackendValue<B>,
+  number
+> {
+  static readonly metadata: EnvMetadata = {
+    renderModes: ['human', 'rgb_array'],
+    renderFps: 60,
+  };
+
   // A bunch of environment constants
   static readonly gravity = 9.8;
   static readonly massCart = 1.0;
@@ -31,16 +35,15 @@ export class CartPoleEnv extends Env<tf.Tensor, number> {
   static readonly xThreshold = 2.4;
   static readonly screenWidth = 600;
   static readonly screenHeight = 400;
-  static readonly frameRate = 60;
 
   // Per-instance variables
   private readonly suttonBartoReward: boolean;
   protected state: [number, number, number, number] | null;
 
+  private readonly backend: B;
+
   // Instance variables related to rendering
-  private canvas: HTMLCanvasElement | Canvas | null;
-  private window: Sdl.Video.Window | undefined;
-  private createWindowPromise: Promise<void> | null;
+  private readonly renderer: Renderer;
 
   /**
    * Creates an instance of CartPoleEnv.
@@ -48,11 +51,13 @@ export class CartPoleEnv extends Env<tf.Tensor, number> {
    * @param suttonBartoReward - If `True` the reward function matches the original sutton barto implementation
    * @param renderMode - Specify the render mode, null means no rendering and "human" means rendering on a canvas.
    * @param canvas - Specify which canvas to render on, must be specified on web if the rendering mode is human
+   * @param backend - How the observations are represented, "tensor" or "array" for typed arrays that are faster to create
    */
   constructor(
     suttonBartoReward: boolean = false,
     renderMode: 'human' | 'rgb_array' | null = null,
-    canvas: HTMLCanvasElement | null = null
+    canvas: HTMLCanvasElement | null = null,
+    backend: B = 'tensor' as B
   ) {
     let actionSpace = new Discrete(2);
 
@@ -63,45 +68,49 @@ export class CartPoleEnv extends Env<tf.Tensor, number> {
       Infinity,
     ]);
 
-    let observationSpace = new Box(tf.neg(high), high, [4], 'float32');
+    let observationSpace = new Box(
+      tf.neg(high),
+      high,
+      [4],
+      'float32',
+      null,
+      backend
+    );
 
     super(actionSpace, observationSpace, renderMode);
+    this.backend = backend;
     this.suttonBartoReward = suttonBartoReward;
     this.state = null;
-    this.canvas = canvas;
-    this.window = undefined;
-    this.createWindowPromise = null;
-
-    const isNode = typeof process === 'object';
-
-    if (!isNode && renderMode !== null && canvas === null) {
-      throw Error('Canvas must be provied in rendering mode in web!');
-    }
-
-    if (
-      isNode &&
-      (this.renderMode === 'human' || this.renderMode === 'rgb_array')
-    ) {
-      this.createWindowPromise = this.createWindow();
-    }
+    this.renderer = new Renderer(
+      'Cart Pole',
+      CartPoleEnv.screenWidth,
+      CartPoleEnv.screenHeight,
+      renderMode,
+      canvas
+    );
   }
 
   /**
    * Resets the environment.
    *
+   * @param options - `seed` seeds the random number generator of the environment
    * @returns a tuple of observation (type float32 and shape [4]) and info (null)
    */
-  reset(): [tf.Tensor, null] {
-    let randomState = tf.randomUniform(
-      this.observationSpace.shape,
-      -0.05,
-      0.05,
-      this.observationSpace.dtype
+  reset(options?: Record<string, any>): [BackendValue<B>, null] {
+    this.seed(options?.seed);
+
+    const [x, xDot, theta, thetaDot] = Array.from({ length: 4 }, () =>
+      this.rng.uniform(-0.05, 0.05)
     );
-    let [x, xDot, theta, thetaDot] = randomState.dataSync();
     this.state = [x, xDot, theta, thetaDot];
 
-    return [randomState, null];
+    const obs = createValue(
+      this.state,
+      this.observationSpace.shape,
+      this.observationSpace.dtype,
+      this.backend
+    );
+    return [this.own(obs), null];
   }
 
   /**
@@ -113,7 +122,7 @@ export class CartPoleEnv extends Env<tf.Tensor, number> {
    */
   async step(
     action: number
-  ): Promise<[tf.Tensor, number, boolean, boolean, null]> {
+  ): Promise<[BackendValue<B>, number, boolean, boolean, null]> {
     if (this.state === null) {
       throw new Error('State variables must be defined.');
     }
@@ -126,8 +135,8 @@ export class CartPoleEnv extends Env<tf.Tensor, number> {
       throw Error(`Action invalid`);
     }
 
-    if (this.createWindowPromise !== null) {
-      await this.createWindowPromise;
+    if (this.renderer.ready !== null) {
+      await this.renderer.ready;
     }
 
     let [x, xDot, theta, thetaDot] = this.state;
@@ -165,10 +174,11 @@ export class CartPoleEnv extends Env<tf.Tensor, number> {
     }
 
     this.state = [x, xDot, theta, thetaDot];
-    let tensorState = tf.tensor(
+    let tensorState = createValue(
       this.state,
       this.observationSpace.shape,
-      this.observationSpace.dtype
+      this.observationSpace.dtype,
+      this.backend
     );
 
     let terminated =
@@ -186,12 +196,9 @@ export class CartPoleEnv extends Env<tf.Tensor, number> {
 
     if (this.renderMode === 'human') {
       await this.render();
-      await new Promise((resolve) =>
-        setTimeout(resolve, 1000 / CartPoleEnv.frameRate)
-      );
     }
 
-    return [tensorState, reward, terminated, false, null];
+    return [this.own(tensorState), reward, terminated, false, null];
   }
 
   /**
@@ -199,35 +206,45 @@ export class CartPoleEnv extends Env<tf.Tensor, number> {
    */
   async render(): Promise<void | tf.Tensor> {
     if (this.renderMode === 'human') {
-      this.draw(false);
-    } else if (this.renderMode === 'rgb_array') {
-      return this.draw(true);
+      this.draw();
+      await this.renderer.present(CartPoleEnv.metadata.renderFps);
+    } else if (this.renderMode === 'rgb_array' && this.state !== null) {
+      this.draw();
+      return this.renderer.frame();
     }
   }
 
   /**
-   * Closes the window on Node JS
+   * Renders the environment synchronously as a frame, in rgb_array mode only.
+   *
+   * @returns A tensor of type int32 and shape [height, width, 3]
    */
-  close(): void {
-    this.window?.destroy();
-  }
-
-  private draw(returnTensor: boolean): tf.Tensor | void {
-    if (this.canvas === null) {
-      throw Error("Can't draw without a canvas!");
+  renderFrame(): tf.Tensor {
+    if (this.renderMode !== 'rgb_array') {
+      throw new Error('Frames can only be rendered in rgb_array mode!');
     }
 
-    const ctx = this.canvas.getContext('2d');
-    if (ctx === null) {
-      throw Error('Context must not be bull!');
+    if (this.state === null) {
+      throw new Error("Can't render a frame without a state!");
     }
 
-    this.canvas.width = CartPoleEnv.screenWidth;
-    this.canvas.height = CartPoleEnv.screenHeight;
+    this.draw();
+    return this.renderer.frame();
+  }
+
+  /**
+   * Closes the window on Node JS
+   */
+  close(): void {
+    this.renderer.close();
+  }
+
+  private draw(): void {
+    const ctx = this.renderer.getContext();
 
     // Background color
     ctx.fillStyle = '#000000';
-    ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+    ctx.fillRect(0, 0, CartPoleEnv.screenWidth, CartPoleEnv.screenHeight);
 
     if (this.state === null) {
       return;
@@ -318,49 +335,5 @@ export class CartPoleEnv extends Env<tf.Tensor, number> {
     ctx.fillStyle = '#8184cb';
     ctx.arc(cartX, cartY + axleOffset, poleWidth / 2, 0, Math.PI * 2);
     ctx.fill();
-
-    const width = CartPoleEnv.screenWidth;
-    const height = CartPoleEnv.screenHeight;
-    if (returnTensor) {
-      const imageArray = ctx.getImageData(0, 0, width, height).data;
-      return tf.tensor(imageArray).reshape([width, height, 4]);
-    }
-
-    // Render to window on node js
-    if (this.window !== undefined) {
-      const buffer = Buffer.from(ctx.getImageData(0, 0, width, height).data);
-      this.window.render(width, height, width * 4, 'rgba32', buffer);
-    }
-  }
-
-  private async createWindow() {
-    const isMac = process.platform === 'darwin';
-
-    if (isMac) {
-      throw Error(
-        'Unfortunately Rendering does not currently work on Mac OS! Disable rendering mode.'
-      );
-    }
-
-    if (sdl === undefined) {
-      sdl = await import('@kmamal/sdl');
-    }
-
-    if (createCanvas === undefined) {
-      createCanvas = (await import('@napi-rs/canvas')).createCanvas;
-    }
-
-    if (this.renderMode === 'human') {
-      this.window = sdl.video.createWindow({
-        title: 'Cart Pole',
-        width: CartPoleEnv.screenWidth,
-        height: CartPoleEnv.screenHeight,
-      });
-    }
-
-    this.canvas = createCanvas(
-      CartPoleEnv.screenWidth,
-      CartPoleEnv.screenHeight
-    );
   }
 }
@@ -0,0 +1,250 @@
+import * as tf from '@tensorflow/tfjs';
+
+import { Box } from '../../spaces/box';
+import {
+  BackendValue,
+  SpaceBackend,
+  createValue,
+  valueData,
+} from '../../spaces/backend';
+import { Env, EnvMetadata } from '../../core';
+import { Renderer } from './rendering';
+import { drawMountainCar, parseResetBounds } from './mountain_car';
+
+/**
+ * MountainCarContinuous, the continuous version of the mountain car problem
+ * The agent applies a force between -1 and 1 on the car, reaching the goal is rewarded by 100
+ * and the squared force is penalised at each step.
+ */
+export class MountainCarContinuousEnv<
+  B extends SpaceBackend = 'tensor',
+> extends Env<BackendValue<B>, BackendValue<B>> {
+  static readonly metadata: EnvMetadata = {
+    renderModes: ['human', 'rgb_array'],
+    renderFps: 30,
+  };
+
+  // A bunch of environment constants
+  static readonly minAction = -1.0;
+  static readonly maxAction = 1.0;
+  static readonly minPosition = -1.2;
+  static readonly maxPosition = 0.6;
+  static readonly maxSpeed = 0.07;
+  static readonly goalPosition = 0.45;
+  static readonly power = 0.0015;
+  static readonly screenWidth = 600;
+  static readonly screenHeight = 400;
+
+  // Per-instance variables
+  private readonly goalVelocity: number;
+  protected state: [number, number] | null;
+
+  private readonly backend: B;
+
+  // Instance variables related to rendering
+  private readonly renderer: Renderer;
+
+  /**
+   * Creates an instance of MountainCarContinuousEnv.
+   *
+   * @param goalVelocity - The minimum velocity of the car at the goal for the episode to terminate, 0 by default
+   * @param renderMode - Specify the render mode, null means no rendering and "human" means rendering on a canvas.
+   * @param canvas - Specify which canvas to render on, must be specified on web if the rendering mode is human
+   * @param backend - How the observations and actions are represented, "tensor" or "array" for typed arrays that are faster to create
+   */
+  constructor(
+    goalVelocity: number = 0,
+    renderMode: 'human' | 'rgb_array' | null = null,
+    canvas: HTMLCanvasElement | null = null,
+    backend: B = 'tensor' as B
+  ) {
+    let actionSpace = new Box(
+      MountainCarContinuousEnv.minAction,
+      MountainCarContinuousEnv.maxAction,
+      [1],
+      'float32',
+      null,
+      backend
+    );
+
+    let observationSpace = new Box(
+      tf.tensor([
+        MountainCarContinuousEnv.minPosition,
+        -MountainCarContinuousEnv.maxSpeed,
+      ]),
+      tf.tensor([
+        MountainCarContinuousEnv.maxPosition,
+        MountainCarContinuousEnv.maxSpeed,
+      ]),
+      [2],
+      'float32',
+      null,
+      backend
+    );
+
+    super(actionSpace, observationSpace, renderMode);
+    this.backend = backend;
+    this.goalVelocity = goalVelocity;
+    this.state = null;
+    this.renderer = new Renderer(
+      'Mountain Car Continuous',
+      MountainCarContinuousEnv.screenWidth,
+      MountainCarContinuousEnv.screenHeight,
+      renderMode,
+      canvas
+    );
+  }
+
+  /**
+   * Resets the environment.
+   *
+   * @param options - `seed` seeds the random number generator of the environment,
+   * `low` and `high` bound the uniformly sampled initial position (-0.6 and -0.4 by default)
+   * @returns a tuple of observation (type float32 and shape [2]) and info (null)
+   */
+  reset(options?: Record<string, any>): [BackendValue<B>, null] {
+    this.seed(options?.seed);
+
+    const [low, high] = parseResetBounds(options, -0.6, -0.4);
+    this.state = [this.rng.uniform(low, high), 0];
+
+    return [this.own(this.getObs()), null];
+  }
+
+  /**
+   * Takes one step in the environment.
+   *
+   * @param action - The force applied on the car, between -1 and 1. Positive values push the car to the right.
+   *
+   * @returns A tuple of observation (type float32 and shape [2]), reward, terminated, truncated and info (null)
+   */
+  async step(
+    action: BackendValue<B>
+  ): Promise<[BackendValue<B>, number, boolean, boolean, null]> {
+    if (this.state === null) {
+      throw new Error('State variables must be defined.');
+    }
+
+    // Logic taken from:
+    // https://github.com/Farama-Foundation/Gymnasium/blob/main/gymnasium/envs/classic_control/continuous_mountain_car.py
+
+    if (!this.actionSpace.contains(action)) {
+      throw Error(`Action invalid`);
+    }
+
+    if (this.renderer.ready !== null) {
+      await this.renderer.ready;
+    }
+
+    const force = tf.util.clamp(
+      MountainCarContinuousEnv.minAction,
+      valueData(action)[0],
+      MountainCarContinuousEnv.maxAction
+    );
+
+    let [position, velocity] = this.state;
+    velocity +=
+      force * MountainCarContinuousEnv.power - 0.0025 * Math.cos(3 * position);
+    velocity = tf.util.clamp(
+      -MountainCarContinuousEnv.maxSpeed,
+      velocity,
+      MountainCarContinuousEnv.maxSpeed
+    );
+    position += velocity;
+    position = tf.util.clamp(
+      MountainCarContinuousEnv.minPosition,
+      position,
+      MountainCarContinuousEnv.maxPosition
+    );
+    if (position === MountainCarContinuousEnv.minPosition && velocity < 0) {
+      velocity = 0;
+    }
+
+    this.state = [position, velocity];
+
+    const terminated =
+      position >= MountainCarContinuousEnv.goalPosition &&
+      velocity >= this.goalVelocity;
+
+    let reward = terminated ? 100.0 : 0.0;
+    reward -= force ** 2 * 0.1;
+
+    if (this.renderMode === 'human') {
+      await this.render();
+    }
+
+    return [this.own(this.getObs()), reward, terminated, false, null];
+  }
+
+  /**
+   * Renders the environment on the canvas.
+   */
+  async render(): Promise<void | tf.Tensor> {
+    if (this.renderMode === 'human') {
+      this.draw();
+      await this.renderer.present(MountainCarContinuousEnv.metadata.renderFps);
+    } else if (this.renderMode === 'rgb_array' && this.state !== null) {
+      this.draw();
+      return this.renderer.frame();
+    }
+  }
+
+  /**
+   * Renders the environment synchronously as a frame, in rgb_array mode only.
+   *
+   * @returns A tensor of type int32 and shape [height, width, 3]
+   */
+  renderFrame(): tf.Tensor {
+    if (this.renderMode !== 'rgb_array') {
+      throw new Error('Frames can only be rendered in rgb_array mode!');
+    }
+
+    if (this.state === null) {
+      throw new Error("Can't render a frame without a state!");
+    }
+
+    this.draw();
+    return this.renderer.frame();
+  }
+
+  /**
+   * Closes the window on Node JS
+   */
+  close(): void {
+    this.renderer.close();
+  }
+
+  private getObs(): BackendValue<B> {
+    if (this.state === null) {
+      throw Error("State can't be null!");
+    }
+
+    return createValue(
+      this.state,
+      this.observationSpace.shape,
+      this.observationSpace.dtype,
+      this.backend
+    );
+  }
+
+  private draw(): void {
+    const ctx = this.renderer.getContext();
+
+    const width = MountainCarContinuousEnv.screenWidth;
+    const height = MountainCarContinuousEnv.screenHeight;
+
+    if (this.state === null) {
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, width, height);
+      return;
+    }
+
+    drawMountainCar(
+      ctx,
+      this.state[0],
+      MountainCarContinuousEnv.goalPosition,
+      MountainCarContinuousEnv.minPosition,
+      MountainCarContinuousEnv.maxPosition
+    );
+  }
+}
@@ -1,3 +1,12 @@
 import { CartPoleEnv } from './cartpole';
 import { PendulumEnv } from './pendulum';
-export { CartPoleEnv, PendulumEnv };
+import { AcrobotEnv } from './acrobot';
+import { MountainCarEnv } from './mountain_car';
+import { MountainCarContinuousEnv } from './continuous_mountain_car';
+export {
+  CartPoleEnv,
+  PendulumEnv,
+  AcrobotEnv,
+  MountainCarEnv,
+  MountainCarContinuousEnv,
+};
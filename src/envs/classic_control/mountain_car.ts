@@ -0,0 +1,354 @@
+import * as tf from '@tensorflow/tfjs';
+
+import { Discrete } from '../../spaces/discrete';
+import { Box } from '../../spaces/box';
+import { BackendValue, SpaceBackend, createValue } from '../../spaces/backend';
+import { Env, EnvMetadata } from '../../core';
+import { RenderContext, Renderer } from './rendering';
+
+/**
+ * MountainCar, an environment that corresponds to the mountain car problem described by Andrew Moore
+ * A car is placed stochastically at the bottom of a sinusoidal valley and the agent must learn to accelerate
+ * the car left or right to build up enough momentum to reach the goal on top of the right hill.
+ */
+export class MountainCarEnv<B extends SpaceBackend = 'tensor'> extends Env<
+  BackendValue<B>,
+  number
+> {
+  static readonly metadata: EnvMetadata = {
+    renderModes: ['human', 'rgb_array'],
+    renderFps: 30,
+  };
+
+  // A bunch of environment constants
+  static readonly minPosition = -1.2;
+  static readonly maxPosition = 0.6;
+  static readonly maxSpeed = 0.07;
+  static readonly goalPosition = 0.5;
+  static readonly force = 0.001;
+  static readonly gravity = 0.0025;
+  static readonly screenWidth = 600;
+  static readonly screenHeight = 400;
+
+  // Per-instance variables
+  private readonly goalVelocity: number;
+  protected state: [number, number] | null;
+
+  private readonly backend: B;
+
+  // Instance variables related to rendering
+  private readonly renderer: Renderer;
+
+  /**
+   * Creates an instance of MountainCarEnv.
+   *
+   * @param goalVelocity - The minimum velocity of the car at the goal for the episode to terminate, 0 by default
+   * @param renderMode - Specify the render mode, null means no rendering and "human" means rendering on a canvas.
+   * @param canvas - Specify which canvas to render on, must be specified on web if the rendering mode is human
+   * @param backend - How the observations are represented, "tensor" or "array" for typed arrays that are faster to create
+   */
+  constructor(
+    goalVelocity: number = 0,
+    renderMode: 'human' | 'rgb_array' | null = null,
+    canvas: HTMLCanvasElement | null = null,
+    backend: B = 'tensor' as B
+  ) {
+    let actionSpace = new Discrete(3);
+
+    let observationSpace = new Box(
+      tf.tensor([MountainCarEnv.minPosition, -MountainCarEnv.maxSpeed]),
+      tf.tensor([MountainCarEnv.maxPosition, MountainCarEnv.maxSpeed]),
+      [2],
+      'float32',
+      null,
+      backend
+    );
+
+    super(actionSpace, observationSpace, renderMode);
+    this.backend = backend;
+    this.goalVelocity = goalVelocity;
+    this.state = null;
+    this.renderer = new Renderer(
+      'Mountain Car',
+      MountainCarEnv.screenWidth,
+      MountainCarEnv.screenHeight,
+      renderMode,
+      canvas
+    );
+  }
+
+  /**
+   * Resets the environment.
+   *
+   * @param options - `seed` seeds the random number generator of the environment,
+   * `low` and `high` bound the uniformly sampled initial position (-0.6 and -0.4 by default)
+   * @returns a tuple of observation (type float32 and shape [2]) and info (null)
+   */
+  reset(options?: Record<string, any>): [BackendValue<B>, null] {
+    this.seed(options?.seed);
+
+    const [low, high] = parseResetBounds(options, -0.6, -0.4);
+    this.state = [this.rng.uniform(low, high), 0];
+
+    return [this.own(this.getObs()), null];
+  }
+
+  /**
+   * Takes one step in the environment.
+   *
+   * @param action - The action chosen, 0 means accelerate to the left, 1 don't accelerate and 2 accelerate to the right
+   *
+   * @returns A tuple of observation (type float32 and shape [2]), reward, terminated, truncated and info (null)
+   */
+  async step(
+    action: number
+  ): Promise<[BackendValue<B>, number, boolean, boolean, null]> {
+    if (this.state === null) {
+      throw new Error('State variables must be defined.');
+    }
+
+    // Logic taken from:
+    // https://github.com/Farama-Foundation/Gymnasium/blob/main/gymnasium/envs/classic_control/mountain_car.py
+
+    if (!this.actionSpace.contains(action)) {
+      throw Error(`Action invalid`);
+    }
+
+    if (this.renderer.ready !== null) {
+      await this.renderer.ready;
+    }
+
+    let [position, velocity] = this.state;
+    velocity +=
+      (action - 1) * MountainCarEnv.force +
+      Math.cos(3 * position) * -MountainCarEnv.gravity;
+    velocity = tf.util.clamp(
+      -MountainCarEnv.maxSpeed,
+      velocity,
+      MountainCarEnv.maxSpeed
+    );
+    position += velocity;
+    position = tf.util.clamp(
+      MountainCarEnv.minPosition,
+      position,
+      MountainCarEnv.maxPosition
+    );
+    if (position === MountainCarEnv.minPosition && velocity < 0) {
+      velocity = 0;
+    }
+
+    this.state = [position, velocity];
+
+    const terminated =
+      position >= MountainCarEnv.goalPosition && velocity >= this.goalVelocity;
+    const reward = -1.0;
+
+    if (this.renderMode === 'human') {
+      await this.render();
+    }
+
+    return [this.own(this.getObs()), reward, terminated, false, null];
+  }
+
+  /**
+   * Renders the environment on the canvas.
+   */
+  async render(): Promise<void | tf.Tensor> {
+    if (this.renderMode === 'human') {
+      this.draw();
+      await this.renderer.present(MountainCarEnv.metadata.renderFps);
+    } else if (this.renderMode === 'rgb_array' && this.state !== null) {
+      this.draw();
+      return this.renderer.frame();
+    }
+  }
+
+  /**
+   * Renders the environment synchronously as a frame, in rgb_array mode only.
+   *
+   * @returns A tensor of type int32 and shape [height, width, 3]
+   */
+  renderFrame(): tf.Tensor {
+    if (this.renderMode !== 'rgb_array') {
+      throw new Error('Frames can only be rendered in rgb_array mode!');
+    }
+
+    if (this.state === null) {
+      throw new Error("Can't render a frame without a state!");
+    }
+
+    this.draw();
+    return this.renderer.frame();
+  }
+
+  /**
+   * Closes the window on Node JS
+   */
+  close(): void {
+    this.renderer.close();
+  }
+
+  private getObs(): BackendValue<B> {
+    if (this.state === null) {
+      throw Error("State can't be null!");
+    }
+
+    return createValue(
+      this.state,
+      this.observationSpace.shape,
+      this.observationSpace.dtype,
+      this.backend
+    );
+  }
+
+  private draw(): void {
+    const ctx = this.renderer.getContext();
+
+    const width = MountainCarEnv.screenWidth;
+    const height = MountainCarEnv.screenHeight;
+
+    if (this.state === null) {
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, width, height);
+      return;
+    }
+
+    drawMountainCar(
+      ctx,
+      this.state[0],
+      MountainCarEnv.goalPosition,
+      MountainCarEnv.minPosition,
+      MountainCarEnv.maxPosition
+    );
+  }
+}
+
+/**
+ * Gets the bounds of the initial position from the reset options
+ *
+ * @param options - The reset options, with optional `low` and `high`
+ * @param defaultLow - The lower bound used if `low` isn't specified
+ * @param defaultHigh - The higher bound used if `high` isn't specified
+ * @returns The lower and higher bounds
+ */
+export function parseResetBounds(
+  options: Record<string, any> | undefined,
+  defaultLow: number,
+  defaultHigh: number
+): [number, number] {
+  const low: number = options?.low ?? defaultLow;
+  const high: number = options?.high ?? defaultHigh;
+  if (low > high) {
+    throw new Error(
+      `Lower bound (${low}) must be lower than higher bound (${high}).`
+    );
+  }
+  return [low, high];
+}
+
+/**
+ * Draws the hill curve, the car and the flag of the mountain car environments on a canvas of 600x400
+ *
+ * @param ctx - The context of the canvas
+ * @param position - The position of the car
+ * @param goalPosition - The position of the flag
+ * @param minPosition - The position at the left edge of the canvas
+ * @param maxPosition - The position at the right edge of the canvas
+ */
+export function drawMountainCar(
+  ctx: RenderContext,
+  position: number,
+  goalPosition: number,
+  minPosition: number,
+  maxPosition: number
+): void {
+  // Drawing is a direct translation of gymnasium's Pygame rendering
+  const width = MountainCarEnv.screenWidth;
+  const height = MountainCarEnv.screenHeight;
+  const scale = width / (maxPosition - minPosition);
+  const carWidth = 40;
+  const carHeight = 20;
+  const clearance = 10;
+
+  const hillHeight = (x: number) => Math.sin(3 * x) * 0.45 + 0.55;
+
+  // The drawing is done with the y axis pointing up, so it is flipped on the canvas
+  const toCanvas = (x: number, y: number): [number, number] => [x, height - y];
+
+  // Background color
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+
+  // Draw the hill curve
+  ctx.lineWidth = 1;
+  ctx.strokeStyle = '#000000';
+  ctx.beginPath();
+  for (let i = 0; i < 100; i++) {
+    const x = minPosition + ((maxPosition - minPosition) * i) / 99;
+    const [cx, cy] = toCanvas((x - minPosition) * scale, hillHeight(x) * scale);
+    if (i === 0) {
+      ctx.moveTo(cx, cy);
+    } else {
+      ctx.lineTo(cx, cy);
+    }
+  }
+  ctx.stroke();
+
+  // Draw the car, rotated along the slope of the hill
+  const angle = Math.cos(3 * position);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const carX = (position - minPosition) * scale;
+  const carY = clearance + hillHeight(position) * scale;
+  const rotate = (c: number[]) =>
+    toCanvas(c[0] * cos - c[1] * sin + carX, c[0] * sin + c[1] * cos + carY);
+
+  // Left, right, top, bottom
+  const [l, r, t, b] = [-carWidth / 2, carWidth / 2, carHeight, 0];
+  const carCoords = [
+    [l, b], // Bottom-left
+    [l, t], // Top-left
+    [r, t], // Top-right
+    [r, b], // Bottom-right
+  ].map(rotate);
+
+  ctx.fillStyle = '#000000';
+  ctx.beginPath();
+  ctx.moveTo(carCoords[0][0], carCoords[0][1]);
+  for (let i = 1; i < 4; i++) {
+    ctx.lineTo(carCoords[i][0], carCoords[i][1]);
+  }
+  ctx.closePath();
+  ctx.fill();
+
+  // Draw the wheels
+  ctx.fillStyle = '#808080';
+  for (const wheel of [
+    [carWidth / 4, 0],
+    [-carWidth / 4, 0],
+  ]) {
+    const [wx, wy] = rotate(wheel);
+    ctx.beginPath();
+    ctx.arc(wx, wy, carHeight / 2.5, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  // Draw the flag
+  const flagX = (goalPosition - minPosition) * scale;
+  const flagY1 = hillHeight(goalPosition) * scale;
+  const flagY2 = flagY1 + 50;
+
+  ctx.strokeStyle = '#000000';
+  ctx.beginPath();
+  ctx.moveTo(...toCanvas(flagX, flagY1));
+  ctx.lineTo(...toCanvas(flagX, flagY2));
+  ctx.stroke();
+
+  ctx.fillStyle = '#cccc00';
+  ctx.beginPath();
+  ctx.moveTo(...toCanvas(flagX, flagY2));
+  ctx.lineTo(...toCanvas(flagX, flagY2 - 10));
+  ctx.lineTo(...toCanvas(flagX + 25, flagY2 - 5));
+  ctx.closePath();
+  ctx.fill();
+}
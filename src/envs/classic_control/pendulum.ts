@@ -1,20 +1,29 @@
 import * as tf from '@tensorflow/tfjs';
 
-import type { Canvas } from '@napi-rs/canvas';
-import type { Sdl } from '@kmamal/sdl';
 import { Box } from '../../spaces/box';
-import { Env } from '../../core';
-
-let sdl: typeof import('@kmamal/sdl') | undefined = undefined;
-let createCanvas: typeof import('@napi-rs/canvas').createCanvas | undefined =
-  undefined;
+import {
+  BackendValue,
+  SpaceBackend,
+  createValue,
+  valueData,
+} from '../../spaces/backend';
+import { Env, EnvMetadata } from '../../core';
+import { Renderer } from './rendering';
 
 /**
  * CartPole, an environment that corresponds to the version of the cart-pole problem described by Barto, Sutton, and Anderson
  * The Cartpole problem in reinforcement learning involves balancing a pole on a moving cart along a track, where the agent
  * must learn to keep the pole upright by choosing to move the cart left or right based on the state of the system.
  */
-export class PendulumEnv extends Env<tf.Tensor, tf.Tensor> {
+export class PendulumEnv<B extends SpaceBackend = 'tensor'> extends Env<
+  BackendValue<B>,
+  BackendValue<B>
+> {
+  static readonly metadata: EnvMetadata = {
+    renderModes: ['human', 'rgb_array'],
+    renderFps: 30,
+  };
+
   // A bunch of environment constants
   static readonly maxSpeed = 8;
   static readonly maxTorque = 2.0;
@@ -24,17 +33,16 @@ export class PendulumEnv extends Env<tf.Tensor, tf.Tensor> {
   static readonly screenDim = 500;
   static readonly defaultX = Math.PI;
   static readonly defaulty = 1.0;
-  static readonly frameRate = 30;
 
   // Per-instance variables
   private readonly g: number;
   protected state: [number, number] | null;
   private lastU: number | null;
 
+  private readonly backend: B;
+
   // Instance variables related to rendering
-  private canvas: HTMLCanvasElement | Canvas | null;
-  private window: Sdl.Video.Window | undefined;
-  private createWindowPromise: Promise<void> | null;
+  private readonly renderer: Renderer;
 
   /**
    * Creates an instance of CartPoleEnv.
@@ -42,61 +50,66 @@ export class PendulumEnv extends Env<tf.Tensor, tf.Tensor> {
    * @param g - Gravity, 10 by default
    * @param renderMode - Specify the render mode, null means no rendering and "human" means rendering on a canvas.
    * @param canvas - Specify which canvas to render on, must be specified on web if the rendering mode is human
+   * @param backend - How the observations and actions are represented, "tensor" or "array" for typed arrays that are faster to create
    */
   constructor(
     g: number = 10.0,
     renderMode: 'human' | 'rgb_array' | null = null,
-    canvas: HTMLCanvasElement | null = null
+    canvas: HTMLCanvasElement | null = null,
+    backend: B = 'tensor' as B
   ) {
     let actionSpace = new Box(
       -PendulumEnv.maxTorque,
       PendulumEnv.maxTorque,
       [1],
-      'float32'
+      'float32',
+      null,
+      backend
     );
 
     const high = tf.tensor([1.0, 1.0, PendulumEnv.maxSpeed]);
 
-    let observationSpace = new Box(tf.neg(high), high, high.shape, 'float32');
+    let observationSpace = new Box(
+      tf.neg(high),
+      high,
+      high.shape,
+      'float32',
+      null,
+      backend
+    );
 
     super(actionSpace, observationSpace, renderMode);
+    this.backend = backend;
     this.g = g;
     this.state = null;
     this.lastU = null;
-    this.canvas = canvas;
-    this.createWindowPromise = null;
-
-    const isNode = typeof process === 'object';
-
-    if (!isNode && renderMode !== null && canvas === null) {
-      throw Error('Canvas must be provied in rendering mode in web!');
-    }
-
-    if (
-      isNode &&
-      (this.renderMode === 'human' || this.renderMode === 'rgb_array')
-    ) {
-      this.createWindowPromise = this.createWindow();
-    }
+    this.renderer = new Renderer(
+      'Pendulum',
+      PendulumEnv.screenDim,
+      PendulumEnv.screenDim,
+      renderMode,
+      canvas
+    );
   }
 
   /**
    * Resets the environment.
    *
-   * @returns a tuple of observation (type float32 and shape [4]) and info (null)
+   * @param options - `seed` seeds the random number generator of the environment
+   * @returns a tuple of observation (type float32 and shape [3]) and info (null)
    */
-  reset(): [tf.Tensor, null] {
-    const high = tf.tensor([PendulumEnv.defaultX, PendulumEnv.defaulty]);
-    const low = tf.neg(high);
+  reset(options?: Record<string, any>): [BackendValue<B>, null] {
+    this.seed(options?.seed);
 
-    const random = tf.randomUniform(high.shape, 0, 1, 'float32');
-    const randomState = random.mul(high.sub(low)).add(low);
-
-    let [theta, thetaDot] = randomState.dataSync();
+    const theta = this.rng.uniform(-PendulumEnv.defaultX, PendulumEnv.defaultX);
+    const thetaDot = this.rng.uniform(
+      -PendulumEnv.defaulty,
+      PendulumEnv.defaulty
+    );
     this.state = [theta, thetaDot];
     this.lastU = null;
 
-    return [this.getObs(), null];
+    return [this.own(this.getObs()), null];
   }
 
   /**
@@ -108,8 +121,8 @@ export class PendulumEnv extends Env<tf.Tensor, tf.Tensor> {
    * @returns A tuple of observation (type float32 and shape [4]), reward, terminated, truncated and info (null)
    */
   async step(
-    action: tf.Tensor
-  ): Promise<[tf.Tensor, number, boolean, boolean, null]> {
+    action: BackendValue<B>
+  ): Promise<[BackendValue<B>, number, boolean, boolean, null]> {
     if (this.state === null) {
       throw new Error('State variables must be defined.');
     }
@@ -122,18 +135,17 @@ export class PendulumEnv extends Env<tf.Tensor, tf.Tensor> {
       throw Error(`Action invalid`);
     }
 
-    if (this.createWindowPromise !== null) {
-      await this.createWindowPromise;
+    if (this.renderer.ready !== null) {
+      await this.renderer.ready;
     }
 
     let [theta, thetaDot] = this.state;
 
-    action = tf.clipByValue(
-      action,
+    const u = tf.util.clamp(
       -PendulumEnv.maxTorque,
+      valueData(action)[0],
       PendulumEnv.maxTorque
     );
-    const u = action.dataSync()[0];
     this.lastU = u;
 
     const costs =
@@ -155,12 +167,9 @@ export class PendulumEnv extends Env<tf.Tensor, tf.Tensor> {
 
     if (this.renderMode === 'human') {
       await this.render();
-      await new Promise((resolve) =>
-        setTimeout(resolve, 1000 / PendulumEnv.frameRate)
-      );
     }
 
-    return [this.getObs(), -costs, false, false, null];
+    return [this.own(this.getObs()), -costs, false, false, null];
   }
 
   /**
@@ -168,46 +177,60 @@ export class PendulumEnv extends Env<tf.Tensor, tf.Tensor> {
    */
   async render(): Promise<void | tf.Tensor> {
     if (this.renderMode === 'human') {
-      this.draw(false);
-    } else if (this.renderMode === 'rgb_array') {
-      return this.draw(true);
+      this.draw();
+      await this.renderer.present(PendulumEnv.metadata.renderFps);
+    } else if (this.renderMode === 'rgb_array' && this.state !== null) {
+      this.draw();
+      return this.renderer.frame();
     }
   }
 
+  /**
+   * Renders the environment synchronously as a frame, in rgb_array mode only.
+   *
+   * @returns A tensor of type int32 and shape [height, width, 3]
+   */
+  renderFrame(): tf.Tensor {
+    if (this.renderMode !== 'rgb_array') {
+      throw new Error('Frames can only be rendered in rgb_array mode!');
+    }
+
+    if (this.state === null) {
+      throw new Error("Can't render a frame without a state!");
+    }
+
+    this.draw();
+    return this.renderer.frame();
+  }
+
   /**
    * Closes the window on Node JS
    */
   close(): void {
-    this.window?.destroy();
+    this.renderer.close();
   }
 
-  private getObs(): tf.Tensor {
+  private getObs(): BackendValue<B> {
     if (this.state === null) {
       throw Error("State can't be null!");
     }
 
     let [theta, thetaDot] = this.state;
-    const obs = tf.tensor([Math.cos(theta), Math.sin(theta), thetaDot]);
-    return obs;
+    return createValue(
+      [Math.cos(theta), Math.sin(theta), thetaDot],
+      [3],
+      'float32',
+      this.backend
+    );
   }
 
-  private draw(returnTensor: boolean): tf.Tensor | void {
+  private draw(): void {
     // Drawing is mostly the direct translation of gymnasium's Pygame rendering with ChatGPT
     if (this.state === null) {
       throw Error("Can't draw without a state!");
     }
 
-    if (this.canvas === null) {
-      throw Error("Can't draw without a canvas!");
-    }
-
-    const ctx = this.canvas.getContext('2d');
-    if (ctx === null) {
-      throw Error('Context must not be bull!');
-    }
-
-    this.canvas.width = PendulumEnv.screenDim;
-    this.canvas.height = PendulumEnv.screenDim;
+    const ctx = this.renderer.getContext();
 
     ctx.save();
     ctx.clearRect(0, 0, PendulumEnv.screenDim, PendulumEnv.screenDim);
@@ -367,47 +390,6 @@ export class PendulumEnv extends Env<tf.Tensor, tf.Tensor> {
     );
 
     ctx.restore(); // restore to original transform
-
-    const width = PendulumEnv.screenDim;
-    const height = PendulumEnv.screenDim;
-    if (returnTensor) {
-      const imageArray = ctx.getImageData(0, 0, width, height).data;
-      return tf.tensor(imageArray).reshape([width, height, 4]);
-    }
-
-    // Render to window on node js
-    if (this.window !== undefined) {
-      const buffer = Buffer.from(ctx.getImageData(0, 0, width, height).data);
-      this.window.render(width, height, width * 4, 'rgba32', buffer);
-    }
-  }
-
-  private async createWindow() {
-    const isMac = process.platform === 'darwin';
-
-    if (isMac) {
-      throw Error(
-        'Unfortunately Rendering does not currently work on Mac OS! Disable rendering mode.'
-      );
-    }
-
-    if (sdl === undefined) {
-      sdl = await import('@kmamal/sdl');
-    }
-
-    if (createCanvas === undefined) {
-      createCanvas = (await import('@napi-rs/canvas')).createCanvas;
-    }
-
-    if (this.renderMode === 'human') {
-      this.window = sdl.video.createWindow({
-        title: 'Pendulum',
-        width: PendulumEnv.screenDim,
-        height: PendulumEnv.screenDim,
-      });
-    }
-
-    this.canvas = createCanvas(PendulumEnv.screenDim, PendulumEnv.screenDim);
   }
 }
 
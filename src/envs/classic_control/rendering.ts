@@ -0,0 +1,224 @@
+import * as tf from '@tensorflow/tfjs';
+
+import type { Canvas, SKRSContext2D } from '@napi-rs/canvas';
+import type { Sdl } from '@kmamal/sdl';
+
+let sdl: typeof import('@kmamal/sdl') | undefined = undefined;
+let napiCanvas: typeof import('@napi-rs/canvas') | undefined = undefined;
+
+/** The context of a canvas, on web or on Node JS */
+export type RenderContext = CanvasRenderingContext2D | SKRSContext2D;
+
+/**
+ * The rendering backend shared by the classic control environments.
+ * Frames are drawn on an offscreen canvas, `@napi-rs/canvas` on Node JS, and only the human mode opens a window with SDL.
+ * In rgb_array mode the canvas is created synchronously so that frames can be rendered right after a reset,
+ * except on Node JS versions without `process.getBuiltinModule` where it is loaded asynchronously and `ready` must be awaited first.
+ * There is no pure JS rasterizer fallback, `@napi-rs/canvas` is required on Node JS.
+ */
+export class Renderer {
+  /** Resolves once the window is opened in human mode, or once the canvas is loaded in rgb_array mode without synchronous access to modules */
+  public readonly ready: Promise<void> | null;
+
+  private readonly width: number;
+  private readonly height: number;
+  private canvas: HTMLCanvasElement | Canvas | null;
+  private window: Sdl.Video.Window | undefined;
+
+  /**
+   * Creates an instance of Renderer.
+   *
+   * @param title - The title of the window in human mode
+   * @param width - The width of the canvas
+   * @param height - The height of the canvas
+   * @param renderMode - The render mode of the environment, nothing is created if it is null
+   * @param canvas - Specify which canvas to render on, must be specified on web if the rendering mode is human
+   */
+  constructor(
+    title: string,
+    width: number,
+    height: number,
+    renderMode: string | null,
+    canvas: HTMLCanvasElement | null = null
+  ) {
+    this.width = width;
+    this.height = height;
+    this.canvas = canvas;
+    this.window = undefined;
+    this.ready = null;
+
+    const isNode = typeof process === 'object';
+
+    if (renderMode === null || canvas !== null) {
+      return;
+    }
+
+    if (!isNode) {
+      if (renderMode !== 'rgb_array' || typeof document === 'undefined') {
+        throw Error('Canvas must be provied in rendering mode in web!');
+      }
+      this.canvas = document.createElement('canvas');
+    } else if (renderMode === 'human') {
+      this.ready = this.createWindow(title);
+    } else {
+      this.canvas = createOffscreenCanvas(width, height) ?? null;
+      if (this.canvas === null) {
+        // Node JS versions without synchronous access to modules load the canvas asynchronously
+        this.ready = this.loadCanvas();
+      }
+    }
+  }
+
+  /**
+   * Gets the context of the canvas, cleared and resized to the size of the renderer
+   *
+   * @returns The context to draw on
+   */
+  getContext(): RenderContext {
+    if (this.canvas === null) {
+      throw Error(this.missingCanvasMessage("Can't draw without a canvas!"));
+    }
+
+    this.canvas.width = this.width;
+    this.canvas.height = this.height;
+
+    const ctx = this.canvas.getContext('2d');
+    if (ctx === null) {
+      throw Error('Context must not be bull!');
+    }
+    return ctx;
+  }
+
+  /**
+   * Shows the canvas in the window on Node JS, canvases are already shown on web, and waits for the next frame
+   *
+   * @param fps - The number of frames per second, nothing is waited if it is null
+   */
+  async present(fps: number | null): Promise<void> {
+    if (this.window !== undefined) {
+      const buffer = Buffer.from(this.imageData());
+      this.window.render(
+        this.width,
+        this.height,
+        this.width * 4,
+        'rgba32',
+        buffer
+      );
+    }
+
+    if (fps !== null) {
+      await new Promise((resolve) => setTimeout(resolve, 1000 / fps));
+    }
+  }
+
+  /**
+   * Gets the content of the canvas as a frame
+   *
+   * @returns A tensor of type int32 and shape [height, width, 3]
+   */
+  frame(): tf.Tensor {
+    return frameFromImageData(this.imageData(), this.width, this.height);
+  }
+
+  /**
+   * Closes the window on Node JS
+   */
+  close(): void {
+    this.window?.destroy();
+    this.window = undefined;
+  }
+
+  private imageData(): Uint8ClampedArray {
+    return this.getContext2D().getImageData(0, 0, this.width, this.height).data;
+  }
+
+  private getContext2D(): RenderContext {
+    const ctx = this.canvas?.getContext('2d');
+    if (ctx === undefined || ctx === null) {
+      throw Error(
+        this.missingCanvasMessage("Can't read a frame without a canvas!")
+      );
+    }
+    return ctx;
+  }
+
+  // The canvas is missing either because it is still loading or because nothing is rendered
+  private missingCanvasMessage(message: string): string {
+    if (this.ready === null) {
+      return message;
+    }
+    return `${message} The canvas is still loading, await \`ready\` (awaited by \`step\` and \`render\` of the environments) before rendering frames synchronously.`;
+  }
+
+  private async createWindow(title: string) {
+    const isMac = process.platform === 'darwin';
+
+    if (isMac) {
+      throw Error(
+        'Unfortunately Rendering does not currently work on Mac OS! Disable rendering mode.'
+      );
+    }
+
+    if (sdl === undefined) {
+      sdl = await import('@kmamal/sdl');
+    }
+
+    this.window = sdl.video.createWindow({
+      title: title,
+      width: this.width,
+      height: this.height,
+    });
+
+    await this.loadCanvas();
+  }
+
+  private async loadCanvas() {
+    if (napiCanvas === undefined) {
+      napiCanvas = await import('@napi-rs/canvas');
+    }
+    this.canvas = napiCanvas.createCanvas(this.width, this.height);
+  }
+}
+
+/**
+ * Creates an offscreen canvas on Node JS synchronously, without opening any window
+ *
+ * @param width - The width of the canvas
+ * @param height - The height of the canvas
+ * @returns The canvas, or undefined if `@napi-rs/canvas` can't be loaded synchronously
+ */
+export function createOffscreenCanvas(
+  width: number,
+  height: number
+): Canvas | undefined {
+  if (napiCanvas === undefined) {
+    const nodeModule = process.getBuiltinModule?.('module');
+    if (nodeModule === undefined) {
+      return undefined;
+    }
+    napiCanvas = nodeModule.createRequire(import.meta.url)('@napi-rs/canvas');
+  }
+  return napiCanvas?.createCanvas(width, height);
+}
+
+/**
+ * Converts the RGBA pixels of a canvas to a frame
+ *
+ * @param data - The RGBA pixels, row by row
+ * @param width - The width of the canvas
+ * @param height - The height of the canvas
+ * @returns A tensor of type int32 and shape [height, width, 3] with values between 0 and 255
+ */
+export function frameFromImageData(
+  data: ArrayLike<number>,
+  width: number,
+  height: number
+): tf.Tensor {
+  const rgb = new Int32Array(width * height * 3);
+  for (let i = 0; i < width * height; i++) {
+    rgb[3 * i] = data[4 * i];
+    rgb[3 * i + 1] = data[4 * i + 1];
+    rgb[3 * i + 2] = data[4 * i + 2];
+  }
+  return tf.tensor(rgb, [height, width, 3], 'int32');
+}
@@ -1,3 +1,234 @@
 import * as classic_control from './classic_control';
+import * as toy_text from './toy_text';
+import * as wrappers from '../wrappers';
+import {
+  EnvSpec,
+  registry,
+  wrapperRegistry,
+  register,
+  registerWrapper,
+  spec,
+  make,
+  parseEnvId,
+  getEnvId,
+} from './registration';
+import type {
+  EnvSpecOptions,
+  EnvCreator,
+  WrapperSpec,
+  WrapperCreator,
+  MakeOverrides,
+} from './registration';
 
-export { classic_control };
+// Classic control
+register({
+  id: 'CartPole-v1',
+  entryPoint: (kwargs) =>
+    new classic_control.CartPoleEnv(
+      kwargs.suttonBartoReward,
+      kwargs.renderMode,
+      kwargs.canvas,
+      kwargs.backend
+    ),
+  maxEpisodeSteps: 500,
+  rewardThreshold: 475.0,
+});
+
+register({
+  id: 'Pendulum-v1',
+  entryPoint: (kwargs) =>
+    new classic_control.PendulumEnv(
+      kwargs.g,
+      kwargs.renderMode,
+      kwargs.canvas,
+      kwargs.backend
+    ),
+  maxEpisodeSteps: 200,
+});
+
+register({
+  id: 'Acrobot-v1',
+  entryPoint: (kwargs) =>
+    new classic_control.AcrobotEnv(
+      kwargs.bookOrNips,
+      kwargs.renderMode,
+      kwargs.canvas,
+      kwargs.backend
+    ),
+  maxEpisodeSteps: 500,
+  rewardThreshold: -100.0,
+});
+
+register({
+  id: 'MountainCar-v0',
+  entryPoint: (kwargs) =>
+    new classic_control.MountainCarEnv(
+      kwargs.goalVelocity,
+      kwargs.renderMode,
+      kwargs.canvas,
+      kwargs.backend
+    ),
+  maxEpisodeSteps: 200,
+  rewardThreshold: -110.0,
+});
+
+register({
+  id: 'MountainCarContinuous-v0',
+  entryPoint: (kwargs) =>
+    new classic_control.MountainCarContinuousEnv(
+      kwargs.goalVelocity,
+      kwargs.renderMode,
+      kwargs.canvas,
+      kwargs.backend
+    ),
+  maxEpisodeSteps: 999,
+  rewardThreshold: 90.0,
+});
+
+// Toy text
+register({
+  id: 'FrozenLake-v1',
+  entryPoint: (kwargs) =>
+    new toy_text.FrozenLakeEnv(
+      kwargs.desc,
+      kwargs.mapName,
+      kwargs.isSlippery,
+      kwargs.renderMode
+    ),
+  kwargs: { mapName: '4x4' },
+  maxEpisodeSteps: 100,
+  rewardThreshold: 0.7,
+});
+
+register({
+  id: 'FrozenLake8x8-v1',
+  entryPoint: (kwargs) =>
+    new toy_text.FrozenLakeEnv(
+      kwargs.desc,
+      kwargs.mapName,
+      kwargs.isSlippery,
+      kwargs.renderMode
+    ),
+  kwargs: { mapName: '8x8' },
+  maxEpisodeSteps: 200,
+  rewardThreshold: 0.85,
+});
+
+register({
+  id: 'CliffWalking-v0',
+  entryPoint: (kwargs) => new toy_text.CliffWalkingEnv(kwargs.renderMode),
+});
+
+register({
+  id: 'Taxi-v3',
+  entryPoint: (kwargs) => new toy_text.TaxiEnv(kwargs.renderMode),
+  maxEpisodeSteps: 200,
+  rewardThreshold: 8,
+});
+
+register({
+  id: 'Blackjack-v1',
+  entryPoint: (kwargs) =>
+    new toy_text.BlackjackEnv(kwargs.natural, kwargs.sab, kwargs.renderMode),
+  kwargs: { sab: true, natural: false },
+});
+
+// Wrappers
+registerWrapper(
+  'TimeLimit',
+  (env, kwargs) => new wrappers.TimeLimit(env, kwargs.maxEpisodeSteps)
+);
+registerWrapper('Autoreset', (env) => new wrappers.Autoreset(env));
+registerWrapper(
+  'OrderEnforcing',
+  (env, kwargs) =>
+    new wrappers.OrderEnforcing(env, kwargs.disableRenderOrderEnforcing)
+);
+registerWrapper(
+  'RecordEpisodeStatistics',
+  (env, kwargs) => new wrappers.RecordEpisodeStatistics(env, kwargs.statsKey)
+);
+registerWrapper(
+  'ClipReward',
+  (env, kwargs) =>
+    new wrappers.ClipReward(env, kwargs.minReward, kwargs.maxReward)
+);
+registerWrapper('ClipAction', (env) => new wrappers.ClipAction(env));
+registerWrapper(
+  'PassiveEnvChecker',
+  (env) => new wrappers.PassiveEnvChecker(env)
+);
+registerWrapper(
+  'NormalizeObservation',
+  (env, kwargs) => new wrappers.NormalizeObservation(env, kwargs.epsilon)
+);
+registerWrapper(
+  'FrameStackObservation',
+  (env, kwargs) =>
+    new wrappers.FrameStackObservation(env, kwargs.stackSize, kwargs.padding)
+);
+registerWrapper(
+  'NormalizeReward',
+  (env, kwargs) =>
+    new wrappers.NormalizeReward(env, kwargs.gamma, kwargs.epsilon)
+);
+registerWrapper(
+  'ResizeObservation',
+  (env, kwargs) => new wrappers.ResizeObservation(env, kwargs.shape)
+);
+registerWrapper(
+  'GrayscaleObservation',
+  (env, kwargs) => new wrappers.GrayscaleObservation(env, kwargs.keepDim)
+);
+registerWrapper(
+  'AddRenderObservation',
+  (env, kwargs) =>
+    new wrappers.AddRenderObservation(
+      env,
+      kwargs.renderOnly,
+      kwargs.renderKey,
+      kwargs.obsKey
+    )
+);
+registerWrapper(
+  'RenderCollection',
+  (env, kwargs) =>
+    new wrappers.RenderCollection(env, kwargs.popFrames, kwargs.resetClean)
+);
+registerWrapper(
+  'RecordVideo',
+  (env, kwargs) =>
+    new wrappers.RecordVideo(
+      env,
+      kwargs.videoFolder,
+      kwargs.episodeTrigger,
+      kwargs.stepTrigger,
+      kwargs.videoLength,
+      kwargs.namePrefix,
+      kwargs.format,
+      kwargs.fps
+    )
+);
+registerWrapper('TensorToArray', (env) => new wrappers.TensorToArray(env));
+registerWrapper('ArrayToTensor', (env) => new wrappers.ArrayToTensor(env));
+
+export {
+  classic_control,
+  toy_text,
+  EnvSpec,
+  registry,
+  wrapperRegistry,
+  register,
+  registerWrapper,
+  spec,
+  make,
+  parseEnvId,
+  getEnvId,
+};
+export type {
+  EnvSpecOptions,
+  EnvCreator,
+  WrapperSpec,
+  WrapperCreator,
+  MakeOverrides,
+};
@@ -0,0 +1,417 @@
+import { BaseEnv, Env } from '../core';
+import { Autoreset, OrderEnforcing, TimeLimit } from '../wrappers/common';
+import { PassiveEnvChecker } from '../wrappers/env_checker';
+import { RenderCollection } from '../wrappers/rendering';
+
+/**
+ * A function that creates an environment from its keyword arguments
+ */
+export type EnvCreator = (kwargs: Record<string, any>) => Env<any, any>;
+
+/**
+ * A function that wraps an environment from the keyword arguments of the wrapper
+ */
+export type WrapperCreator = (
+  env: BaseEnv<any, any>,
+  kwargs: Record<string, any>
+) => BaseEnv<any, any>;
+
+/**
+ * The specification of a wrapper applied to an environment, recorded in the spec of the environment
+ */
+export interface WrapperSpec {
+  /** The name of the wrapper, used to find it in the wrapper registry */
+  name: string;
+  /** The keyword arguments of the wrapper */
+  kwargs: Record<string, any>;
+}
+
+/**
+ * The arguments used to register an environment
+ */
+export interface EnvSpecOptions {
+  /** The environment id, formatted as `[namespace/]name[-v(version)]` */
+  id: string;
+  /** The function that creates the environment from its keyword arguments */
+  entryPoint: EnvCreator;
+  /** The reward threshold for the environment to be considered solved */
+  rewardThreshold?: number | null;
+  /** If the environment is nondeterministic even after seeding */
+  nondeterministic?: boolean;
+  /** The maximum number of steps of an episode, applied with `TimeLimit` */
+  maxEpisodeSteps?: number | null;
+  /** If `OrderEnforcing` should be applied to the environment */
+  orderEnforce?: boolean;
+  /** If `Autoreset` should be applied to the environment */
+  autoreset?: boolean;
+  /** If `PassiveEnvChecker` should not be applied to the environment */
+  disableEnvChecker?: boolean;
+  /** The keyword arguments passed to the entry point */
+  kwargs?: Record<string, any>;
+  /** The wrappers applied after the wrappers of `make`, in order */
+  additionalWrappers?: WrapperSpec[];
+}
+
+/**
+ * The specification of an environment, used by `make` to create the environment with its wrappers
+ */
+export class EnvSpec {
+  /** The environment id, formatted as `[namespace/]name[-v(version)]` */
+  public readonly id: string;
+  /** The function that creates the environment from its keyword arguments */
+  public entryPoint: EnvCreator;
+  /** The reward threshold for the environment to be considered solved */
+  public rewardThreshold: number | null;
+  /** If the environment is nondeterministic even after seeding */
+  public nondeterministic: boolean;
+  /** The maximum number of steps of an episode, applied with `TimeLimit` */
+  public maxEpisodeSteps: number | null;
+  /** If `OrderEnforcing` should be applied to the environment */
+  public orderEnforce: boolean;
+  /** If `Autoreset` should be applied to the environment */
+  public autoreset: boolean;
+  /** If `PassiveEnvChecker` should not be applied to the environment */
+  public disableEnvChecker: boolean;
+  /** The keyword arguments passed to the entry point */
+  public kwargs: Record<string, any>;
+  /** The wrappers applied after the wrappers of `make`, in order */
+  public additionalWrappers: WrapperSpec[];
+
+  /** The namespace of the environment id, null if there is none */
+  public readonly namespace: string | null;
+  /** The name of the environment id */
+  public readonly name: string;
+  /** The version of the environment id, null if there is none */
+  public readonly version: number | null;
+
+  constructor(options: EnvSpecOptions) {
+    this.id = options.id;
+    this.entryPoint = options.entryPoint;
+    this.rewardThreshold = options.rewardThreshold ?? null;
+    this.nondeterministic = options.nondeterministic ?? false;
+    this.maxEpisodeSteps = options.maxEpisodeSteps ?? null;
+    this.orderEnforce = options.orderEnforce ?? true;
+    this.autoreset = options.autoreset ?? false;
+    this.disableEnvChecker = options.disableEnvChecker ?? false;
+    this.kwargs = options.kwargs ?? {};
+    this.additionalWrappers = options.additionalWrappers ?? [];
+
+    [this.namespace, this.name, this.version] = parseEnvId(this.id);
+  }
+
+  /**
+   * Creates the environment of the spec
+   *
+   * @param overrides - values that replace the ones of the spec
+   * @returns The environment with the wrappers of the spec
+   */
+  make<ObsType = any, ActType = any>(
+    overrides: MakeOverrides = {}
+  ): BaseEnv<ObsType, ActType> {
+    return make(this, overrides);
+  }
+
+  /**
+   * Copies the spec
+   *
+   * @param changes - values that replace the ones of the spec
+   * @returns A new spec, its kwargs and additional wrappers are shallow copies
+   */
+  copy(changes: Partial<Omit<EnvSpecOptions, 'id'>> = {}): EnvSpec {
+    return new EnvSpec({
+      id: this.id,
+      entryPoint: this.entryPoint,
+      rewardThreshold: this.rewardThreshold,
+      nondeterministic: this.nondeterministic,
+      maxEpisodeSteps: this.maxEpisodeSteps,
+      orderEnforce: this.orderEnforce,
+      autoreset: this.autoreset,
+      disableEnvChecker: this.disableEnvChecker,
+      kwargs: { ...this.kwargs },
+      additionalWrappers: [...this.additionalWrappers],
+      ...changes,
+    });
+  }
+
+  /**
+   * Serializes the spec to JSON so that the environment can be recreated with `EnvSpec.fromJson`
+   *
+   * @returns The JSON of the spec, without the entry point
+   */
+  toJson(): string {
+    const path =
+      findNonJsonValue(this.kwargs, 'kwargs') ??
+      findNonJsonValue(this.additionalWrappers, 'additionalWrappers');
+    if (path !== null) {
+      throw new Error(`The ${path} of ${this.id} can't be serialized to JSON.`);
+    }
+
+    return JSON.stringify({
+      id: this.id,
+      rewardThreshold: this.rewardThreshold,
+      nondeterministic: this.nondeterministic,
+      maxEpisodeSteps: this.maxEpisodeSteps,
+      orderEnforce: this.orderEnforce,
+      autoreset: this.autoreset,
+      disableEnvChecker: this.disableEnvChecker,
+      kwargs: this.kwargs,
+      additionalWrappers: this.additionalWrappers,
+    });
+  }
+
+  /**
+   * Deserializes a spec from JSON, the entry point is the one of the registered environment with the same id
+   *
+   * @param json - The JSON of the spec, created by `toJson`
+   * @returns The spec
+   */
+  static fromJson(json: string): EnvSpec {
+    const options = JSON.parse(json);
+    return new EnvSpec({ ...options, entryPoint: spec(options.id).entryPoint });
+  }
+}
+
+// Finds a value that would be lost or changed by JSON serialization, like functions, class instances or infinite numbers
+function findNonJsonValue(value: any, path: string): string | null {
+  if (
+    value === null ||
+    typeof value === 'string' ||
+    typeof value === 'boolean' ||
+    (typeof value === 'number' && Number.isFinite(value))
+  ) {
+    return null;
+  }
+
+  let entries: [string, any][];
+  if (Array.isArray(value)) {
+    entries = value.map((item, i) => [`${path}[${i}]`, item]);
+  } else if (
+    typeof value === 'object' &&
+    Object.getPrototypeOf(value) === Object.prototype
+  ) {
+    entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .map(([key, item]) => [`${path}.${key}`, item]);
+  } else {
+    return path;
+  }
+
+  for (const [itemPath, item] of entries) {
+    const found = findNonJsonValue(item, itemPath);
+    if (found !== null) {
+      return found;
+    }
+  }
+  return null;
+}
+
+/**
+ * The values of a spec that can be overridden when making an environment
+ */
+export type MakeOverrides = Partial<
+  Pick<
+    EnvSpec,
+    | 'maxEpisodeSteps'
+    | 'orderEnforce'
+    | 'autoreset'
+    | 'disableEnvChecker'
+    | 'kwargs'
+  >
+>;
+
+const envIdRegex =
+  /^(?:(?<namespace>[\w:.-]+)\/)?(?:(?<name>[\w:.-]+?))(?:-v(?<version>\d+))?$/;
+
+/**
+ * Parses an environment id into its namespace, name and version
+ *
+ * @param id - The environment id, formatted as `[namespace/]name[-v(version)]`
+ * @returns A tuple of namespace, name and version, namespace and version are null if not specified
+ */
+export function parseEnvId(id: string): [string | null, string, number | null] {
+  const match = envIdRegex.exec(id);
+  if (match === null || match.groups === undefined) {
+    throw new Error(
+      `Malformed environment ID: ${id}. (Currently all IDs must be of the form [namespace/](env-name)-v(version).)`
+    );
+  }
+
+  const { namespace, name, version } = match.groups;
+  return [
+    namespace ?? null,
+    name,
+    version === undefined ? null : parseInt(version),
+  ];
+}
+
+/**
+ * Gets the environment id from its namespace, name and version
+ *
+ * @returns The environment id, formatted as `[namespace/]name[-v(version)]`
+ */
+export function getEnvId(
+  namespace: string | null,
+  name: string,
+  version: number | null
+): string {
+  const namespacePart = namespace === null ? '' : `${namespace}/`;
+  const versionPart = version === null ? '' : `-v${version}`;
+  return `${namespacePart}${name}${versionPart}`;
+}
+
+/** The global registry of the environments, keyed by their id */
+export const registry: Record<string, EnvSpec> = {};
+
+/** The global registry of the wrappers that can be recreated from a spec, keyed by their name */
+export const wrapperRegistry: Record<string, WrapperCreator> = {};
+
+/**
+ * Registers a wrapper so that the environments it wraps can be recreated from their spec
+ *
+ * @param name - The name of the wrapper, the name of its class
+ * @param entryPoint - The function that wraps an environment from the keyword arguments of the wrapper
+ */
+export function registerWrapper(
+  name: string,
+  entryPoint: WrapperCreator
+): void {
+  if (name in wrapperRegistry) {
+    throw new Error(`Wrapper ${name} is already registered!`);
+  }
+
+  wrapperRegistry[name] = entryPoint;
+}
+
+/**
+ * Registers an environment so that it can be created with `make`
+ *
+ * @param options - The spec of the environment
+ * @returns The registered spec
+ */
+export function register(options: EnvSpecOptions): EnvSpec {
+  const newSpec = new EnvSpec(options);
+
+  if (newSpec.id in registry) {
+    throw new Error(`Environment ${newSpec.id} is already registered!`);
+  }
+
+  registry[newSpec.id] = newSpec;
+  return newSpec;
+}
+
+/**
+ * Gets the spec of a registered environment
+ *
+ * @param id - The environment id
+ * @returns The spec of the environment
+ */
+export function spec(id: string): EnvSpec {
+  if (id in registry) {
+    return registry[id];
+  }
+
+  const [namespace, name, version] = parseEnvId(id);
+  const versions = Object.values(registry)
+    .filter((envSpec) => envSpec.namespace === namespace)
+    .filter((envSpec) => envSpec.name === name);
+
+  if (versions.length === 0) {
+    throw new Error(`No registered env with id: ${id}`);
+  }
+
+  const latestVersion = versions.reduce((latest, envSpec) =>
+    (envSpec.version ?? -1) > (latest.version ?? -1) ? envSpec : latest
+  );
+
+  if (version === null) {
+    throw new Error(
+      `Environment ${id} doesn't exist unversioned, use ${latestVersion.id} instead.`
+    );
+  } else if (
+    latestVersion.version !== null &&
+    version < latestVersion.version
+  ) {
+    throw new Error(
+      `Environment version v${version} for ${getEnvId(namespace, name, null)} is deprecated, use ${latestVersion.id} instead.`
+    );
+  } else {
+    throw new Error(
+      `Environment version v${version} for ${getEnvId(namespace, name, null)} doesn't exist, ` +
+        `available versions: ${versions.map((envSpec) => envSpec.id).join(', ')}.`
+    );
+  }
+}
+
+/**
+ * Creates an environment from its id with the wrappers of its spec
+ *
+ * @param id - The id of a registered environment or a spec
+ * @param overrides - Values that replace the ones of the spec, `kwargs` are merged with the spec's
+ * @returns The environment wrapped by `PassiveEnvChecker`, `OrderEnforcing`, `TimeLimit` and `Autoreset` as specified,
+ * the rgb_array_list render mode creates the environment in rgb_array mode wrapped by `RenderCollection`,
+ * followed by the additional wrappers of the spec. The `spec` of the environment records how it was made.
+ */
+export function make<ObsType = any, ActType = any>(
+  id: string | EnvSpec,
+  overrides: MakeOverrides = {}
+): BaseEnv<ObsType, ActType> {
+  const envSpec = typeof id === 'string' ? spec(id) : id;
+
+  const kwargs = { ...envSpec.kwargs, ...overrides.kwargs };
+  const maxEpisodeSteps =
+    overrides.maxEpisodeSteps === undefined
+      ? envSpec.maxEpisodeSteps
+      : overrides.maxEpisodeSteps;
+  const orderEnforce = overrides.orderEnforce ?? envSpec.orderEnforce;
+  const autoreset = overrides.autoreset ?? envSpec.autoreset;
+  const disableEnvChecker =
+    overrides.disableEnvChecker ?? envSpec.disableEnvChecker;
+
+  const renderCollection = kwargs.renderMode === 'rgb_array_list';
+  if (renderCollection) {
+    kwargs.renderMode = 'rgb_array';
+  }
+
+  const baseEnv = envSpec.entryPoint(kwargs);
+  baseEnv.spec = envSpec.copy({
+    kwargs: { ...kwargs },
+    maxEpisodeSteps,
+    orderEnforce,
+    autoreset,
+    disableEnvChecker,
+    additionalWrappers: [],
+  });
+
+  let env: BaseEnv<ObsType, ActType> = baseEnv;
+
+  if (renderCollection) {
+    env = new RenderCollection(env);
+  }
+
+  if (!disableEnvChecker) {
+    env = new PassiveEnvChecker(env);
+  }
+
+  if (orderEnforce) {
+    env = new OrderEnforcing(env);
+  }
+
+  if (maxEpisodeSteps !== null) {
+    env = new TimeLimit(env, maxEpisodeSteps);
+  }
+
+  if (autoreset) {
+    env = new Autoreset(env);
+  }
+
+  for (const wrapperSpec of envSpec.additionalWrappers) {
+    if (!(wrapperSpec.name in wrapperRegistry)) {
+      throw new Error(
+        `Wrapper ${wrapperSpec.name} of ${envSpec.id} is not registered, register it with registerWrapper.`
+      );
+    }
+    env = wrapperRegistry[wrapperSpec.name](env, wrapperSpec.kwargs);
+  }
+
+  return env;
+}
@@ -0,0 +1,207 @@
+import { Discrete } from '../../spaces/discrete';
+import { Tuple } from '../../spaces/tuple';
+import { Space } from '../../spaces/space';
+import { Env, EnvMetadata } from '../../core';
+import { printFrame } from './utils';
+import { RandomGenerator } from '../../utils';
+
+// 1 = Ace, 2-10 = Number cards, Jack/Queen/King = 10
+const DECK = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 10, 10, 10];
+
+function drawCard(rng: RandomGenerator): number {
+  return DECK[rng.integers(0, DECK.length)];
+}
+
+function drawHand(rng: RandomGenerator): number[] {
+  return [drawCard(rng), drawCard(rng)];
+}
+
+// An ace is usable if it can count as 11 without busting
+function usableAce(hand: number[]): boolean {
+  return hand.includes(1) && sum(hand) + 10 <= 21;
+}
+
+function sumHand(hand: number[]): number {
+  return usableAce(hand) ? sum(hand) + 10 : sum(hand);
+}
+
+function isBust(hand: number[]): boolean {
+  return sumHand(hand) > 21;
+}
+
+function score(hand: number[]): number {
+  return isBust(hand) ? 0 : sumHand(hand);
+}
+
+function isNatural(hand: number[]): boolean {
+  return hand.length === 2 && hand.includes(1) && hand.includes(10);
+}
+
+function sum(hand: number[]): number {
+  return hand.reduce((a, b) => a + b, 0);
+}
+
+/**
+ * Blackjack, the card game described in Sutton and Barto's book where the player tries to beat the dealer
+ * by obtaining cards that sum closer to 21 without going over 21. The cards are drawn from an infinite deck.
+ * The observation is the sum of the player, the value of the card showing of the dealer and if the player holds a usable ace.
+ * Since its observation isn't a `Discrete` space, the environment has no transition table.
+ */
+export class BlackjackEnv extends Env<number[], number> {
+  static readonly metadata: EnvMetadata = {
+    renderModes: ['human', 'ansi'],
+    renderFps: 4,
+  };
+
+  // Per-instance variables
+  private readonly natural: boolean;
+  private readonly sab: boolean;
+  protected player: number[];
+  protected dealer: number[];
+  private lastAction: number | null;
+
+  /**
+   * Creates an instance of BlackjackEnv.
+   *
+   * @param natural - If a natural blackjack (an ace and a ten-valued card) that wins is rewarded by 1.5 instead of 1
+   * @param sab - If the rules of Sutton and Barto's book are followed, a natural blackjack wins unless the dealer
+   * also has one and `natural` is ignored
+   * @param renderMode - Specify the render mode, null means no rendering, "ansi" returns a text and "human" prints it
+   */
+  constructor(
+    natural: boolean = false,
+    sab: boolean = false,
+    renderMode: 'human' | 'ansi' | null = null
+  ) {
+    const observationSpace = new Tuple([
+      new Discrete(32),
+      new Discrete(11),
+      new Discrete(2),
+    ]) as unknown as Space<number[]>;
+
+    super(new Discrete(2), observationSpace, renderMode);
+    this.natural = natural;
+    this.sab = sab;
+    this.player = [];
+    this.dealer = [];
+    this.lastAction = null;
+  }
+
+  /**
+   * Resets the environment.
+   *
+   * @param options - `seed` seeds the random number generator of the environment
+   * @returns a tuple of observation (the sum of the player, the card of the dealer and the usable ace) and info (empty)
+   */
+  reset(options?: Record<string, any>): [number[], Record<string, any>] {
+    this.seed(options?.seed);
+
+    this.dealer = drawHand(this.rng);
+    this.player = drawHand(this.rng);
+    this.lastAction = null;
+
+    // Reset is synchronous, so the first frame is printed without waiting for the next one
+    if (this.renderMode === 'human') {
+      console.log(this.renderText());
+    }
+
+    return [this.getObs(), {}];
+  }
+
+  /**
+   * Takes one step in the environment.
+   *
+   * @param action - The action chosen, 0 means stick and 1 means hit
+   *
+   * @returns A tuple of observation, reward, terminated, truncated and info (empty)
+   */
+  async step(
+    action: number
+  ): Promise<[number[], number, boolean, boolean, Record<string, any>]> {
+    if (this.player.length === 0) {
+      throw new Error('State variables must be defined.');
+    }
+
+    if (!this.actionSpace.contains(action)) {
+      throw Error(`Action invalid`);
+    }
+
+    // Logic taken from:
+    // https://github.com/Farama-Foundation/Gymnasium/blob/main/gymnasium/envs/toy_text/blackjack.py
+
+    let terminated: boolean;
+    let reward: number;
+    if (action === 1) {
+      // Hit: add a card to the hand of the player and return
+      this.player.push(drawCard(this.rng));
+      terminated = isBust(this.player);
+      reward = terminated ? -1.0 : 0.0;
+    } else {
+      // Stick: play out the hand of the dealer, and score
+      terminated = true;
+      while (sumHand(this.dealer) < 17) {
+        this.dealer.push(drawCard(this.rng));
+      }
+      reward = Math.sign(score(this.player) - score(this.dealer));
+
+      if (this.sab && isNatural(this.player) && !isNatural(this.dealer)) {
+        // The player automatically wins, rules consistent with Sutton and Barto's book
+        reward = 1.0;
+      } else if (
+        !this.sab &&
+        this.natural &&
+        isNatural(this.player) &&
+        reward === 1.0
+      ) {
+        // A natural blackjack gives an extra reward only if the player wins
+        reward = 1.5;
+      }
+    }
+    this.lastAction = action;
+
+    if (this.renderMode === 'human') {
+      await this.render();
+    }
+
+    return [this.getObs(), reward, terminated, false, {}];
+  }
+
+  /**
+   * Renders the environment as a text, printed in human mode.
+   */
+  async render(): Promise<void | string> {
+    if (this.renderMode === 'ansi') {
+      return this.renderText();
+    } else if (this.renderMode === 'human') {
+      await printFrame(this.renderText(), BlackjackEnv.metadata.renderFps);
+    }
+  }
+
+  /**
+   * Closes the environment.
+   */
+  close(): void {
+    return;
+  }
+
+  private getObs(): number[] {
+    return [
+      sumHand(this.player),
+      this.dealer[0],
+      Number(usableAce(this.player)),
+    ];
+  }
+
+  private renderText(): string {
+    const cardName = (card: number) => (card === 1 ? 'A' : String(card));
+    const dealerCards =
+      this.lastAction === 0
+        ? this.dealer.map(cardName).join(' ')
+        : `${cardName(this.dealer[0])} ?`;
+
+    return (
+      `Dealer: ${dealerCards}\n` +
+      `Player: ${this.player.map(cardName).join(' ')} (${sumHand(this.player)})\n`
+    );
+  }
+}
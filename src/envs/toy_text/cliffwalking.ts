@@ -0,0 +1,186 @@
+import { Discrete } from '../../spaces/discrete';
+import { Env, EnvMetadata } from '../../core';
+import {
+  Transition,
+  TransitionTable,
+  categoricalSample,
+  printFrame,
+} from './utils';
+
+const UP = 0;
+const RIGHT = 1;
+const DOWN = 2;
+const LEFT = 3;
+
+/**
+ * CliffWalking, the gridworld described in Sutton and Barto's book where the agent walks from the bottom left
+ * corner to the bottom right corner of a 4x12 grid while avoiding the cliff between them.
+ * Each step is rewarded by -1 and stepping into the cliff is rewarded by -100 and sends the agent back to the start.
+ */
+export class CliffWalkingEnv extends Env<number, number> {
+  static readonly metadata: EnvMetadata = {
+    renderModes: ['human', 'ansi'],
+    renderFps: 4,
+  };
+
+  // A bunch of environment constants
+  static readonly shape: [number, number] = [4, 12];
+  static readonly startState = 3 * 12;
+  static readonly terminalState = 3 * 12 + 11;
+
+  /** The transition table, `P[state][action]` lists the possible outcomes as [probability, next state, reward, terminated] */
+  public readonly P: TransitionTable;
+
+  protected state: number | null;
+  private lastAction: number | null;
+
+  /**
+   * Creates an instance of CliffWalkingEnv.
+   *
+   * @param renderMode - Specify the render mode, null means no rendering, "ansi" returns a text and "human" prints it
+   */
+  constructor(renderMode: 'human' | 'ansi' | null = null) {
+    const [nrow, ncol] = CliffWalkingEnv.shape;
+    const nS = nrow * ncol;
+    const nA = 4;
+
+    super(new Discrete(nA), new Discrete(nS), renderMode);
+    this.state = null;
+    this.lastAction = null;
+
+    const deltas: Record<number, [number, number]> = {
+      [UP]: [-1, 0],
+      [RIGHT]: [0, 1],
+      [DOWN]: [1, 0],
+      [LEFT]: [0, -1],
+    };
+
+    this.P = Array.from({ length: nS }, (_, s) =>
+      Array.from({ length: nA }, (_, a) => [this.transition(s, deltas[a])])
+    );
+  }
+
+  /**
+   * Resets the environment.
+   *
+   * @param options - `seed` seeds the random number generator of the environment
+   * @returns a tuple of observation (the index of the cell of the agent) and info (the probability of the transition)
+   */
+  reset(options?: Record<string, any>): [number, Record<string, any>] {
+    this.seed(options?.seed);
+
+    this.state = CliffWalkingEnv.startState;
+    this.lastAction = null;
+
+    // Reset is synchronous, so the first frame is printed without waiting for the next one
+    if (this.renderMode === 'human') {
+      console.log(this.renderText());
+    }
+
+    return [this.state, { prob: 1 }];
+  }
+
+  /**
+   * Takes one step in the environment.
+   *
+   * @param action - The direction of the move, 0 means up, 1 right, 2 down and 3 left
+   *
+   * @returns A tuple of observation, reward, terminated, truncated and info (the probability of the transition)
+   */
+  async step(
+    action: number
+  ): Promise<[number, number, boolean, boolean, Record<string, any>]> {
+    if (this.state === null) {
+      throw new Error('State variables must be defined.');
+    }
+
+    if (!this.actionSpace.contains(action)) {
+      throw Error(`Action invalid`);
+    }
+
+    const transitions = this.P[this.state][action];
+    const i = categoricalSample(
+      transitions.map(([probability]) => probability),
+      this.rng
+    );
+    const [probability, state, reward, terminated] = transitions[i];
+    this.state = state;
+    this.lastAction = action;
+
+    if (this.renderMode === 'human') {
+      await this.render();
+    }
+
+    return [state, reward, terminated, false, { prob: probability }];
+  }
+
+  /**
+   * Renders the environment as a text, printed in human mode.
+   */
+  async render(): Promise<void | string> {
+    if (this.renderMode === 'ansi') {
+      return this.renderText();
+    } else if (this.renderMode === 'human') {
+      await printFrame(this.renderText(), CliffWalkingEnv.metadata.renderFps);
+    }
+  }
+
+  /**
+   * Closes the environment.
+   */
+  close(): void {
+    return;
+  }
+
+  private transition(state: number, delta: [number, number]): Transition {
+    const [nrow, ncol] = CliffWalkingEnv.shape;
+    const row = Math.min(
+      Math.max(Math.floor(state / ncol) + delta[0], 0),
+      nrow - 1
+    );
+    const col = Math.min(Math.max((state % ncol) + delta[1], 0), ncol - 1);
+    const newState = row * ncol + col;
+
+    if (isCliff(newState)) {
+      return [1.0, CliffWalkingEnv.startState, -100, false];
+    }
+
+    return [1.0, newState, -1, newState === CliffWalkingEnv.terminalState];
+  }
+
+  private renderText(): string {
+    const [nrow, ncol] = CliffWalkingEnv.shape;
+
+    let output = '';
+    for (let s = 0; s < nrow * ncol; s++) {
+      let cell: string;
+      if (s === this.state) {
+        cell = ' x ';
+      } else if (s === CliffWalkingEnv.terminalState) {
+        cell = ' T ';
+      } else if (isCliff(s)) {
+        cell = ' C ';
+      } else {
+        cell = ' o ';
+      }
+
+      if (s % ncol === 0) {
+        cell = cell.trimStart();
+      }
+      if (s % ncol === ncol - 1) {
+        cell = cell.trimEnd() + '\n';
+      }
+      output += cell;
+    }
+
+    return output;
+  }
+}
+
+// The cliff is the bottom row between the start and the goal
+function isCliff(state: number): boolean {
+  const [nrow, ncol] = CliffWalkingEnv.shape;
+  const row = Math.floor(state / ncol);
+  const col = state % ncol;
+  return row === nrow - 1 && col > 0 && col < ncol - 1;
+}
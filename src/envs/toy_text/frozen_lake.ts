@@ -0,0 +1,300 @@
+import { Discrete } from '../../spaces/discrete';
+import { Env, EnvMetadata } from '../../core';
+import { RandomGenerator } from '../../utils';
+import {
+  Transition,
+  TransitionTable,
+  categoricalSample,
+  colorize,
+  printFrame,
+} from './utils';
+
+const LEFT = 0;
+const DOWN = 1;
+const RIGHT = 2;
+const UP = 3;
+
+/** The predefined maps of the environment */
+export const MAPS: Record<string, string[]> = {
+  '4x4': ['SFFF', 'FHFH', 'FFFH', 'HFFG'],
+  '8x8': [
+    'SFFFFFFF',
+    'FFFFFFFF',
+    'FFFHFFFF',
+    'FFFFFHFF',
+    'FFFHFFFF',
+    'FHHFFFHF',
+    'FHFFHFHF',
+    'FFFHFFFG',
+  ],
+};
+
+/**
+ * Generates a random map whose goal can be reached from the start
+ *
+ * @param size - The number of rows and columns of the map
+ * @param p - The probability that a tile is frozen
+ * @param seed - The seed of the random number generator
+ * @returns The rows of the map
+ */
+export function generateRandomMap(
+  size: number = 8,
+  p: number = 0.8,
+  seed: number | null = null
+): string[] {
+  const rng = new RandomGenerator(seed);
+  p = Math.min(1, p);
+
+  let board: string[][];
+  do {
+    board = Array.from({ length: size }, () =>
+      Array.from({ length: size }, () => (rng.random() < p ? 'F' : 'H'))
+    );
+    board[0][0] = 'S';
+    board[size - 1][size - 1] = 'G';
+  } while (!isValidMap(board));
+
+  return board.map((row) => row.join(''));
+}
+
+// Depth-first search from the start to the goal
+function isValidMap(board: string[][]): boolean {
+  const size = board.length;
+  const discovered = new Set<number>();
+  const frontier: [number, number][] = [[0, 0]];
+
+  while (frontier.length > 0) {
+    const [row, col] = frontier.pop()!;
+    if (discovered.has(row * size + col)) {
+      continue;
+    }
+    discovered.add(row * size + col);
+
+    for (const [dRow, dCol] of [
+      [1, 0],
+      [0, 1],
+      [-1, 0],
+      [0, -1],
+    ]) {
+      const newRow = row + dRow;
+      const newCol = col + dCol;
+      if (newRow < 0 || newRow >= size || newCol < 0 || newCol >= size) {
+        continue;
+      }
+      if (board[newRow][newCol] === 'G') {
+        return true;
+      }
+      if (board[newRow][newCol] !== 'H') {
+        frontier.push([newRow, newCol]);
+      }
+    }
+  }
+
+  return false;
+}
+
+/**
+ * FrozenLake, an environment where the agent crosses a frozen lake from the start (S) to the goal (G)
+ * by walking over frozen tiles (F) without falling into any holes (H).
+ * The lake can be slippery, in which case the agent may move perpendicularly to the intended direction.
+ */
+export class FrozenLakeEnv extends Env<number, number> {
+  static readonly metadata: EnvMetadata = {
+    renderModes: ['human', 'ansi'],
+    renderFps: 4,
+  };
+
+  /** The rows of the map */
+  public readonly desc: string[];
+  /** The number of rows of the map */
+  public readonly nrow: number;
+  /** The number of columns of the map */
+  public readonly ncol: number;
+  /** The transition table, `P[state][action]` lists the possible outcomes as [probability, next state, reward, terminated] */
+  public readonly P: TransitionTable;
+
+  private readonly initialStateDistribution: number[];
+  protected state: number | null;
+  private lastAction: number | null;
+
+  /**
+   * Creates an instance of FrozenLakeEnv.
+   *
+   * @param desc - The rows of a custom map, made of S, F, H and G tiles
+   * @param mapName - The name of a predefined map, "4x4" or "8x8", used if `desc` is null
+   * @param isSlippery - If the agent moves in the intended direction with a probability of 1/3 only
+   * @param renderMode - Specify the render mode, null means no rendering, "ansi" returns a text and "human" prints it
+   */
+  constructor(
+    desc: string[] | null = null,
+    mapName: string | null = '4x4',
+    isSlippery: boolean = true,
+    renderMode: 'human' | 'ansi' | null = null
+  ) {
+    if (desc === null && mapName === null) {
+      desc = generateRandomMap();
+    } else if (desc === null) {
+      if (!(mapName! in MAPS)) {
+        throw new Error(`Unknown map name: ${mapName}!`);
+      }
+      desc = MAPS[mapName!];
+    }
+
+    const nrow = desc.length;
+    const ncol = desc[0].length;
+    const nS = nrow * ncol;
+    const nA = 4;
+
+    super(new Discrete(nA), new Discrete(nS), renderMode);
+    this.desc = desc;
+    this.nrow = nrow;
+    this.ncol = ncol;
+    this.state = null;
+    this.lastAction = null;
+
+    // The agent starts on any of the start tiles
+    const starts = desc.join('').split('');
+    const numStarts = starts.filter((letter) => letter === 'S').length;
+    if (numStarts === 0) {
+      throw new Error('The map must have a start tile!');
+    }
+    this.initialStateDistribution = starts.map((letter) =>
+      letter === 'S' ? 1 / numStarts : 0
+    );
+
+    const toState = (row: number, col: number) => row * ncol + col;
+
+    const move = (row: number, col: number, action: number) => {
+      if (action === LEFT) {
+        col = Math.max(col - 1, 0);
+      } else if (action === DOWN) {
+        row = Math.min(row + 1, nrow - 1);
+      } else if (action === RIGHT) {
+        col = Math.min(col + 1, ncol - 1);
+      } else if (action === UP) {
+        row = Math.max(row - 1, 0);
+      }
+      return [row, col];
+    };
+
+    const outcome = (
+      probability: number,
+      row: number,
+      col: number,
+      action: number
+    ): Transition => {
+      const [newRow, newCol] = move(row, col, action);
+      const newLetter = desc![newRow][newCol];
+      const terminated = newLetter === 'G' || newLetter === 'H';
+      const reward = newLetter === 'G' ? 1.0 : 0.0;
+      return [probability, toState(newRow, newCol), reward, terminated];
+    };
+
+    this.P = Array.from({ length: nS }, () => []);
+    for (let row = 0; row < nrow; row++) {
+      for (let col = 0; col < ncol; col++) {
+        const s = toState(row, col);
+        const letter = desc[row][col];
+
+        for (let a = 0; a < nA; a++) {
+          if (letter === 'G' || letter === 'H') {
+            this.P[s][a] = [[1.0, s, 0, true]];
+          } else if (isSlippery) {
+            this.P[s][a] = [(a + 3) % 4, a, (a + 1) % 4].map((b) =>
+              outcome(1.0 / 3.0, row, col, b)
+            );
+          } else {
+            this.P[s][a] = [outcome(1.0, row, col, a)];
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Resets the environment.
+   *
+   * @param options - `seed` seeds the random number generator of the environment
+   * @returns a tuple of observation (the index of the tile of the agent) and info (the probability of the transition)
+   */
+  reset(options?: Record<string, any>): [number, Record<string, any>] {
+    this.seed(options?.seed);
+
+    this.state = categoricalSample(this.initialStateDistribution, this.rng);
+    this.lastAction = null;
+
+    // Reset is synchronous, so the first frame is printed without waiting for the next one
+    if (this.renderMode === 'human') {
+      console.log(this.renderText());
+    }
+
+    return [this.state, { prob: 1 }];
+  }
+
+  /**
+   * Takes one step in the environment.
+   *
+   * @param action - The direction of the move, 0 means left, 1 down, 2 right and 3 up
+   *
+   * @returns A tuple of observation, reward, terminated, truncated and info (the probability of the transition)
+   */
+  async step(
+    action: number
+  ): Promise<[number, number, boolean, boolean, Record<string, any>]> {
+    if (this.state === null) {
+      throw new Error('State variables must be defined.');
+    }
+
+    if (!this.actionSpace.contains(action)) {
+      throw Error(`Action invalid`);
+    }
+
+    const transitions = this.P[this.state][action];
+    const i = categoricalSample(
+      transitions.map(([probability]) => probability),
+      this.rng
+    );
+    const [probability, state, reward, terminated] = transitions[i];
+    this.state = state;
+    this.lastAction = action;
+
+    if (this.renderMode === 'human') {
+      await this.render();
+    }
+
+    return [state, reward, terminated, false, { prob: probability }];
+  }
+
+  /**
+   * Renders the environment as a text, printed in human mode.
+   */
+  async render(): Promise<void | string> {
+    if (this.renderMode === 'ansi') {
+      return this.renderText();
+    } else if (this.renderMode === 'human') {
+      await printFrame(this.renderText(), FrozenLakeEnv.metadata.renderFps);
+    }
+  }
+
+  /**
+   * Closes the environment.
+   */
+  close(): void {
+    return;
+  }
+
+  private renderText(): string {
+    const rows = this.desc.map((row) => row.split(''));
+    if (this.state !== null) {
+      const row = Math.floor(this.state / this.ncol);
+      const col = this.state % this.ncol;
+      rows[row][col] = colorize(rows[row][col], 'red', false, true);
+    }
+
+    const header =
+      this.lastAction === null
+        ? ''
+        : `  (${['Left', 'Down', 'Right', 'Up'][this.lastAction]})`;
+    return `${header}\n${rows.map((row) => row.join('')).join('\n')}\n`;
+  }
+}
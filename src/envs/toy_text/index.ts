@@ -0,0 +1,14 @@
+import { FrozenLakeEnv, generateRandomMap, MAPS } from './frozen_lake';
+import { CliffWalkingEnv } from './cliffwalking';
+import { TaxiEnv } from './taxi';
+import { BlackjackEnv } from './blackjack';
+import type { Transition, TransitionTable } from './utils';
+export {
+  FrozenLakeEnv,
+  generateRandomMap,
+  MAPS,
+  CliffWalkingEnv,
+  TaxiEnv,
+  BlackjackEnv,
+};
+export type { Transition, TransitionTable };
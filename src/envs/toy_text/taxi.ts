@@ -0,0 +1,327 @@
+import { Discrete } from '../../spaces/discrete';
+import { Env, EnvMetadata } from '../../core';
+import {
+  TransitionTable,
+  categoricalSample,
+  colorize,
+  printFrame,
+} from './utils';
+
+const MAP = [
+  '+---------+',
+  '|R: | : :G|',
+  '| : | : : |',
+  '| : : : : |',
+  '| | : | : |',
+  '|Y| : |B: |',
+  '+---------+',
+];
+
+/** The locations of the colored tiles, red, green, yellow and blue */
+const LOCS: [number, number][] = [
+  [0, 0],
+  [0, 4],
+  [4, 0],
+  [4, 3],
+];
+
+/**
+ * Taxi, the taxi problem described by Dietterich in "Hierarchical Reinforcement Learning with the MAXQ Value Function Decomposition"
+ * The taxi navigates a 5x5 grid with walls to pick up a passenger at one of four colored locations
+ * and drop them off at their destination, another one of these locations.
+ * The observation encodes the taxi row and column, the passenger location (4 when in the taxi) and the destination.
+ */
+export class TaxiEnv extends Env<number, number> {
+  static readonly metadata: EnvMetadata = {
+    renderModes: ['human', 'ansi'],
+    renderFps: 4,
+  };
+
+  // A bunch of environment constants
+  static readonly numRows = 5;
+  static readonly numColumns = 5;
+
+  /** The transition table, `P[state][action]` lists the possible outcomes as [probability, next state, reward, terminated] */
+  public readonly P: TransitionTable;
+
+  private readonly initialStateDistribution: number[];
+  protected state: number | null;
+  private lastAction: number | null;
+
+  /**
+   * Creates an instance of TaxiEnv.
+   *
+   * @param renderMode - Specify the render mode, null means no rendering, "ansi" returns a text and "human" prints it
+   */
+  constructor(renderMode: 'human' | 'ansi' | null = null) {
+    const nS = 500;
+    const nA = 6;
+
+    super(new Discrete(nA), new Discrete(nS), renderMode);
+    this.state = null;
+    this.lastAction = null;
+
+    const maxRow = TaxiEnv.numRows - 1;
+    const maxCol = TaxiEnv.numColumns - 1;
+
+    this.initialStateDistribution = new Array(nS).fill(0);
+    this.P = Array.from({ length: nS }, () =>
+      Array.from({ length: nA }, () => [])
+    );
+
+    for (let row = 0; row < TaxiEnv.numRows; row++) {
+      for (let col = 0; col < TaxiEnv.numColumns; col++) {
+        for (let passIdx = 0; passIdx < LOCS.length + 1; passIdx++) {
+          for (let destIdx = 0; destIdx < LOCS.length; destIdx++) {
+            const state = TaxiEnv.encode(row, col, passIdx, destIdx);
+            if (passIdx < 4 && passIdx !== destIdx) {
+              this.initialStateDistribution[state] += 1;
+            }
+
+            for (let action = 0; action < nA; action++) {
+              let [newRow, newCol, newPassIdx] = [row, col, passIdx];
+              // Default reward when there is no pickup or dropoff
+              let reward = -1;
+              let terminated = false;
+              const taxiLocIdx = locationIndex(row, col);
+
+              if (action === 0) {
+                newRow = Math.min(row + 1, maxRow);
+              } else if (action === 1) {
+                newRow = Math.max(row - 1, 0);
+              } else if (action === 2 && MAP[1 + row][2 * col + 2] === ':') {
+                newCol = Math.min(col + 1, maxCol);
+              } else if (action === 3 && MAP[1 + row][2 * col] === ':') {
+                newCol = Math.max(col - 1, 0);
+              } else if (action === 4) {
+                // Pickup
+                if (passIdx < 4 && taxiLocIdx === passIdx) {
+                  newPassIdx = 4;
+                } else {
+                  reward = -10;
+                }
+              } else if (action === 5) {
+                // Dropoff
+                if (taxiLocIdx === destIdx && passIdx === 4) {
+                  newPassIdx = destIdx;
+                  terminated = true;
+                  reward = 20;
+                } else if (taxiLocIdx !== -1 && passIdx === 4) {
+                  newPassIdx = taxiLocIdx;
+                } else {
+                  reward = -10;
+                }
+              }
+
+              const newState = TaxiEnv.encode(
+                newRow,
+                newCol,
+                newPassIdx,
+                destIdx
+              );
+              this.P[state][action].push([1.0, newState, reward, terminated]);
+            }
+          }
+        }
+      }
+    }
+
+    const total = this.initialStateDistribution.reduce((a, b) => a + b, 0);
+    this.initialStateDistribution = this.initialStateDistribution.map(
+      (count) => count / total
+    );
+  }
+
+  /**
+   * Encodes the taxi row and column, the passenger location and the destination into a state
+   *
+   * @returns The state, between 0 and 499
+   */
+  static encode(
+    taxiRow: number,
+    taxiCol: number,
+    passLoc: number,
+    destIdx: number
+  ): number {
+    return ((taxiRow * 5 + taxiCol) * 5 + passLoc) * 4 + destIdx;
+  }
+
+  /**
+   * Decodes a state into the taxi row and column, the passenger location and the destination
+   *
+   * @returns A tuple of taxi row, taxi column, passenger location and destination
+   */
+  static decode(state: number): [number, number, number, number] {
+    const destIdx = state % 4;
+    state = Math.floor(state / 4);
+    const passLoc = state % 5;
+    state = Math.floor(state / 5);
+    const taxiCol = state % 5;
+    const taxiRow = Math.floor(state / 5);
+    return [taxiRow, taxiCol, passLoc, destIdx];
+  }
+
+  /**
+   * Computes the mask of the actions that change the state
+   *
+   * @param state - The state of the environment
+   * @returns An array with 1 for the actions that change the state and 0 for the others
+   */
+  static actionMask(state: number): Int8Array {
+    const mask = new Int8Array(6);
+    const [taxiRow, taxiCol, passLoc, destIdx] = TaxiEnv.decode(state);
+    const taxiLocIdx = locationIndex(taxiRow, taxiCol);
+
+    if (taxiRow < TaxiEnv.numRows - 1) {
+      mask[0] = 1;
+    }
+    if (taxiRow > 0) {
+      mask[1] = 1;
+    }
+    if (
+      taxiCol < TaxiEnv.numColumns - 1 &&
+      MAP[taxiRow + 1][2 * taxiCol + 2] === ':'
+    ) {
+      mask[2] = 1;
+    }
+    if (taxiCol > 0 && MAP[taxiRow + 1][2 * taxiCol] === ':') {
+      mask[3] = 1;
+    }
+    if (passLoc < 4 && taxiLocIdx === passLoc) {
+      mask[4] = 1;
+    }
+    if (passLoc === 4 && (taxiLocIdx === destIdx || taxiLocIdx !== -1)) {
+      mask[5] = 1;
+    }
+
+    return mask;
+  }
+
+  /**
+   * Resets the environment.
+   *
+   * @param options - `seed` seeds the random number generator of the environment
+   * @returns a tuple of observation (the encoded state) and info (the probability of the transition and the action mask)
+   */
+  reset(options?: Record<string, any>): [number, Record<string, any>] {
+    this.seed(options?.seed);
+
+    this.state = categoricalSample(this.initialStateDistribution, this.rng);
+    this.lastAction = null;
+
+    // Reset is synchronous, so the first frame is printed without waiting for the next one
+    if (this.renderMode === 'human') {
+      console.log(this.renderText());
+    }
+
+    return [
+      this.state,
+      { prob: 1.0, actionMask: TaxiEnv.actionMask(this.state) },
+    ];
+  }
+
+  /**
+   * Takes one step in the environment.
+   *
+   * @param action - The action chosen, 0 means south, 1 north, 2 east, 3 west, 4 pickup and 5 dropoff
+   *
+   * @returns A tuple of observation, reward, terminated, truncated and info (the probability of the transition and the action mask)
+   */
+  async step(
+    action: number
+  ): Promise<[number, number, boolean, boolean, Record<string, any>]> {
+    if (this.state === null) {
+      throw new Error('State variables must be defined.');
+    }
+
+    if (!this.actionSpace.contains(action)) {
+      throw Error(`Action invalid`);
+    }
+
+    const transitions = this.P[this.state][action];
+    const i = categoricalSample(
+      transitions.map(([probability]) => probability),
+      this.rng
+    );
+    const [probability, state, reward, terminated] = transitions[i];
+    this.state = state;
+    this.lastAction = action;
+
+    if (this.renderMode === 'human') {
+      await this.render();
+    }
+
+    return [
+      state,
+      reward,
+      terminated,
+      false,
+      { prob: probability, actionMask: TaxiEnv.actionMask(state) },
+    ];
+  }
+
+  /**
+   * Renders the environment as a text, printed in human mode.
+   */
+  async render(): Promise<void | string> {
+    if (this.renderMode === 'ansi') {
+      return this.renderText();
+    } else if (this.renderMode === 'human') {
+      await printFrame(this.renderText(), TaxiEnv.metadata.renderFps);
+    }
+  }
+
+  /**
+   * Closes the environment.
+   */
+  close(): void {
+    return;
+  }
+
+  private renderText(): string {
+    const out = MAP.map((line) => line.split(''));
+
+    if (this.state !== null) {
+      const [taxiRow, taxiCol, passIdx, destIdx] = TaxiEnv.decode(this.state);
+      const taxiCell = out[1 + taxiRow];
+
+      if (passIdx < 4) {
+        taxiCell[2 * taxiCol + 1] = colorize(
+          taxiCell[2 * taxiCol + 1],
+          'yellow',
+          false,
+          true
+        );
+        const [pi, pj] = LOCS[passIdx];
+        out[1 + pi][2 * pj + 1] = colorize(
+          out[1 + pi][2 * pj + 1],
+          'blue',
+          true
+        );
+      } else {
+        // The passenger is in the taxi
+        const cell = taxiCell[2 * taxiCol + 1];
+        taxiCell[2 * taxiCol + 1] = colorize(
+          cell === ' ' ? '_' : cell,
+          'green',
+          false,
+          true
+        );
+      }
+
+      const [di, dj] = LOCS[destIdx];
+      out[1 + di][2 * dj + 1] = colorize(out[1 + di][2 * dj + 1], 'magenta');
+    }
+
+    const footer =
+      this.lastAction === null
+        ? ''
+        : `  (${['South', 'North', 'East', 'West', 'Pickup', 'Dropoff'][this.lastAction]})`;
+    return `${out.map((line) => line.join('')).join('\n')}\n${footer}\n`;
+  }
+}
+
+// The index of the colored location of the cell, -1 if there is none
+function locationIndex(row: number, col: number): number {
+  return LOCS.findIndex(([r, c]) => r === row && c === col);
+}
@@ -0,0 +1,86 @@
+import { RandomGenerator } from '../../utils';
+
+/**
+ * A possible outcome of taking an action in a state: probability, next state, reward and termination
+ */
+export type Transition = [number, number, number, boolean];
+
+/**
+ * The transitions of an environment, `P[state][action]` lists the possible outcomes of taking the action in the state
+ */
+export type TransitionTable = Transition[][][];
+
+/**
+ * Samples an index from a categorical distribution
+ *
+ * @param probabilities - The probabilities of the indices, they must sum to 1
+ * @param rng - The random number generator
+ * @returns The sampled index
+ */
+export function categoricalSample(
+  probabilities: ArrayLike<number>,
+  rng: RandomGenerator
+): number {
+  const threshold = rng.random();
+
+  let cumulative = 0;
+  for (let i = 0; i < probabilities.length; i++) {
+    cumulative += probabilities[i];
+    if (cumulative > threshold) {
+      return i;
+    }
+  }
+
+  // Rounding errors can make the cumulative sum slightly smaller than 1
+  return probabilities.length - 1;
+}
+
+const colorCodes = {
+  gray: 30,
+  red: 31,
+  green: 32,
+  yellow: 33,
+  blue: 34,
+  magenta: 35,
+  cyan: 36,
+  white: 37,
+  crimson: 38,
+};
+
+/**
+ * Colorizes a string with ANSI escape codes for the terminal
+ *
+ * @param text - The text to colorize
+ * @param color - The color of the text, or of the background if highlighted
+ * @param bold - If the text is bold
+ * @param highlight - If the background is colored instead of the text
+ * @returns The colorized text
+ */
+export function colorize(
+  text: string,
+  color: keyof typeof colorCodes,
+  bold: boolean = false,
+  highlight: boolean = false
+): string {
+  const attributes = [String(colorCodes[color] + (highlight ? 10 : 0))];
+  if (bold) {
+    attributes.push('1');
+  }
+  return `\x1b[${attributes.join(';')}m${text}\x1b[0m`;
+}
+
+/**
+ * Prints the text representation of an environment in human mode and waits for the next frame
+ *
+ * @param text - The text to print
+ * @param fps - The number of frames per second, nothing is waited if it is null
+ */
+export async function printFrame(
+  text: string,
+  fps: number | null
+): Promise<void> {
+  console.log(text);
+  if (fps !== null) {
+    await new Promise((resolve) => setTimeout(resolve, 1000 / fps));
+  }
+}
@@ -1,17 +1,23 @@
 // Core
 import {
+  BaseEnv,
   Env,
   Wrapper,
   ObservationWrapper,
   ActionWrapper,
   RewardWrapper,
 } from './core';
+import type { RenderFrame, EnvMetadata } from './core';
 
 import * as spaces from './spaces';
 import * as wrappers from './wrappers';
 import * as envs from './envs';
+import * as vector from './vector';
+import { make, register, registerWrapper, spec, registry } from './envs';
+import { checkEnv, checkMemoryLeaks } from './env_checker';
 
 export {
+  BaseEnv,
   Env,
   Wrapper,
   ObservationWrapper,
@@ -20,4 +26,13 @@ export {
   spaces,
   wrappers,
   envs,
+  vector,
+  make,
+  register,
+  registerWrapper,
+  spec,
+  registry,
+  checkEnv,
+  checkMemoryLeaks,
 };
+export type { RenderFrame, EnvMetadata };
@@ -0,0 +1,88 @@
+import * as tf from '@tensorflow/tfjs';
+
+/**
+ * The typed arrays used as values of the `Box`, `MultiDiscrete` and `MultiBinary` spaces with the array backend
+ */
+export type TypedArray = Float32Array | Int32Array;
+
+/**
+ * How the values of a space are represented, as tensors or as flat typed arrays.
+ * Typed arrays avoid the overhead of creating a tensor at each step for small environments.
+ */
+export type SpaceBackend = 'tensor' | 'array';
+
+/**
+ * The type of the values of a space with a backend
+ */
+export type BackendValue<B extends SpaceBackend> = B extends 'array'
+  ? TypedArray
+  : tf.Tensor;
+
+/**
+ * Checks if a value is a typed array of the array backend
+ *
+ * @param x - The value to check
+ * @returns If the value is a `Float32Array` or an `Int32Array`
+ */
+export function isTypedArray(x: any): x is TypedArray {
+  return x instanceof Float32Array || x instanceof Int32Array;
+}
+
+/**
+ * Checks that a data type can be represented by a typed array of the array backend
+ *
+ * @param dtype - The data type of the space
+ */
+export function checkArrayDtype(dtype: tf.DataType): void {
+  if (dtype !== 'float32' && dtype !== 'int32') {
+    throw new Error(
+      `The array backend only supports the float32 and int32 data types, got ${dtype}`
+    );
+  }
+}
+
+/**
+ * Checks if a typed array has the data type of a space, `Float32Array` for float32 and `Int32Array` for int32
+ *
+ * @param x - The typed array
+ * @param dtype - The data type of the space
+ * @returns If the typed array matches the data type
+ */
+export function hasArrayDtype(x: TypedArray, dtype: tf.DataType): boolean {
+  return dtype === 'int32'
+    ? x instanceof Int32Array
+    : x instanceof Float32Array;
+}
+
+/**
+ * Creates a value of a space from its values, row by row
+ *
+ * @param values - The values, they are copied
+ * @param shape - The shape of the value, ignored by the array backend whose values are flat
+ * @param dtype - The data type, float32 or int32 with the array backend
+ * @param backend - The backend of the space
+ * @returns A tensor, or a typed array with the array backend
+ */
+export function createValue<B extends SpaceBackend>(
+  values: ArrayLike<number>,
+  shape: number[],
+  dtype: tf.DataType,
+  backend: B
+): BackendValue<B> {
+  if (backend === 'array') {
+    return (
+      dtype === 'int32' ? Int32Array.from(values) : Float32Array.from(values)
+    ) as BackendValue<B>;
+  }
+  return tf.tensor(Array.from(values), shape, dtype) as BackendValue<B>;
+}
+
+/**
+ * Gets the values of a tensor or a typed array, row by row
+ *
+ * @param x - The tensor or typed array
+ * @returns The values, the typed array itself or the data of the tensor
+ */
+export function valueData(x: tf.Tensor | TypedArray): tf.TypedArray {
+  return x instanceof tf.Tensor ? x.dataSync() : x;
+}
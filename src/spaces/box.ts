@@ -1,23 +1,42 @@
 import * as tf from '@tensorflow/tfjs';
 import { Space } from './space';
 import { checkTensors } from '../utils';
+import {
+  BackendValue,
+  SpaceBackend,
+  checkArrayDtype,
+  createValue,
+  hasArrayDtype,
+  isTypedArray,
+} from './backend';
 
 /**
- * Box is the representation of the Cartesian product of n closed intervals
+ * Box is the representation of the Cartesian product of n closed intervals.
+ * Its values are tensors, or flat typed arrays with the array backend.
  */
-export class Box extends Space<tf.Tensor> {
+export class Box<B extends SpaceBackend = 'tensor'> extends Space<
+  BackendValue<B>
+> {
   /** The lower bound for the value */
   public low: tf.Tensor | number;
   /** The upper bound for the value */
   public high: tf.Tensor | number;
+  /** How the values are represented, as tensors or as typed arrays */
+  public readonly backend: B;
 
   constructor(
     low: tf.Tensor | number,
     high: tf.Tensor | number,
     shape: number[],
-    dtype: tf.DataType
+    dtype: tf.DataType,
+    seed: number | null = null,
+    backend: B = 'tensor' as B
   ) {
-    super(shape, dtype);
+    super(shape, dtype, seed);
+
+    if (backend === 'array') {
+      checkArrayDtype(dtype);
+    }
 
     if (typeof low !== typeof high) {
       throw new Error('Low and high should be of the same type!');
@@ -39,73 +58,49 @@ export class Box extends Space<tf.Tensor> {
 
     this.low = low;
     this.high = high;
+    this.backend = backend;
   }
 
   /**
    * Gets a sample of the box space.
    *
-   * @returns a random tensor in the space range
+   * @returns a random tensor in the space range, or a typed array with the array backend
    *
    * @override
    */
-  sample(): tf.Tensor {
-    if (typeof this.low === 'number' && typeof this.high === 'number') {
-      return tf.randomUniform(this.shape, this.low, this.high, this.dtype);
-    } else if (
-      this.low instanceof tf.Tensor &&
-      this.high instanceof tf.Tensor
-    ) {
-      return tf.tidy(() => {
-        let low = this.low as tf.Tensor;
-        let high = this.high as tf.Tensor;
-        if (high.dtype === 'int32') {
-          high = high.add(tf.scalar(1));
-        }
-
-        low = low.asType('float32');
-        high = high.asType('float32');
-
-        let sample = tf.zeros(this.shape, 'float32');
-
-        let boundedBelow = tf.neg(low).less(tf.scalar(Infinity));
-        let boundedAbove = high.less(tf.scalar(Infinity));
-
-        let unbounded = boundedBelow
-          .logicalNot()
-          .logicalAnd(boundedAbove.logicalNot());
-        let boundedBelowOnly = boundedBelow.logicalAnd(
-          boundedAbove.logicalNot()
-        );
-        let boundedAboveOnly = boundedAbove.logicalAnd(
-          boundedBelow.logicalNot()
-        );
-        let bounded = boundedBelow.logicalAnd(boundedAbove);
-
-        sample = tf.where(
-          unbounded,
-          tf.randomNormal(this.shape, 0, 1, 'float32'),
-          sample
-        );
-
-        let boundedTensor = tf.randomUniform(this.shape, 0, 1, 'float32');
-        boundedTensor.print();
-        boundedTensor = boundedTensor.mul(high.sub(low));
-        boundedTensor = boundedTensor.add(low);
-        sample = tf.where(bounded, boundedTensor, sample);
-
-        let unboundedBelowTensor = randomExponential(this.shape);
-        unboundedBelowTensor = unboundedBelowTensor.add(low);
-        sample = tf.where(boundedBelowOnly, unboundedBelowTensor, sample);
-
-        let unboundedAboveTensor = randomExponential(this.shape);
-        unboundedAboveTensor = tf.neg(unboundedAboveTensor).add(high);
-        sample = tf.where(boundedAboveOnly, unboundedAboveTensor, sample);
-
-        return sample.asType(this.dtype);
-      });
-    } else {
+  sample(): BackendValue<B> {
+    if (typeof this.low !== typeof this.high) {
       throw new Error('Low and high should be of the same type!');
     }
+
+    const size = tf.util.sizeFromShape(this.shape);
+    const low = boundValues(this.low, size);
+    const high = boundValues(this.high, size);
+    const isInteger = this.dtype === 'int32';
+
+    const values = low.map((lowValue, i) => {
+      let highValue = high[i];
+      const boundedBelow = lowValue > -Infinity;
+      const boundedAbove = highValue < Infinity;
+
+      let value: number;
+      if (boundedBelow && boundedAbove) {
+        if (isInteger) {
+          highValue += 1;
+        }
+        value = this.rng.uniform(lowValue, highValue);
+      } else if (boundedBelow) {
+        value = lowValue + this.rng.exponential();
+      } else if (boundedAbove) {
+        value = highValue - this.rng.exponential();
+      } else {
+        value = this.rng.normal();
+      }
+
+      return isInteger ? Math.min(Math.floor(value), high[i]) : value;
+    });
+
+    return createValue(values, this.shape, this.dtype, this.backend);
   }
 
   /**
@@ -116,6 +111,10 @@ export class Box extends Space<tf.Tensor> {
    * @override
    */
   contains(x: any): boolean {
+    if (this.backend === 'array') {
+      return this.containsArray(x);
+    }
+
     // Same type
     if (!(x instanceof tf.Tensor)) {
       return false;
@@ -131,14 +130,13 @@ export class Box extends Space<tf.Tensor> {
       return false;
     }
 
-    const inBound = x
-      .lessEqual(this.high)
-      .logicalAnd(tf.logicalNot(x.less(this.low)));
+    return tf.tidy(() => {
+      const inBound = x
+        .lessEqual(this.high)
+        .logicalAnd(tf.logicalNot(x.less(this.low)));
 
-    if (inBound.any().dataSync()[0]) {
-      return true;
-    }
-    return false;
+      return inBound.all().dataSync()[0] === 1;
+    });
   }
 
   /**
@@ -151,7 +149,9 @@ export class Box extends Space<tf.Tensor> {
       return false;
     }
 
-    if (this.dtype !== other.dtype) {
+    if (this.backend !== other.backend) {
+      return false;
+    } else if (this.dtype !== other.dtype) {
       return false;
     } else if (JSON.stringify(this.shape) !== JSON.stringify(other.shape)) {
       return false;
@@ -176,10 +176,30 @@ export class Box extends Space<tf.Tensor> {
       return false;
     }
   }
+
+  // Checks a typed array of the array backend, its values are flat
+  private containsArray(x: any): boolean {
+    const size = tf.util.sizeFromShape(this.shape);
+    if (!isTypedArray(x) || !hasArrayDtype(x, this.dtype)) {
+      return false;
+    } else if (x.length !== size) {
+      return false;
+    }
+
+    const low = boundValues(this.low, size);
+    const high = boundValues(this.high, size);
+    for (let i = 0; i < size; i++) {
+      if (!(x[i] >= low[i] && x[i] <= high[i])) {
+        return false;
+      }
+    }
+    return true;
+  }
 }
 
-function randomExponential(shape: number[]) {
-  let randomTensor = tf.randomUniform(shape, 0, 1, 'float32');
-  randomTensor = tf.neg(tf.log(randomTensor));
-  return randomTensor;
+function boundValues(bound: tf.Tensor | number, size: number): number[] {
+  if (typeof bound === 'number') {
+    return new Array(size).fill(bound);
+  }
+  return Array.from(bound.dataSync());
 }
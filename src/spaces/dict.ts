@@ -7,9 +7,31 @@ import { Space } from './space';
 export class Dict extends Space<Record<string, any>> {
   public spaces: Record<string, Space<any>>;
 
-  constructor(spaces: Record<string, Space<any>>) {
-    super([], 'string');
+  constructor(spaces: Record<string, Space<any>>, seed: number | null = null) {
+    super([], 'string', seed);
     this.spaces = spaces;
+
+    if (seed !== null) {
+      this.seed(seed);
+    }
+  }
+
+  /**
+   * Seeds the random number generator of the dict and its subspaces.
+   *
+   * @param seed - The seed, the seeds of the subspaces are drawn from the generator seeded with it
+   * @returns The seeds used, the seed of the dict followed by the seeds of the subspaces
+   *
+   * @override
+   */
+  seed(seed: number | null = null): number[] {
+    const seeds = super.seed(seed);
+
+    Object.keys(this.spaces).forEach((key) => {
+      seeds.push(...this.spaces[key].seed(this.rng.nextSeed()));
+    });
+
+    return seeds;
   }
 
   /**
@@ -1,5 +1,11 @@
-import * as tf from '@tensorflow/tfjs';
 import { Space } from './space';
+import {
+  SampleVector,
+  checkSampleOptions,
+  sampleMask,
+  sampleProbability,
+  vectorValues,
+} from './sampling';
 
 /**
  * A space consisting of finitely many elements.
@@ -10,35 +16,41 @@ export class Discrete extends Space<number> {
   /** The smallest element of the space */
   public start: number;
 
-  constructor(n: number, start: number = 0) {
+  constructor(n: number, start: number = 0, seed: number | null = null) {
     if (n <= 0) {
       throw new Error('The nummber of discrete elements must be positive!');
     }
-    super([], 'int32');
+    super([], 'int32', seed);
     this.n = n;
     this.start = start;
   }
   /**
    * Gets a sample of the discrete space.
    *
-   * @returns a random integer in the space range
+   * @param options - `mask` restricts the sample to the elements whose mask value is 1,
+   * `probability` is the probability of each element, at most one of them can be given
+   * @returns a random integer in the space range, `start` if the mask excludes every element
    *
    * @override
    */
-  sample(): number {
-    // Might be a bit too elaborate to use TF but in case we use seeds this is the way
-    let randomNumber = tf.tidy(() => {
-      let randomNumTensor = tf.randomUniformInt(
-        [1],
-        this.start,
-        this.start + this.n
-      );
-      let [randomNumber] = randomNumTensor.dataSync();
+  sample(
+    options: { mask?: SampleVector; probability?: SampleVector } = {}
+  ): number {
+    checkSampleOptions(options);
 
-      return randomNumber;
-    });
+    if (options.mask !== undefined) {
+      const mask = vectorValues(options.mask, this.n, 'mask');
+      return this.start + (sampleMask(mask, this.rng) ?? 0);
+    } else if (options.probability !== undefined) {
+      const probability = vectorValues(
+        options.probability,
+        this.n,
+        'probability vector'
+      );
+      return this.start + sampleProbability(probability, this.rng);
+    }
 
-    return randomNumber;
+    return this.rng.integers(this.start, this.start + this.n);
   }
 
   /**
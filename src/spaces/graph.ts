@@ -0,0 +1,194 @@
+import * as tf from '@tensorflow/tfjs';
+
+import { Space } from './space';
+import { Box } from './box';
+import { Discrete } from './discrete';
+import { Sequence } from './sequence';
+
+/**
+ * A value of a `Graph` space
+ */
+export interface GraphInstance {
+  /** The features of the nodes, of shape [numNodes, ...nodeShape] */
+  nodes: tf.Tensor;
+  /** The features of the edges, of shape [numEdges, ...edgeShape], null without an edge space */
+  edges: tf.Tensor | null;
+  /** The indices of the nodes linked by each edge, an int32 tensor of shape [numEdges, 2], null without an edge space */
+  edgeLinks: tf.Tensor | null;
+}
+
+/**
+ * A space of graphs with any number of nodes and edges, whose features are in a node space and an edge space
+ */
+export class Graph extends Space<GraphInstance> {
+  /** The space of the features of the nodes */
+  public nodeSpace: Box | Discrete;
+  /** The space of the features of the edges, null if the graphs have no edges */
+  public edgeSpace: Box | Discrete | null;
+  /** The stacked features of the nodes */
+  private nodeSequence: Sequence;
+  /** The stacked features of the edges, null if the graphs have no edges */
+  private edgeSequence: Sequence | null;
+
+  /**
+   * Creates an instance of Graph.
+   *
+   * @param nodeSpace - The space of the features of the nodes, a `Box` with the tensor backend or a `Discrete`
+   * @param edgeSpace - The space of the features of the edges, a `Box` with the tensor backend or a `Discrete`, null for graphs without edges
+   * @param seed - The seed of the random number generator
+   */
+  constructor(
+    nodeSpace: Box | Discrete,
+    edgeSpace: Box | Discrete | null = null,
+    seed: number | null = null
+  ) {
+    checkFeatureSpace(nodeSpace, 'node');
+    if (edgeSpace !== null) {
+      checkFeatureSpace(edgeSpace, 'edge');
+    }
+
+    super([], 'string', seed);
+    this.nodeSpace = nodeSpace;
+    this.edgeSpace = edgeSpace;
+    this.nodeSequence = new Sequence(nodeSpace, true);
+    this.edgeSequence =
+      edgeSpace === null ? null : new Sequence(edgeSpace, true);
+
+    if (seed !== null) {
+      this.seed(seed);
+    }
+  }
+
+  /**
+   * Seeds the random number generator of the graph and its node and edge spaces.
+   *
+   * @param seed - The seed, the seeds of the node and edge spaces are drawn from the generator seeded with it
+   * @returns The seeds used, the seed of the graph followed by the seeds of the node and edge spaces
+   *
+   * @override
+   */
+  seed(seed: number | null = null): number[] {
+    const seeds = super.seed(seed);
+    seeds.push(...this.nodeSpace.seed(this.rng.nextSeed()));
+    if (this.edgeSpace !== null) {
+      seeds.push(...this.edgeSpace.seed(this.rng.nextSeed()));
+    }
+    return seeds;
+  }
+
+  /**
+   * Gets a sample of the graph space.
+   *
+   * @param options - `numNodes` is the number of nodes, 10 by default,
+   * `numEdges` is the number of edges, random up to `numNodes * (numNodes - 1)` by default
+   * @returns a graph whose edges link random nodes, edges are null without an edge space
+   *
+   * @override
+   */
+  sample(
+    options: { numNodes?: number; numEdges?: number } = {}
+  ): GraphInstance {
+    const numNodes = options.numNodes ?? 10;
+    if (!Number.isInteger(numNodes) || numNodes <= 0) {
+      throw new Error(
+        `The number of nodes must be a positive integer, got ${numNodes}`
+      );
+    }
+
+    const nodes = this.nodeSequence.sample({ length: numNodes }) as tf.Tensor;
+    if (this.edgeSequence === null) {
+      return { nodes, edges: null, edgeLinks: null };
+    }
+
+    const numEdges =
+      options.numEdges ??
+      (numNodes > 1 ? this.rng.integers(0, numNodes * (numNodes - 1)) : 0);
+    if (!Number.isInteger(numEdges) || numEdges < 0) {
+      throw new Error(
+        `The number of edges must be a non-negative integer, got ${numEdges}`
+      );
+    }
+
+    const edges = this.edgeSequence.sample({ length: numEdges }) as tf.Tensor;
+    const links = Array.from({ length: numEdges * 2 }, () =>
+      this.rng.integers(0, numNodes)
+    );
+    const edgeLinks = tf.tensor2d(links, [numEdges, 2], 'int32');
+    return { nodes, edges, edgeLinks };
+  }
+
+  /**
+   * Determines whether a graph is in the space or not
+   *
+   * @returns A boolean that specifies if the nodes and edges are in their spaces and the edges link existing nodes
+   *
+   * @override
+   */
+  contains(x: any): boolean {
+    // Same type
+    if (
+      typeof x !== 'object' ||
+      x === null ||
+      !this.nodeSequence.contains(x.nodes)
+    ) {
+      return false;
+    }
+
+    if (this.edgeSequence === null) {
+      return x.edges === null && x.edgeLinks === null;
+    }
+
+    const { edges, edgeLinks } = x;
+    if (!this.edgeSequence.contains(edges)) {
+      return false;
+    }
+
+    // One link between existing nodes per edge
+    if (
+      !(edgeLinks instanceof tf.Tensor) ||
+      edgeLinks.dtype !== 'int32' ||
+      edgeLinks.rank !== 2 ||
+      edgeLinks.shape[0] !== edges.shape[0] ||
+      edgeLinks.shape[1] !== 2
+    ) {
+      return false;
+    }
+    const numNodes = x.nodes.shape[0];
+    return Array.from(edgeLinks.dataSync()).every(
+      (node) => node >= 0 && node < numNodes
+    );
+  }
+
+  /**
+   * Determines if the two graph spaces are the same
+   *
+   * @returns A boolean that specifies if the node and edge spaces are the same
+   */
+  equals(other: Space<any>): boolean {
+    if (!(other instanceof Graph)) {
+      return false;
+    }
+
+    if (this.edgeSpace === null || other.edgeSpace === null) {
+      return (
+        this.edgeSpace === other.edgeSpace &&
+        this.nodeSpace.equals(other.nodeSpace)
+      );
+    }
+    return (
+      this.nodeSpace.equals(other.nodeSpace) &&
+      this.edgeSpace.equals(other.edgeSpace)
+    );
+  }
+}
+
+function checkFeatureSpace(space: Space<any>, name: string): void {
+  if (
+    !(space instanceof Discrete) &&
+    !(space instanceof Box && space.backend === 'tensor')
+  ) {
+    throw new Error(
+      `The ${name} space must be a Box with the tensor backend or a Discrete, got ${space.constructor.name}`
+    );
+  }
+}
@@ -5,5 +5,50 @@ import { MultiDiscrete } from './multidiscrete';
 import { MultiBinary } from './multibinary';
 import { Dict } from './dict';
 import { Tuple } from './tuple';
+import { Text, alphanumeric } from './text';
+import { Sequence } from './sequence';
+import { Graph } from './graph';
+import type { GraphInstance } from './graph';
+import { OneOf } from './oneof';
+import type { SampleVector } from './sampling';
+import {
+  flatdim,
+  flatten,
+  unflatten,
+  flattenSpace,
+  convertSpace,
+  convertValue,
+} from './utils';
+import { isTypedArray, createValue, valueData } from './backend';
+import type { TypedArray, SpaceBackend, BackendValue } from './backend';
 
-export { Space, Discrete, Box, MultiDiscrete, MultiBinary, Dict, Tuple };
+export {
+  Space,
+  Discrete,
+  Box,
+  MultiDiscrete,
+  MultiBinary,
+  Dict,
+  Tuple,
+  Text,
+  alphanumeric,
+  Sequence,
+  Graph,
+  OneOf,
+  flatdim,
+  flatten,
+  unflatten,
+  flattenSpace,
+  convertSpace,
+  convertValue,
+  isTypedArray,
+  createValue,
+  valueData,
+};
+export type {
+  TypedArray,
+  SpaceBackend,
+  BackendValue,
+  GraphInstance,
+  SampleVector,
+};
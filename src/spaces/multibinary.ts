@@ -1,12 +1,29 @@
 import * as tf from '@tensorflow/tfjs';
 import { Space } from './space';
+import {
+  BackendValue,
+  SpaceBackend,
+  createValue,
+  hasArrayDtype,
+  isTypedArray,
+} from './backend';
+import { SampleVector, checkSampleOptions, vectorValues } from './sampling';
 
 /**
- * MultiBinary is the representation of n-shape binary space
+ * MultiBinary is the representation of n-shape binary space.
+ * Its values are tensors, or flat `Int32Array`s with the array backend.
  */
-export class MultiBinary extends Space<tf.Tensor> {
+export class MultiBinary<B extends SpaceBackend = 'tensor'> extends Space<
+  BackendValue<B>
+> {
   n: number[] | number;
-  constructor(n: number[] | number) {
+  /** How the values are represented, as tensors or as typed arrays */
+  public readonly backend: B;
+  constructor(
+    n: number[] | number,
+    seed: number | null = null,
+    backend: B = 'tensor' as B
+  ) {
     let inputN: number[];
     if (typeof n === 'number') {
       inputN = [n];
@@ -18,19 +35,53 @@ export class MultiBinary extends Space<tf.Tensor> {
       throw Error('n (counts) have to be positive');
     }
 
-    super(inputN, 'int32');
+    super(inputN, 'int32', seed);
     this.n = n;
+    this.backend = backend;
   }
 
   /**
    * Gets a sample of the discrete space.
    *
-   * @returns a random integer in the space range
+   * @param options - `mask` has a value for each element in row-major order, 0 or 1 fix the element
+   * and 2 samples it randomly. `probability` is the probability of each element being 1.
+   * At most one of them can be given.
+   * @returns a random tensor of zeros and ones, or a typed array with the array backend
    *
    * @override
    */
-  sample(): tf.Tensor {
-    return tf.randomUniformInt(this.shape, 0, 2);
+  sample(
+    options: { mask?: SampleVector; probability?: SampleVector } = {}
+  ): BackendValue<B> {
+    checkSampleOptions(options);
+    const size = tf.util.sizeFromShape(this.shape);
+
+    let values: number[];
+    if (options.mask !== undefined) {
+      const mask = vectorValues(options.mask, size, 'mask');
+      if (!mask.every((value) => value === 0 || value === 1 || value === 2)) {
+        throw new Error(`The mask values must be 0, 1 or 2, got [${mask}]`);
+      }
+      values = mask.map((value) =>
+        value === 2 ? this.rng.integers(0, 2) : value
+      );
+    } else if (options.probability !== undefined) {
+      const probability = vectorValues(
+        options.probability,
+        size,
+        'probability vector'
+      );
+      if (!probability.every((p) => p >= 0 && p <= 1)) {
+        throw new Error(
+          `The probabilities must be between 0 and 1, got [${probability}]`
+        );
+      }
+      values = probability.map((p) => (this.rng.random() < p ? 1 : 0));
+    } else {
+      values = Array.from({ length: size }, () => this.rng.integers(0, 2));
+    }
+
+    return createValue(values, this.shape, this.dtype, this.backend);
   }
 
   /**
@@ -41,6 +92,15 @@ export class MultiBinary extends Space<tf.Tensor> {
    * @override
    */
   contains(x: any): boolean {
+    if (this.backend === 'array') {
+      return (
+        isTypedArray(x) &&
+        hasArrayDtype(x, this.dtype) &&
+        x.length === tf.util.sizeFromShape(this.shape) &&
+        x.every((value) => value === 0 || value === 1)
+      );
+    }
+
     // Same type
     if (!(x instanceof tf.Tensor)) {
       return false;
@@ -56,7 +116,9 @@ export class MultiBinary extends Space<tf.Tensor> {
       return false;
     }
 
-    return x.equal(1).logicalOr(x.equal(0)).all().dataSync()[0] === 1;
+    return tf.tidy(
+      () => x.equal(1).logicalOr(x.equal(0)).all().dataSync()[0] === 1
+    );
   }
 
   /**
@@ -65,7 +127,7 @@ export class MultiBinary extends Space<tf.Tensor> {
    * @returns A boolean that specifies if the two multi binary are the same
    */
   equals(other: Space<any>): boolean {
-    if (!(other instanceof MultiBinary)) {
+    if (!(other instanceof MultiBinary) || this.backend !== other.backend) {
       return false;
     }
 
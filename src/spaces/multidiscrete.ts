@@ -1,19 +1,44 @@
 import * as tf from '@tensorflow/tfjs';
 import { Space } from './space';
 import { checkTensors } from '../utils';
+import {
+  BackendValue,
+  SpaceBackend,
+  createValue,
+  hasArrayDtype,
+  isTypedArray,
+} from './backend';
+import {
+  SampleVector,
+  checkSampleOptions,
+  sampleMask,
+  sampleProbability,
+  vectorValues,
+} from './sampling';
 
 /**
- * MultiDiscrete is the representation of the Cartesian product of n discrete spaces
+ * MultiDiscrete is the representation of the Cartesian product of n discrete spaces.
+ * Its values are tensors, or flat `Int32Array`s with the array backend.
  */
-export class MultiDiscrete extends Space<tf.Tensor> {
+export class MultiDiscrete<B extends SpaceBackend = 'tensor'> extends Space<
+  BackendValue<B>
+> {
   /** The number of the discrete elements in each dimension of the space */
   public nVec: tf.Tensor;
   /** The smallest element of the space in each dimension */
   public start: tf.Tensor;
+  /** How the values are represented, as tensors or as typed arrays */
+  public readonly backend: B;
 
-  constructor(nVec: tf.Tensor, start: tf.Tensor | null = null) {
-    super(nVec.shape, 'int32');
+  constructor(
+    nVec: tf.Tensor,
+    start: tf.Tensor | null = null,
+    seed: number | null = null,
+    backend: B = 'tensor' as B
+  ) {
+    super(nVec.shape, 'int32', seed);
     this.nVec = nVec;
+    this.backend = backend;
 
     if (this.nVec.dtype !== 'int32') {
       throw Error('nVec data type must be integer!');
@@ -38,18 +63,48 @@ export class MultiDiscrete extends Space<tf.Tensor> {
   /**
    * Gets a sample of the multi discrete space.
    *
-   * @returns a random tensor in the space range
+   * @param options - `mask` and `probability` have a mask or probability vector for each dimension, in row-major order,
+   * like the ones of `Discrete.sample`. At most one of them can be given.
+   * @returns a random tensor in the space range, or a typed array with the array backend.
+   * Dimensions whose mask excludes every element are sampled as their start.
    *
    * @override
    */
-  sample(): tf.Tensor {
-    return tf.tidy(() => {
-      // TODO: find a way without using randomUniform (which is float based)
-      let random = tf.randomUniform(this.shape, 0, 1, 'float32');
-      random = random.mul(this.nVec).add(this.start);
+  sample(
+    options: { mask?: SampleVector[]; probability?: SampleVector[] } = {}
+  ): BackendValue<B> {
+    checkSampleOptions(options);
+    const nVec = this.nVec.dataSync();
+    const start = this.start.dataSync();
+
+    const { mask, probability } = options;
+    for (const [vectors, name] of [
+      [mask, 'masks'],
+      [probability, 'probability vectors'],
+    ] as const) {
+      if (vectors !== undefined && vectors.length !== nVec.length) {
+        throw new Error(
+          `Expected ${nVec.length} ${name}, one for each dimension, got ${vectors.length}`
+        );
+      }
+    }
 
-      return random.floor().asType(this.dtype);
+    const values = Array.from(nVec, (n, i) => {
+      if (mask !== undefined) {
+        const dimMask = vectorValues(mask[i], n, `mask for dimension ${i}`);
+        return start[i] + (sampleMask(dimMask, this.rng) ?? 0);
+      } else if (probability !== undefined) {
+        const dimProbability = vectorValues(
+          probability[i],
+          n,
+          `probability vector for dimension ${i}`
+        );
+        return start[i] + sampleProbability(dimProbability, this.rng);
+      }
+      return this.rng.integers(start[i], start[i] + n);
     });
+
+    return createValue(values, this.shape, this.dtype, this.backend);
   }
 
   /**
@@ -60,6 +115,10 @@ export class MultiDiscrete extends Space<tf.Tensor> {
    * @override
    */
   contains(x: any): boolean {
+    if (this.backend === 'array') {
+      return this.containsArray(x);
+    }
+
     // Same type
     if (!(x instanceof tf.Tensor)) {
       return false;
@@ -99,6 +158,7 @@ export class MultiDiscrete extends Space<tf.Tensor> {
     }
 
     if (
+      this.backend === other.backend &&
       checkTensors(this.nVec, other.nVec, true) &&
       checkTensors(this.start, other.start, true)
     ) {
@@ -107,4 +167,22 @@ export class MultiDiscrete extends Space<tf.Tensor> {
       return false;
     }
   }
+
+  // Checks a typed array of the array backend, its values are flat
+  private containsArray(x: any): boolean {
+    const nVec = this.nVec.dataSync();
+    const start = this.start.dataSync();
+    if (!isTypedArray(x) || !hasArrayDtype(x, this.dtype)) {
+      return false;
+    } else if (x.length !== nVec.length) {
+      return false;
+    }
+
+    for (let i = 0; i < nVec.length; i++) {
+      if (!(x[i] >= start[i] && x[i] < start[i] + nVec[i])) {
+        return false;
+      }
+    }
+    return true;
+  }
 }
@@ -0,0 +1,110 @@
+import { Space } from './space';
+import { sampleProbability } from './sampling';
+
+/**
+ * A space whose values are in exactly one of several subspaces, like a tagged union.
+ * Values are `[index, value]`, with `value` in the subspace at `index`.
+ */
+export class OneOf extends Space<[number, any]> {
+  public spaces: Space<any>[];
+
+  constructor(spaces: Space<any>[], seed: number | null = null) {
+    if (spaces.length === 0) {
+      throw new Error('OneOf needs at least one subspace');
+    }
+
+    super([], 'string', seed);
+    this.spaces = spaces;
+
+    if (seed !== null) {
+      this.seed(seed);
+    }
+  }
+
+  /**
+   * Seeds the random number generator of the space and its subspaces.
+   *
+   * @param seed - The seed, the seeds of the subspaces are drawn from the generator seeded with it
+   * @returns The seeds used, the seed of the space followed by the seeds of the subspaces
+   *
+   * @override
+   */
+  seed(seed: number | null = null): number[] {
+    const seeds = super.seed(seed);
+
+    this.spaces.forEach((space) => {
+      seeds.push(...space.seed(this.rng.nextSeed()));
+    });
+
+    return seeds;
+  }
+
+  /**
+   * Gets a sample of the space.
+   *
+   * @param options - `probability` is the probability of choosing each subspace, uniform by default
+   * @returns the index of a random subspace and a sample of it
+   *
+   * @override
+   */
+  sample(options: { probability?: number[] } = {}): [number, any] {
+    const index =
+      options.probability === undefined
+        ? this.rng.integers(0, this.spaces.length)
+        : this.sampleIndex(options.probability);
+    return [index, this.spaces[index].sample()];
+  }
+
+  /**
+   * Determines whether a value is in the space or not
+   *
+   * @returns A boolean that specifies if the value is an index and a value of the subspace at that index
+   *
+   * @override
+   */
+  contains(x: any): boolean {
+    // Same type
+    if (!Array.isArray(x) || x.length !== 2) {
+      return false;
+    }
+
+    const [index, value] = x;
+    return (
+      Number.isInteger(index) &&
+      index >= 0 &&
+      index < this.spaces.length &&
+      this.spaces[index].contains(value)
+    );
+  }
+
+  /**
+   * Determines if the two spaces are the same
+   *
+   * @returns A boolean that specifies if the two spaces have the same subspaces in the same order
+   */
+  equals(other: Space<any>): boolean {
+    // Same type
+    if (!(other instanceof OneOf)) {
+      return false;
+    }
+
+    // Same length
+    if (this.spaces.length !== other.spaces.length) {
+      return false;
+    }
+
+    // Corresponding elements
+    return this.spaces.every((space, index) =>
+      space.equals(other.spaces[index])
+    );
+  }
+
+  private sampleIndex(probability: number[]): number {
+    if (probability.length !== this.spaces.length) {
+      throw new Error(
+        `Expected a probability for each of the ${this.spaces.length} subspaces, got ${probability.length}`
+      );
+    }
+    return sampleProbability(probability, this.rng);
+  }
+}
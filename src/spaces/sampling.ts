@@ -0,0 +1,106 @@
+import * as tf from '@tensorflow/tfjs';
+
+import { RandomGenerator } from '../utils';
+
+/**
+ * A mask or probability vector used for sampling, an `Int8Array` like the action masks of the environments,
+ * an array of numbers or a tensor
+ */
+export type SampleVector = ArrayLike<number> | tf.Tensor;
+
+/**
+ * Gets the values of a mask or probability vector, checking its length
+ *
+ * @param vector - The mask or probability vector
+ * @param length - The expected number of values
+ * @param name - The name of the vector in the error messages
+ * @returns The values of the vector
+ */
+export function vectorValues(
+  vector: SampleVector,
+  length: number,
+  name: string
+): number[] {
+  const values = Array.from(
+    vector instanceof tf.Tensor ? vector.dataSync() : vector
+  );
+  if (values.length !== length) {
+    throw new Error(
+      `Expected a ${name} of ${length} values, got ${values.length}`
+    );
+  }
+  return values;
+}
+
+/**
+ * Samples one of the valid actions of a mask uniformly
+ *
+ * @param mask - The mask, 1 for the valid actions and 0 for the invalid ones
+ * @param rng - The random number generator
+ * @returns The index of a valid action, null if every action is invalid
+ */
+export function sampleMask(
+  mask: number[],
+  rng: RandomGenerator
+): number | null {
+  if (!mask.every((value) => value === 0 || value === 1)) {
+    throw new Error(`The mask values must be 0 or 1, got [${mask}]`);
+  }
+
+  const valid = mask.flatMap((value, i) => (value === 1 ? [i] : []));
+  if (valid.length === 0) {
+    return null;
+  }
+  return valid[rng.integers(0, valid.length)];
+}
+
+/**
+ * Samples an action with the probabilities of a probability vector
+ *
+ * @param probability - The probability of each action, they must sum to 1
+ * @param rng - The random number generator
+ * @returns The index of the action
+ */
+export function sampleProbability(
+  probability: number[],
+  rng: RandomGenerator
+): number {
+  if (!probability.every((p) => p >= 0 && p <= 1)) {
+    throw new Error(
+      `The probabilities must be between 0 and 1, got [${probability}]`
+    );
+  }
+  const total = probability.reduce((sum, p) => sum + p, 0);
+  if (Math.abs(total - 1) > 1e-6) {
+    throw new Error(`The probabilities must sum to 1, got ${total}`);
+  }
+
+  const threshold = rng.random() * total;
+  let cumulative = 0;
+  for (let i = 0; i < probability.length; i++) {
+    cumulative += probability[i];
+    if (threshold < cumulative) {
+      return i;
+    }
+  }
+  // Rounding errors, the last action with a positive probability
+  let last = probability.length - 1;
+  while (probability[last] === 0) {
+    last--;
+  }
+  return last;
+}
+
+/**
+ * Checks that at most one of the mask and the probability vector is given
+ *
+ * @param options - The sampling options
+ */
+export function checkSampleOptions(options: {
+  mask?: unknown;
+  probability?: unknown;
+}): void {
+  if (options.mask !== undefined && options.probability !== undefined) {
+    throw new Error('Only one of mask and probability can be given');
+  }
+}
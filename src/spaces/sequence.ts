@@ -0,0 +1,159 @@
+import * as tf from '@tensorflow/tfjs';
+
+import { Space } from './space';
+import { Box } from './box';
+import { Discrete } from './discrete';
+import { MultiDiscrete } from './multidiscrete';
+import { MultiBinary } from './multibinary';
+
+/**
+ * A space of sequences of any length whose elements are in a feature space,
+ * like a variable number of detected objects.
+ * Values are arrays of features, or a single tensor of the stacked features in stack mode.
+ */
+export class Sequence extends Space<any[] | tf.Tensor> {
+  /** The space of the elements of the sequences */
+  public featureSpace: Space<any>;
+  /** If the values are the features stacked along a new first dimension */
+  public stack: boolean;
+
+  /**
+   * Creates an instance of Sequence.
+   *
+   * @param featureSpace - The space of the elements of the sequences
+   * @param stack - If the values are a single tensor of the stacked features,
+   * supported for `Box`, `Discrete`, `MultiDiscrete` and `MultiBinary` feature spaces with the tensor backend
+   * @param seed - The seed of the random number generator
+   */
+  constructor(
+    featureSpace: Space<any>,
+    stack: boolean = false,
+    seed: number | null = null
+  ) {
+    if (stack && !isStackable(featureSpace)) {
+      throw new Error(
+        `Stacking is only supported for Box, Discrete, MultiDiscrete and MultiBinary feature spaces with the tensor backend, got ${featureSpace.constructor.name}`
+      );
+    }
+
+    super([], 'string', seed);
+    this.featureSpace = featureSpace;
+    this.stack = stack;
+
+    if (seed !== null) {
+      this.seed(seed);
+    }
+  }
+
+  /**
+   * Seeds the random number generator of the sequence and its feature space.
+   *
+   * @param seed - The seed, the seed of the feature space is drawn from the generator seeded with it
+   * @returns The seeds used, the seed of the sequence followed by the seeds of the feature space
+   *
+   * @override
+   */
+  seed(seed: number | null = null): number[] {
+    const seeds = super.seed(seed);
+    seeds.push(...this.featureSpace.seed(this.rng.nextSeed()));
+    return seeds;
+  }
+
+  /**
+   * Gets a sample of the sequence space.
+   *
+   * @param options - `length` fixes the length of the sample, geometrically distributed with a mean of 4 by default
+   * @returns an array of samples of the feature space, or their stacked tensor in stack mode
+   *
+   * @override
+   */
+  sample(options: { length?: number } = {}): any[] | tf.Tensor {
+    const length = options.length ?? this.rng.geometric(0.25);
+    if (!Number.isInteger(length) || length < 0) {
+      throw new Error(
+        `The length must be a non-negative integer, got ${length}`
+      );
+    }
+
+    const items = Array.from({ length }, () => this.featureSpace.sample());
+    return this.stack ? this.stackItems(items) : items;
+  }
+
+  /**
+   * Determines whether a sequence is in the space or not
+   *
+   * @returns A boolean that specifies if every element of the sequence is in the feature space
+   *
+   * @override
+   */
+  contains(x: any): boolean {
+    if (!this.stack) {
+      return (
+        Array.isArray(x) && x.every((item) => this.featureSpace.contains(item))
+      );
+    }
+
+    if (!(x instanceof tf.Tensor)) {
+      return false;
+    }
+
+    if (this.featureSpace instanceof Discrete) {
+      return (
+        x.rank === 1 &&
+        x.dtype === 'int32' &&
+        Array.from(x.dataSync()).every((item) =>
+          this.featureSpace.contains(item)
+        )
+      );
+    }
+
+    if (x.rank !== this.featureSpace.shape.length + 1) {
+      return false;
+    }
+    const items = tf.unstack(x);
+    const contained = items.every((item) => this.featureSpace.contains(item));
+    tf.dispose(items);
+    return contained;
+  }
+
+  /**
+   * Determines if the two sequence spaces are the same
+   *
+   * @returns A boolean that specifies if the feature spaces and the stack modes are the same
+   */
+  equals(other: Space<any>): boolean {
+    if (!(other instanceof Sequence)) {
+      return false;
+    }
+
+    return (
+      this.stack === other.stack && this.featureSpace.equals(other.featureSpace)
+    );
+  }
+
+  // Stacks the sampled features into a single tensor, disposing them
+  private stackItems(items: any[]): tf.Tensor {
+    if (this.featureSpace instanceof Discrete) {
+      return tf.tensor1d(items, 'int32');
+    }
+    if (items.length === 0) {
+      return tf.zeros([0, ...this.featureSpace.shape], this.featureSpace.dtype);
+    }
+
+    const stacked = tf.stack(items);
+    tf.dispose(items);
+    return stacked;
+  }
+}
+
+function isStackable(space: Space<any>): boolean {
+  if (space instanceof Discrete) {
+    return true;
+  }
+  return (
+    (space instanceof Box ||
+      space instanceof MultiDiscrete ||
+      space instanceof MultiBinary) &&
+    space.backend === 'tensor'
+  );
+}
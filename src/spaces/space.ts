@@ -1,5 +1,7 @@
 import * as tf from '@tensorflow/tfjs';
 
+import { RandomGenerator } from '../utils';
+
 /**
  * An abstract class that represents the structure of a space.
  */
@@ -8,10 +10,24 @@ export abstract class Space<T> {
   public shape: number[];
   /** The datatype of the space */
   public dtype: tf.DataType;
+  /** The random number generator used for sampling */
+  protected rng: RandomGenerator;
 
-  constructor(shape: number[], dtype: tf.DataType) {
+  constructor(shape: number[], dtype: tf.DataType, seed: number | null = null) {
     this.shape = shape;
     this.dtype = dtype;
+    this.rng = new RandomGenerator(seed);
+  }
+
+  /**
+   * Seeds the random number generator of the space.
+   *
+   * @param seed - The seed, a random one is chosen if null
+   * @returns The seeds used, the first one being the seed of the space itself
+   */
+  seed(seed: number | null = null): number[] {
+    this.rng = new RandomGenerator(seed);
+    return [this.rng.seed];
   }
 
   /**
@@ -0,0 +1,168 @@
+import * as tf from '@tensorflow/tfjs';
+
+import { Space } from './space';
+
+/** The default characters of a text space, the ascii letters and digits */
+export const alphanumeric =
+  'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+
+/**
+ * A space of strings whose characters come from a charset, with a length between a minimum and a maximum.
+ * Lengths are counted in unicode code points.
+ */
+export class Text extends Space<string> {
+  /** The maximum length of the strings */
+  public maxLength: number;
+  /** The minimum length of the strings */
+  public minLength: number;
+  /** The distinct characters of the charset, in order */
+  public characters: string[];
+  /** The index of each character in `characters` */
+  private characterIndices: Map<string, number>;
+
+  /**
+   * Creates an instance of Text.
+   *
+   * @param maxLength - The maximum length of the strings
+   * @param minLength - The minimum length of the strings
+   * @param charset - The characters of the strings, duplicates are ignored
+   * @param seed - The seed of the random number generator
+   */
+  constructor(
+    maxLength: number,
+    minLength: number = 1,
+    charset: string | string[] = alphanumeric,
+    seed: number | null = null
+  ) {
+    if (!Number.isInteger(minLength) || minLength < 0) {
+      throw new Error(
+        `The minimum length must be a non-negative integer, got ${minLength}`
+      );
+    }
+    if (!Number.isInteger(maxLength) || maxLength < minLength) {
+      throw new Error(
+        `The maximum length must be an integer greater than or equal to the minimum length (${minLength}), got ${maxLength}`
+      );
+    }
+
+    const characters = Array.from(
+      new Set(typeof charset === 'string' ? Array.from(charset) : charset)
+    );
+    if (characters.length === 0) {
+      throw new Error('The charset must contain at least one character');
+    }
+
+    super([], 'string', seed);
+    this.maxLength = maxLength;
+    this.minLength = minLength;
+    this.characters = characters;
+    this.characterIndices = new Map(characters.map((char, i) => [char, i]));
+  }
+
+  /**
+   * Gets a sample of the text space.
+   *
+   * @param options - `length` fixes the length of the sample, a random length between the bounds by default
+   * @returns a random string of characters from the charset
+   *
+   * @override
+   */
+  sample(options: { length?: number } = {}): string {
+    const length =
+      options.length ?? this.rng.integers(this.minLength, this.maxLength + 1);
+    if (
+      !Number.isInteger(length) ||
+      length < this.minLength ||
+      length > this.maxLength
+    ) {
+      throw new Error(
+        `The length must be an integer between ${this.minLength} and ${this.maxLength}, got ${length}`
+      );
+    }
+
+    let sample = '';
+    for (let i = 0; i < length; i++) {
+      sample += this.characters[this.rng.integers(0, this.characters.length)];
+    }
+    return sample;
+  }
+
+  /**
+   * Determines whether a string is in the space or not
+   *
+   * @returns A boolean that specifies if the value is a string of characters of the charset with a valid length
+   *
+   * @override
+   */
+  contains(x: any): boolean {
+    if (typeof x !== 'string') {
+      return false;
+    }
+
+    const characters = Array.from(x);
+    return (
+      characters.length >= this.minLength &&
+      characters.length <= this.maxLength &&
+      characters.every((char) => this.characterIndices.has(char))
+    );
+  }
+
+  /**
+   * Determines if the two text spaces are the same
+   *
+   * @returns A boolean that specifies if the lengths and the characters of the two spaces are the same
+   */
+  equals(other: Space<any>): boolean {
+    if (!(other instanceof Text)) {
+      return false;
+    }
+
+    return (
+      this.maxLength === other.maxLength &&
+      this.minLength === other.minLength &&
+      this.characters.length === other.characters.length &&
+      this.characters.every((char) => other.characterIndices.has(char))
+    );
+  }
+
+  /**
+   * Gets the index of a character in the charset
+   *
+   * @param char - A character of the charset
+   * @returns The index of the character in `characters`
+   */
+  characterIndex(char: string): number {
+    const index = this.characterIndices.get(char);
+    if (index === undefined) {
+      throw new Error(`The character ${char} is not in the charset`);
+    }
+    return index;
+  }
+
+  /**
+   * Encodes a string as the indices of its characters, meant to feed token models
+   *
+   * @param x - A string of the space
+   * @returns An int32 tensor of shape [maxLength], padded with `characters.length`
+   */
+  encode(x: string): tf.Tensor {
+    const indices = Array.from(x, (char) => this.characterIndex(char));
+    while (indices.length < this.maxLength) {
+      indices.push(this.characters.length);
+    }
+    return tf.tensor1d(indices, 'int32');
+  }
+
+  /**
+   * Decodes the indices of characters into a string, the inverse of `encode`
+   *
+   * @param x - A 1D tensor of character indices, indices out of the charset are treated as padding
+   * @returns The string
+   */
+  decode(x: tf.Tensor): string {
+    return Array.from(x.dataSync())
+      .filter((index) => index >= 0 && index < this.characters.length)
+      .map((index) => this.characters[index])
+      .join('');
+  }
+}
@@ -7,9 +7,31 @@ import { Space } from './space';
 export class Tuple extends Space<Record<string, any>> {
   public spaces: Space<any>[];
 
-  constructor(spaces: Space<any>[]) {
-    super([], 'string');
+  constructor(spaces: Space<any>[], seed: number | null = null) {
+    super([], 'string', seed);
     this.spaces = spaces;
+
+    if (seed !== null) {
+      this.seed(seed);
+    }
+  }
+
+  /**
+   * Seeds the random number generator of the tuple and its subspaces.
+   *
+   * @param seed - The seed, the seeds of the subspaces are drawn from the generator seeded with it
+   * @returns The seeds used, the seed of the tuple followed by the seeds of the subspaces
+   *
+   * @override
+   */
+  seed(seed: number | null = null): number[] {
+    const seeds = super.seed(seed);
+
+    this.spaces.forEach((space) => {
+      seeds.push(...space.seed(this.rng.nextSeed()));
+    });
+
+    return seeds;
   }
 
   /**
@@ -0,0 +1,384 @@
+import * as tf from '@tensorflow/tfjs';
+
+import { Space } from './space';
+import { Box } from './box';
+import { Discrete } from './discrete';
+import { MultiDiscrete } from './multidiscrete';
+import { MultiBinary } from './multibinary';
+import { Dict } from './dict';
+import { Tuple } from './tuple';
+import { Text } from './text';
+import { Sequence } from './sequence';
+import { OneOf } from './oneof';
+import { SpaceBackend, createValue, isTypedArray, valueData } from './backend';
+
+/**
+ * Gets the number of dimensions of the flattened space
+ *
+ * @param space - The space to flatten
+ * @returns The size of the flattened values of the space
+ */
+export function flatdim(space: Space<any>): number {
+  if (space instanceof Box || space instanceof MultiBinary) {
+    return tf.util.sizeFromShape(space.shape);
+  } else if (space instanceof Discrete) {
+    return space.n;
+  } else if (space instanceof MultiDiscrete) {
+    return Array.from(space.nVec.dataSync()).reduce((dim, n) => dim + n, 0);
+  } else if (space instanceof Dict) {
+    return sortedKeys(space).reduce(
+      (dim, key) => dim + flatdim(space.spaces[key]),
+      0
+    );
+  } else if (space instanceof Tuple) {
+    return space.spaces.reduce((dim, subspace) => dim + flatdim(subspace), 0);
+  } else if (space instanceof Text) {
+    return space.maxLength;
+  } else if (space instanceof OneOf) {
+    return 1 + Math.max(...space.spaces.map((subspace) => flatdim(subspace)));
+  } else {
+    throw new Error(
+      `Flattening is not supported for ${space.constructor.name}`
+    );
+  }
+}
+
+/**
+ * Flattens a value of a space into a 1D tensor.
+ * Discrete values are one-hot encoded, the keys of dicts are sorted and texts are encoded as character indices.
+ * OneOf values are their index followed by the flattened value, padded with zeros.
+ *
+ * @param space - The space of the value
+ * @param x - The value to flatten
+ * @returns A 1D tensor of size `flatdim(space)`
+ */
+export function flatten(space: Space<any>, x: any): tf.Tensor {
+  if (space instanceof Box || space instanceof MultiBinary) {
+    if (isTypedArray(x)) {
+      return tf.tensor1d(x, space.dtype as 'float32' | 'int32');
+    }
+    return (x as tf.Tensor).reshape([-1]);
+  } else if (space instanceof Discrete) {
+    return tf.tidy(() =>
+      tf.oneHot(tf.tensor1d([x - space.start], 'int32'), space.n).reshape([-1])
+    );
+  } else if (space instanceof MultiDiscrete) {
+    const nVec = space.nVec.dataSync();
+    const start = space.start.dataSync();
+    const offsets = Array.from(valueData(x), (value, i) => value - start[i]);
+    return tf.tidy(() =>
+      tf
+        .concat(
+          Array.from(nVec, (n, i) =>
+            tf.oneHot(tf.tensor1d([offsets[i]], 'int32'), n)
+          ),
+          1
+        )
+        .reshape([-1])
+    );
+  } else if (space instanceof Dict) {
+    return tf.tidy(() =>
+      concatFlat(
+        sortedKeys(space).map((key) => flatten(space.spaces[key], x[key]))
+      )
+    );
+  } else if (space instanceof Tuple) {
+    return tf.tidy(() =>
+      concatFlat(
+        space.spaces.map((subspace, index) => flatten(subspace, x[index]))
+      )
+    );
+  } else if (space instanceof Text) {
+    return space.encode(x);
+  } else if (space instanceof OneOf) {
+    const [index, value] = x;
+    const dtype = flatDtype(space);
+    return tf.tidy(() => {
+      const flat = flatten(space.spaces[index], value).asType(dtype);
+      const padding = tf.zeros([flatdim(space) - 1 - flat.size], dtype);
+      return tf.concat([tf.tensor1d([index], dtype), flat, padding]);
+    });
+  } else {
+    throw new Error(
+      `Flattening is not supported for ${space.constructor.name}`
+    );
+  }
+}
+
+/**
+ * Unflattens a 1D tensor into a value of a space, the inverse of `flatten`
+ *
+ * @param space - The space of the value
+ * @param x - The flattened value
+ * @returns The value in the space, typed arrays for the spaces with the array backend
+ */
+export function unflatten(space: Space<any>, x: tf.Tensor): any {
+  if (
+    (space instanceof Box ||
+      space instanceof MultiBinary ||
+      space instanceof MultiDiscrete) &&
+    space.backend === 'array'
+  ) {
+    const value: tf.Tensor = unflatten(convertSpace(space, 'tensor'), x);
+    const array = convertValue(space, value, 'array');
+    value.dispose();
+    return array;
+  } else if (space instanceof Box || space instanceof MultiBinary) {
+    return tf.tidy(() => x.reshape(space.shape).asType(space.dtype));
+  } else if (space instanceof Discrete) {
+    return space.start + tf.tidy(() => x.argMax().dataSync()[0]);
+  } else if (space instanceof MultiDiscrete) {
+    const nVec = Array.from(space.nVec.dataSync());
+    return tf.tidy(() => {
+      const indices = tf
+        .split(x, nVec)
+        .map((oneHot) => oneHot.argMax().dataSync()[0]);
+      return tf
+        .tensor(indices, space.shape, 'int32')
+        .add(space.start)
+        .asType(space.dtype);
+    });
+  } else if (space instanceof Dict) {
+    const keys = sortedKeys(space);
+    const parts = splitFlat(
+      x,
+      keys.map((key) => space.spaces[key])
+    );
+    const value: Record<string, any> = {};
+    keys.forEach((key, index) => {
+      value[key] = unflatten(space.spaces[key], parts[index]);
+    });
+    tf.dispose(parts);
+    return value;
+  } else if (space instanceof Tuple) {
+    const parts = splitFlat(x, space.spaces);
+    const value = space.spaces.map((subspace, index) =>
+      unflatten(subspace, parts[index])
+    );
+    tf.dispose(parts);
+    return value;
+  } else if (space instanceof Text) {
+    return space.decode(x);
+  } else if (space instanceof OneOf) {
+    const index = Math.round(tf.tidy(() => x.slice([0], [1]).dataSync()[0]));
+    const subspace = space.spaces[index];
+    const part = tf.tidy(() => x.slice([1], [flatdim(subspace)]));
+    const value = unflatten(subspace, part);
+    part.dispose();
+    return [index, value];
+  } else {
+    throw new Error(
+      `Unflattening is not supported for ${space.constructor.name}`
+    );
+  }
+}
+
+/**
+ * Flattens a space into a 1D Box, flattened values of the space are in it
+ *
+ * @param space - The space to flatten
+ * @returns A Box of shape `[flatdim(space)]`
+ */
+export function flattenSpace(space: Space<any>): Box {
+  if (space instanceof Box) {
+    const shape = [flatdim(space)];
+    if (space.low instanceof tf.Tensor && space.high instanceof tf.Tensor) {
+      return new Box(
+        space.low.reshape(shape),
+        space.high.reshape(shape),
+        shape,
+        space.dtype
+      );
+    }
+    return new Box(space.low, space.high, shape, space.dtype);
+  } else if (
+    space instanceof Discrete ||
+    space instanceof MultiDiscrete ||
+    space instanceof MultiBinary
+  ) {
+    return new Box(0, 1, [flatdim(space)], space.dtype);
+  } else if (space instanceof Dict) {
+    return concatBoxes(
+      sortedKeys(space).map((key) => flattenSpace(space.spaces[key]))
+    );
+  } else if (space instanceof Tuple) {
+    return concatBoxes(space.spaces.map((subspace) => flattenSpace(subspace)));
+  } else if (space instanceof Text) {
+    return new Box(0, space.characters.length, [space.maxLength], 'int32');
+  } else if (space instanceof OneOf) {
+    // The index is followed by the bounds of all the subspaces, including the zero padding
+    const boxes = space.spaces.map((subspace) => flattenSpace(subspace));
+    const low = Math.min(0, ...boxes.map((box) => boundValue(box.low, 'min')));
+    const high = Math.max(
+      0,
+      ...boxes.map((box) => boundValue(box.high, 'max'))
+    );
+    const dim = flatdim(space);
+    const dtype = flatDtype(space);
+    return new Box(
+      tf.tensor1d([0, ...new Array(dim - 1).fill(low)], dtype),
+      tf.tensor1d(
+        [space.spaces.length - 1, ...new Array(dim - 1).fill(high)],
+        dtype
+      ),
+      [dim],
+      dtype
+    );
+  } else {
+    throw new Error(
+      `Flattening is not supported for ${space.constructor.name}`
+    );
+  }
+}
+
+/**
+ * Converts a space to a backend, the values of `Box`, `MultiDiscrete` and `MultiBinary` spaces
+ * become tensors or typed arrays, other spaces are kept and dicts, tuples, unstacked sequences and one-ofs are converted recursively
+ *
+ * @param space - The space to convert
+ * @param backend - The backend of the converted space
+ * @returns The space with the backend
+ */
+export function convertSpace(
+  space: Space<any>,
+  backend: SpaceBackend
+): Space<any> {
+  if (space instanceof Box) {
+    return space.backend === backend
+      ? space
+      : new Box(space.low, space.high, space.shape, space.dtype, null, backend);
+  } else if (space instanceof MultiDiscrete) {
+    return space.backend === backend
+      ? space
+      : new MultiDiscrete(space.nVec, space.start, null, backend);
+  } else if (space instanceof MultiBinary) {
+    return space.backend === backend
+      ? space
+      : new MultiBinary(space.n, null, backend);
+  } else if (space instanceof Dict) {
+    const spaces: Record<string, Space<any>> = {};
+    Object.keys(space.spaces).forEach((key) => {
+      spaces[key] = convertSpace(space.spaces[key], backend);
+    });
+    return new Dict(spaces);
+  } else if (space instanceof Tuple) {
+    return new Tuple(
+      space.spaces.map((subspace) => convertSpace(subspace, backend))
+    );
+  } else if (space instanceof Sequence && !space.stack) {
+    return new Sequence(convertSpace(space.featureSpace, backend));
+  } else if (space instanceof OneOf) {
+    return new OneOf(
+      space.spaces.map((subspace) => convertSpace(subspace, backend))
+    );
+  }
+  return space;
+}
+
+/**
+ * Converts a value of a space to a backend, the inverse conversion of a value of `convertSpace(space, backend)`
+ *
+ * @param space - The space of the value, with any backend
+ * @param x - The value to convert, it is copied if its representation changes
+ * @param backend - The backend of the converted value
+ * @returns The value with the backend, new tensors are owned by the caller
+ */
+export function convertValue(
+  space: Space<any>,
+  x: any,
+  backend: SpaceBackend
+): any {
+  if (
+    space instanceof Box ||
+    space instanceof MultiDiscrete ||
+    space instanceof MultiBinary
+  ) {
+    if (backend === 'array' && x instanceof tf.Tensor) {
+      return createValue(x.dataSync(), space.shape, space.dtype, 'array');
+    } else if (backend === 'tensor' && isTypedArray(x)) {
+      return createValue(x, space.shape, space.dtype, 'tensor');
+    }
+    return x;
+  } else if (space instanceof Dict) {
+    const value: Record<string, any> = {};
+    Object.keys(space.spaces).forEach((key) => {
+      value[key] = convertValue(space.spaces[key], x[key], backend);
+    });
+    return value;
+  } else if (space instanceof Tuple) {
+    return space.spaces.map((subspace, index) =>
+      convertValue(subspace, x[index], backend)
+    );
+  } else if (space instanceof Sequence && !space.stack) {
+    return (x as any[]).map((item) =>
+      convertValue(space.featureSpace, item, backend)
+    );
+  } else if (space instanceof OneOf) {
+    const [index, value] = x;
+    return [index, convertValue(space.spaces[index], value, backend)];
+  }
+  return x;
+}
+
+function sortedKeys(space: Dict): string[] {
+  return Object.keys(space.spaces).sort();
+}
+
+// The float type if any of the types is a float, int32 otherwise
+function resultType(dtypes: tf.DataType[]): tf.DataType {
+  return dtypes.every((dtype) => dtype === 'int32' || dtype === 'bool')
+    ? 'int32'
+    : 'float32';
+}
+
+// The data type of the flattened values of a space
+function flatDtype(space: Space<any>): tf.DataType {
+  if (space instanceof Dict) {
+    return resultType(
+      sortedKeys(space).map((key) => flatDtype(space.spaces[key]))
+    );
+  } else if (space instanceof Tuple || space instanceof OneOf) {
+    return resultType(space.spaces.map((subspace) => flatDtype(subspace)));
+  } else if (space instanceof Text) {
+    return 'int32';
+  }
+  return resultType([space.dtype]);
+}
+
+// The smallest or largest value of a bound of a box
+function boundValue(bound: tf.Tensor | number, reduce: 'min' | 'max'): number {
+  if (typeof bound === 'number') {
+    return bound;
+  }
+  return tf.tidy(() => bound[reduce]().dataSync()[0]);
+}
+
+function concatFlat(parts: tf.Tensor[]): tf.Tensor {
+  const dtype = resultType(parts.map((part) => part.dtype));
+  return tf.tidy(() => tf.concat(parts.map((part) => part.asType(dtype))));
+}
+
+function splitFlat(x: tf.Tensor, spaces: Space<any>[]): tf.Tensor[] {
+  return tf.split(
+    x,
+    spaces.map((space) => flatdim(space))
+  );
+}
+
+function concatBoxes(boxes: Box[]): Box {
+  const dtype = resultType(boxes.map((box) => box.dtype));
+  const toTensor = (bound: tf.Tensor | number, box: Box) =>
+    typeof bound === 'number'
+      ? tf.fill(box.shape, bound, dtype)
+      : bound.asType(dtype);
+
+  const low = tf.tidy(() =>
+    tf.concat(boxes.map((box) => toTensor(box.low, box)))
+  );
+  const high = tf.tidy(() =>
+    tf.concat(boxes.map((box) => toTensor(box.high, box)))
+  );
+  // The boxes are the flattened subspaces, only their concatenation is kept
+  boxes.forEach((box) => tf.dispose([box.low, box.high]));
+  return new Box(low, high, low.shape, dtype);
+}
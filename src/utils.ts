@@ -25,3 +25,181 @@ export function checkTensors(
 
   return true;
 }
+
+const pcgMultiplier = 6364136223846793005n;
+const pcgIncrement = 1442695040888963407n;
+const uint64Mask = (1n << 64n) - 1n;
+
+/**
+ * A seedable random number generator based on PCG32 (XSH RR variant)
+ * https://www.pcg-random.org/
+ */
+export class RandomGenerator {
+  /** The seed the generator was created with */
+  public readonly seed: number;
+  private state: bigint;
+
+  /**
+   * Creates an instance of RandomGenerator.
+   *
+   * @param seed - A non-negative integer, a random seed is chosen if null
+   */
+  constructor(seed: number | null = null) {
+    if (seed === null) {
+      seed = Math.floor(Math.random() * Number.MAX_SAFE_INTEGER);
+    }
+
+    if (!Number.isSafeInteger(seed) || seed < 0) {
+      throw new Error(`Seed must be a non-negative integer, got ${seed}`);
+    }
+
+    this.seed = seed;
+    this.state = 0n;
+    this.nextUint32();
+    this.state = (this.state + BigInt(seed)) & uint64Mask;
+    this.nextUint32();
+  }
+
+  /**
+   * @returns A random unsigned 32-bit integer
+   */
+  nextUint32(): number {
+    const oldState = this.state;
+    this.state = (oldState * pcgMultiplier + pcgIncrement) & uint64Mask;
+
+    const xorShifted = Number(((oldState >> 18n) ^ oldState) >> 27n) >>> 0;
+    const rotation = Number(oldState >> 59n);
+    return ((xorShifted >>> rotation) | (xorShifted << (-rotation & 31))) >>> 0;
+  }
+
+  /**
+   * @returns A random float uniformly distributed in [0, 1)
+   */
+  random(): number {
+    // 53 bits of randomness from two 32-bit integers
+    const upper = this.nextUint32() >>> 5;
+    const lower = this.nextUint32() >>> 6;
+    return (upper * 67108864 + lower) / 9007199254740992;
+  }
+
+  /**
+   * @returns A random float uniformly distributed in [low, high)
+   */
+  uniform(low: number = 0, high: number = 1): number {
+    return low + (high - low) * this.random();
+  }
+
+  /**
+   * @returns A random integer uniformly distributed in [low, high)
+   */
+  integers(low: number, high: number): number {
+    return low + Math.floor(this.random() * (high - low));
+  }
+
+  /**
+   * @returns A random float normally distributed, using the Box-Muller transform
+   */
+  normal(mean: number = 0, std: number = 1): number {
+    const u = 1 - this.random();
+    const v = this.random();
+    return mean + std * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+
+  /**
+   * @returns A random float exponentially distributed
+   */
+  exponential(scale: number = 1): number {
+    return -scale * Math.log(1 - this.random());
+  }
+
+  /**
+   * @returns A random positive integer geometrically distributed, the number of trials up to the first success
+   */
+  geometric(p: number): number {
+    return Math.max(
+      1,
+      Math.ceil(Math.log(1 - this.random()) / Math.log(1 - p))
+    );
+  }
+
+  /**
+   * @returns A new seed drawn from the generator, used to seed other generators
+   */
+  nextSeed(): number {
+    return this.nextUint32() * 2097152 + (this.nextUint32() >>> 11);
+  }
+}
+
+/**
+ * Gets the tensors of a value, tensors can be nested in arrays and plain objects
+ *
+ * @param value - The value to search
+ * @returns The tensors found, without duplicates
+ */
+export function getTensors(value: unknown): tf.Tensor[] {
+  const tensors = new Set<tf.Tensor>();
+  const search = (item: unknown) => {
+    if (item instanceof tf.Tensor) {
+      tensors.add(item);
+    } else if (Array.isArray(item)) {
+      item.forEach(search);
+    } else if (
+      typeof item === 'object' &&
+      item !== null &&
+      Object.getPrototypeOf(item) === Object.prototype
+    ) {
+      Object.values(item).forEach(search);
+    }
+  };
+  search(value);
+  return [...tensors];
+}
+
+/**
+ * Disposes the tensors of a value, except the ones that are also in the kept values
+ *
+ * @param value - The value whose tensors are disposed
+ * @param kept - Values whose tensors must not be disposed
+ */
+export function disposeTensors(value: unknown, ...kept: unknown[]): void {
+  const keptTensors = new Set(getTensors(kept));
+  getTensors(value).forEach((tensor) => {
+    if (!keptTensors.has(tensor)) {
+      tensor.dispose();
+    }
+  });
+}
+
+/**
+ * The tensors owned by an environment, the ones of its last output.
+ * They are disposed when the environment returns its next output or is disposed.
+ */
+export class OwnedTensors {
+  private tensors: tf.Tensor[] = [];
+
+  /**
+   * Takes ownership of the tensors of a new output, the tensors of the previous output are disposed
+   *
+   * @param output - The new output
+   * @param borrowed - Values whose tensors belong to someone else, like the output of a wrapped environment
+   * @returns The output
+   */
+  replace<T>(output: T, ...borrowed: unknown[]): T {
+    const borrowedTensors = new Set(getTensors(borrowed));
+    const tensors = getTensors(output).filter(
+      (tensor) => !borrowedTensors.has(tensor)
+    );
+
+    disposeTensors(this.tensors, tensors);
+    this.tensors = tensors;
+    return output;
+  }
+
+  /**
+   * Disposes the owned tensors
+   */
+  dispose(): void {
+    disposeTensors(this.tensors);
+    this.tensors = [];
+  }
+}
@@ -0,0 +1,449 @@
+import { RenderFrame } from '../core';
+import { make, MakeOverrides } from '../envs';
+import { VectorEnv, getSeeds, getAttrValues } from './vector_env';
+import { batchSpace, concatenate, iterate } from './utils';
+import { disposeTensors } from '../utils';
+import { AsyncWorkerData, encodeValue, decodeValue } from './async_worker';
+
+/**
+ * A sub-environment of `AsyncVectorEnv`, created in its worker with `make`
+ */
+export interface AsyncEnvFn {
+  /** The id of the registered environment */
+  id: string;
+  /** The overrides passed to `make`, must be JSON serializable */
+  overrides?: MakeOverrides;
+}
+
+/**
+ * The handle of a worker used by `AsyncVectorEnv` to send commands
+ */
+export interface WorkerHandle {
+  postMessage(message: any, transfer: ArrayBuffer[]): void;
+  terminate(): void;
+}
+
+/**
+ * The callbacks a worker calls with its responses and failures
+ */
+export interface WorkerListeners {
+  onMessage(message: any): void;
+  onError(error: Error): void;
+  onExit(code: number): void;
+}
+
+/**
+ * A function that starts a worker running `runWorker` with the worker data
+ */
+export type WorkerFactory = (
+  workerData: AsyncWorkerData,
+  listeners: WorkerListeners
+) => WorkerHandle | Promise<WorkerHandle>;
+
+/**
+ * The options of `AsyncVectorEnv`
+ */
+export interface AsyncVectorEnvOptions {
+  /** URLs of modules imported by every worker before making its environment, for instance to register custom environments */
+  imports?: string[];
+  /** The URL of the gymjs module imported by the workers, the current module by default */
+  libraryUrl?: string;
+  /** Starts the workers, `worker_threads` on Node and Web Workers in the browser by default */
+  workerFactory?: WorkerFactory;
+}
+
+interface PendingRequest {
+  resolve(result: any): void;
+  reject(error: Error): void;
+}
+
+/**
+ * A vectorized environment that runs each sub-environment in its own worker.
+ * Observations are sent back from the workers as transferable typed arrays.
+ */
+export class AsyncVectorEnv<ObsType = any, ActType = any> extends VectorEnv<
+  ObsType,
+  ActType
+> {
+  private workersPromise: Promise<WorkerHandle[]>;
+  private pendingRequests: PendingRequest[][];
+  private crashes: (Error | null)[];
+  private pendingCommand: 'reset' | 'step' | null;
+  private pendingResults: Promise<any[]> | null;
+
+  /**
+   * Creates an instance of AsyncVectorEnv.
+   *
+   * @param envFns - The ids of the registered sub-environments, optionally with overrides passed to `make`
+   * @param options - Options of the workers
+   */
+  constructor(
+    envFns: (string | AsyncEnvFn)[],
+    options: AsyncVectorEnvOptions = {}
+  ) {
+    if (envFns.length === 0) {
+      throw new Error('At least one environment function must be provided!');
+    }
+
+    const fns = envFns.map((envFn) =>
+      typeof envFn === 'string' ? { id: envFn } : envFn
+    );
+
+    // The spaces are taken from an environment created on the main thread
+    const dummyEnv = make(fns[0].id, fns[0].overrides);
+    const singleObservationSpace = dummyEnv.observationSpace;
+    const singleActionSpace = dummyEnv.actionSpace;
+    const renderMode = dummyEnv.renderMode;
+    dummyEnv.close();
+
+    super(
+      fns.length,
+      singleObservationSpace,
+      singleActionSpace,
+      batchSpace(singleObservationSpace, fns.length),
+      batchSpace(singleActionSpace, fns.length),
+      renderMode
+    );
+
+    this.pendingRequests = fns.map(() => []);
+    this.crashes = fns.map(() => null);
+    this.pendingCommand = null;
+    this.pendingResults = null;
+
+    const workerFactory = options.workerFactory ?? defaultWorkerFactory;
+    const libraryUrl = options.libraryUrl ?? import.meta.url;
+    this.workersPromise = Promise.all(
+      fns.map((envFn, index) =>
+        workerFactory(
+          {
+            id: envFn.id,
+            overrides: envFn.overrides ?? {},
+            imports: options.imports ?? [],
+            libraryUrl,
+          },
+          {
+            onMessage: (message) => this.onMessage(index, message),
+            onError: (error) => this.onCrash(index, error),
+            onExit: (code) =>
+              this.onCrash(
+                index,
+                new Error(`Worker exited unexpectedly with code ${code}`)
+              ),
+          }
+        )
+      )
+    );
+    // Errors are reported on the first command
+    this.workersPromise.catch(() => {});
+  }
+
+  /**
+   * Resets all the sub-environments.
+   *
+   * @param options - additional information to specify how the sub-environments reset,
+   * `seed` is either a number (sub-environment `i` is seeded with `seed + i`) or an array of seeds
+   * @returns An array of the batched observations and the infos of the sub-environments
+   */
+  async reset(
+    options?: Record<string, any>
+  ): Promise<[ObsType, (Record<string, any> | null)[]]> {
+    this.resetAsync(options);
+    return await this.resetWait();
+  }
+
+  /**
+   * Sends the reset command to the workers without waiting for the results.
+   *
+   * @param options - additional information to specify how the sub-environments reset
+   */
+  resetAsync(options?: Record<string, any>): void {
+    this.assertNotPending();
+    const seeds = getSeeds(options?.seed, this.numEnvs);
+
+    this.setPending(
+      'reset',
+      seeds.map((seed, index) =>
+        this.request(index, 'reset', [{ ...options, seed }])
+      )
+    );
+  }
+
+  /**
+   * Waits for the results of `resetAsync`.
+   *
+   * @returns An array of the batched observations and the infos of the sub-environments
+   */
+  async resetWait(): Promise<[ObsType, (Record<string, any> | null)[]]> {
+    const results = await this.takePending('reset');
+
+    const observations = results.map(([obs]) => obs);
+    const infos = results.map(([, info]) => info);
+    return [this.batchObservations(observations), infos];
+  }
+
+  /**
+   * Takes one step in every sub-environment, sub-environments that finished on the previous step are reset instead
+   *
+   * @param actions - The batched actions, one for each sub-environment
+   * @returns A tuple of the batched observations, rewards, terminations, truncations and infos of the sub-environments
+   */
+  async step(
+    actions: ActType
+  ): Promise<
+    [ObsType, number[], boolean[], boolean[], (Record<string, any> | null)[]]
+  > {
+    this.stepAsync(actions);
+    return await this.stepWait();
+  }
+
+  /**
+   * Sends the actions to the workers without waiting for the results.
+   *
+   * @param actions - The batched actions, one for each sub-environment
+   */
+  stepAsync(actions: ActType): void {
+    this.assertNotPending();
+    const envActions = iterate(this.singleActionSpace, actions, this.numEnvs);
+
+    this.setPending(
+      'step',
+      envActions.map((action, index) =>
+        this.request(index, 'step', [action]).finally(() =>
+          disposeTensors(action, actions)
+        )
+      )
+    );
+  }
+
+  /**
+   * Waits for the results of `stepAsync`.
+   *
+   * @returns A tuple of the batched observations, rewards, terminations, truncations and infos of the sub-environments
+   */
+  async stepWait(): Promise<
+    [ObsType, number[], boolean[], boolean[], (Record<string, any> | null)[]]
+  > {
+    const results = await this.takePending('step');
+
+    return [
+      this.batchObservations(results.map(([obs]) => obs)),
+      results.map(([, reward]) => reward),
+      results.map(([, , terminated]) => terminated),
+      results.map(([, , , truncated]) => truncated),
+      results.map(([, , , , info]) => info),
+    ];
+  }
+
+  /**
+   * Renders the sub-environments.
+   *
+   * @returns The renders of the sub-environments
+   */
+  async render(): Promise<(void | RenderFrame)[]> {
+    return this.requestAll('render', () => []);
+  }
+
+  /**
+   * Calls a method of every sub-environment, searching through their wrappers.
+   *
+   * @param name - The name of the method, if the attribute isn't a method its value is returned
+   * @param args - The arguments of the method, must be serializable
+   * @returns The results of every sub-environment
+   */
+  async call(name: string, ...args: any[]): Promise<any[]> {
+    return this.requestAll('call', () => [name, args]);
+  }
+
+  /**
+   * Gets an attribute of every sub-environment, searching through their wrappers.
+   *
+   * @param name - The name of the attribute
+   * @returns The values of every sub-environment
+   */
+  async getAttr(name: string): Promise<any[]> {
+    return this.requestAll('getAttr', () => [name]);
+  }
+
+  /**
+   * Sets an attribute of every sub-environment, searching through their wrappers.
+   *
+   * @param name - The name of the attribute
+   * @param values - Either an array with a value for each sub-environment or a value for all of them
+   */
+  async setAttr(name: string, values: any): Promise<void> {
+    const envValues = getAttrValues(values, this.numEnvs);
+    await this.requestAll('setAttr', (index) => [name, envValues[index]]);
+  }
+
+  /**
+   * Closes the sub-environments and terminates the workers.
+   */
+  protected closeExtras(): void {
+    this.workersPromise
+      .then((workers) =>
+        workers.forEach((worker, index) => {
+          if (this.crashes[index] !== null) {
+            worker.terminate();
+            return;
+          }
+
+          this.request(index, 'close', [])
+            .catch(() => {})
+            .finally(() => worker.terminate());
+        })
+      )
+      .catch(() => {});
+  }
+
+  private assertNotPending(): void {
+    if (this.closed) {
+      throw new Error(
+        'Trying to operate on `AsyncVectorEnv` after it was closed.'
+      );
+    }
+
+    if (this.pendingCommand !== null) {
+      throw new Error(
+        `Calling \`${this.pendingCommand}Async\` while waiting for a pending call to \`${this.pendingCommand}Wait\` to complete.`
+      );
+    }
+  }
+
+  private setPending(command: 'reset' | 'step', results: Promise<any>[]) {
+    this.pendingCommand = command;
+    this.pendingResults = Promise.all(results);
+    // Errors are reported by the wait call
+    this.pendingResults.catch(() => {});
+  }
+
+  private async takePending(command: 'reset' | 'step'): Promise<any[]> {
+    if (this.pendingCommand !== command || this.pendingResults === null) {
+      throw new Error(
+        `Calling \`${command}Wait\` without any prior call to \`${command}Async\`.`
+      );
+    }
+
+    const pendingResults = this.pendingResults;
+    this.pendingCommand = null;
+    this.pendingResults = null;
+    return await pendingResults;
+  }
+
+  private async requestAll(
+    command: string,
+    getArgs: (index: number) => any[]
+  ): Promise<any[]> {
+    this.assertNotPending();
+    return await Promise.all(
+      Array.from({ length: this.numEnvs }, (_, index) =>
+        this.request(index, command, getArgs(index))
+      )
+    );
+  }
+
+  // Concatenates the observations decoded from the workers, the batch is owned by the vector environment
+  private batchObservations(observations: any[]): ObsType {
+    const batch = concatenate(this.singleObservationSpace, observations);
+    disposeTensors(observations, batch);
+    return this.own(batch);
+  }
+
+  private async request(
+    index: number,
+    command: string,
+    args: any[]
+  ): Promise<any> {
+    const workers = await this.workersPromise;
+
+    return new Promise((resolve, reject) => {
+      const crash = this.crashes[index];
+      if (crash !== null) {
+        reject(crash);
+        return;
+      }
+
+      this.pendingRequests[index].push({ resolve, reject });
+      const transfer: ArrayBuffer[] = [];
+      workers[index].postMessage(
+        { command, args: encodeValue(args, transfer) },
+        transfer
+      );
+    });
+  }
+
+  private onMessage(index: number, message: any): void {
+    const request = this.pendingRequests[index].shift();
+    if (request === undefined) {
+      return;
+    }
+
+    if (message.success) {
+      request.resolve(decodeValue(message.result));
+    } else {
+      const error = new Error(
+        `Error in sub-environment ${index}: ${message.error.message}`
+      );
+      error.stack = message.error.stack;
+      request.reject(error);
+    }
+  }
+
+  private onCrash(index: number, error: Error): void {
+    if (this.closed || this.crashes[index] !== null) {
+      return;
+    }
+
+    const crash = new Error(
+      `Worker of sub-environment ${index} crashed: ${error.message}`
+    );
+    this.crashes[index] = crash;
+
+    const requests = this.pendingRequests[index];
+    this.pendingRequests[index] = [];
+    requests.forEach((request) => request.reject(crash));
+  }
+}
+
+async function defaultWorkerFactory(
+  workerData: AsyncWorkerData,
+  listeners: WorkerListeners
+): Promise<WorkerHandle> {
+  const isNode = typeof process === 'object';
+  const data = JSON.stringify(workerData);
+
+  if (isNode) {
+    const { Worker } = await import('node:worker_threads');
+    const source = [
+      "import { parentPort } from 'node:worker_threads';",
+      `const workerData = ${data};`,
+      'const gym = await import(workerData.libraryUrl);',
+      'gym.vector.runWorker(parentPort, workerData);',
+    ].join('\n');
+
+    const worker = new Worker(
+      new URL(`data:text/javascript,${encodeURIComponent(source)}`)
+    );
+    worker.on('message', listeners.onMessage);
+    worker.on('error', listeners.onError);
+    worker.on('exit', listeners.onExit);
+    return worker;
+  }
+
+  const source = [
+    `const workerData = ${data};`,
+    'const gym = await import(workerData.libraryUrl);',
+    'gym.vector.runWorker(self, workerData);',
+  ].join('\n');
+
+  const url = URL.createObjectURL(
+    new Blob([source], { type: 'text/javascript' })
+  );
+  const worker = new Worker(url, { type: 'module' });
+  worker.addEventListener('message', (event) =>
+    listeners.onMessage(event.data)
+  );
+  worker.addEventListener('error', (event) =>
+    listeners.onError(new Error(event.message))
+  );
+  return worker;
+}
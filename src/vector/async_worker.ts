@@ -0,0 +1,192 @@
+import * as tf from '@tensorflow/tfjs';
+
+import { BaseEnv } from '../core';
+import { make, MakeOverrides } from '../envs';
+import { findAttributeOwner } from './vector_env';
+import { disposeTensors } from '../utils';
+
+/**
+ * The data a worker needs to create its sub-environment
+ */
+export interface AsyncWorkerData {
+  /** The id of the registered environment */
+  id: string;
+  /** The overrides passed to `make`, must be JSON serializable */
+  overrides: MakeOverrides;
+  /** URLs of modules imported before making the environment, for instance to register custom environments */
+  imports: string[];
+  /** The URL of the gymjs module imported by the worker */
+  libraryUrl: string;
+}
+
+/**
+ * A tensor sent between threads as a typed array
+ */
+interface EncodedTensor {
+  __tensor: true;
+  values: tf.TypedArray | string[];
+  shape: number[];
+  dtype: tf.DataType;
+}
+
+/**
+ * Replaces the tensors of a value with typed arrays that can be transferred to another thread
+ *
+ * @param value - The value to encode, tensors can be nested in arrays and objects
+ * @param transfer - The buffers of the typed arrays are added to it
+ * @returns The encoded value
+ */
+export function encodeValue(value: any, transfer: ArrayBuffer[]): any {
+  if (value instanceof tf.Tensor) {
+    const values = value.dataSync().slice();
+    if (!Array.isArray(values)) {
+      transfer.push(values.buffer as ArrayBuffer);
+    }
+
+    const encoded: EncodedTensor = {
+      __tensor: true,
+      values,
+      shape: value.shape,
+      dtype: value.dtype,
+    };
+    return encoded;
+  } else if (Array.isArray(value)) {
+    return value.map((item) => encodeValue(item, transfer));
+  } else if (isPlainObject(value)) {
+    const encoded: Record<string, any> = {};
+    Object.keys(value).forEach((key) => {
+      encoded[key] = encodeValue(value[key], transfer);
+    });
+    return encoded;
+  }
+  return value;
+}
+
+/**
+ * Replaces the typed arrays of a value encoded by `encodeValue` with tensors
+ *
+ * @param value - The encoded value
+ * @returns The decoded value
+ */
+export function decodeValue(value: any): any {
+  if (isPlainObject(value) && value.__tensor === true) {
+    const encoded = value as EncodedTensor;
+    return tf.tensor(encoded.values, encoded.shape, encoded.dtype);
+  } else if (Array.isArray(value)) {
+    return value.map((item) => decodeValue(item));
+  } else if (isPlainObject(value)) {
+    const decoded: Record<string, any> = {};
+    Object.keys(value).forEach((key) => {
+      decoded[key] = decodeValue(value[key]);
+    });
+    return decoded;
+  }
+  return value;
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+/**
+ * Runs a sub-environment of `AsyncVectorEnv`, answering the commands received on the port
+ *
+ * @param port - The port to the main thread, either a `worker_threads` port or the global scope of a Web Worker
+ * @param workerData - The data needed to create the sub-environment
+ */
+export function runWorker(port: any, workerData: AsyncWorkerData): void {
+  const envPromise = (async () => {
+    for (const url of workerData.imports) {
+      await import(/* @vite-ignore */ url);
+    }
+    return make(workerData.id, workerData.overrides);
+  })();
+  // Errors are reported on the first command
+  envPromise.catch(() => {});
+
+  let autoreset = false;
+
+  const handlers: Record<
+    string,
+    (env: BaseEnv<any, any>, ...args: any[]) => Promise<any>
+  > = {
+    reset: async (env, options?: Record<string, any>) => {
+      autoreset = false;
+      return env.reset(options);
+    },
+    step: async (env, action) => {
+      let result: [any, number, boolean, boolean, Record<string, any> | null];
+      if (autoreset) {
+        const [obs, info] = env.reset();
+        result = [obs, 0.0, false, false, info];
+      } else {
+        result = await env.step(action);
+      }
+      autoreset = result[2] || result[3];
+      return result;
+    },
+    render: async (env) => env.render(),
+    call: async (env, name: string, args: any[]) => {
+      const owner = findAttributeOwner(env, name);
+      if (typeof owner[name] === 'function') {
+        return await owner[name](...args);
+      }
+      return owner[name];
+    },
+    getAttr: async (env, name: string) => findAttributeOwner(env, name)[name],
+    setAttr: async (env, name: string, value) => {
+      findAttributeOwner(env, name)[name] = value;
+    },
+    close: async (env) => env.close(),
+  };
+
+  const respond = (message: Record<string, any>) => {
+    const transfer: ArrayBuffer[] = [];
+    const encoded = encodeValue(message, transfer);
+    port.postMessage(encoded, transfer);
+  };
+
+  let queue = Promise.resolve();
+  const onMessage = (request: { command: string; args: any[] }) => {
+    queue = queue.then(async () => {
+      try {
+        if (!(request.command in handlers)) {
+          throw new Error(`Received unknown command \`${request.command}\``);
+        }
+
+        const env = await envPromise;
+        const args = decodeValue(request.args);
+        let result: any;
+        try {
+          result = await handlers[request.command](env, ...args);
+        } finally {
+          // The actions are owned by the worker once decoded
+          if (request.command === 'step') {
+            disposeTensors(args);
+          }
+        }
+        respond({ success: true, result });
+        // The rendered frames are owned by the caller, they were copied in the response
+        if (request.command === 'render') {
+          disposeTensors(result);
+        }
+      } catch (error) {
+        const { name, message, stack } =
+          error instanceof Error ? error : new Error(String(error));
+        port.postMessage({ success: false, error: { name, message, stack } });
+      }
+    });
+  };
+
+  if (typeof port.on === 'function') {
+    port.on('message', onMessage);
+  } else {
+    port.addEventListener('message', (event: MessageEvent) =>
+      onMessage(event.data)
+    );
+  }
+}
@@ -0,0 +1,15 @@
+import { VectorEnv } from './vector_env';
+import { SyncVectorEnv } from './sync_vector_env';
+import { AsyncVectorEnv } from './async_vector_env';
+import { runWorker } from './async_worker';
+import { batchSpace, concatenate, iterate } from './utils';
+
+export {
+  VectorEnv,
+  SyncVectorEnv,
+  AsyncVectorEnv,
+  runWorker,
+  batchSpace,
+  concatenate,
+  iterate,
+};
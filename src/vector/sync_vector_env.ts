@@ -0,0 +1,223 @@
+import { BaseEnv, RenderFrame } from '../core';
+import {
+  VectorEnv,
+  getSeeds,
+  getAttrValues,
+  findAttributeOwner,
+} from './vector_env';
+import { batchSpace, concatenate, iterate } from './utils';
+import { disposeTensors } from '../utils';
+
+/**
+ * A vectorized environment that runs its sub-environments sequentially
+ */
+export class SyncVectorEnv<ObsType = any, ActType = any> extends VectorEnv<
+  ObsType,
+  ActType
+> {
+  /** The sub-environments */
+  public envs: BaseEnv<any, any>[];
+  private autoresetEnvs: boolean[];
+
+  /**
+   * Creates an instance of SyncVectorEnv.
+   *
+   * @param envFns - Functions that create the sub-environments
+   */
+  constructor(envFns: (() => BaseEnv<any, any>)[]) {
+    if (envFns.length === 0) {
+      throw new Error('At least one environment function must be provided!');
+    }
+
+    const envs = envFns.map((envFn) => envFn());
+    const singleObservationSpace = envs[0].observationSpace;
+    const singleActionSpace = envs[0].actionSpace;
+
+    envs.forEach((env) => {
+      if (!env.observationSpace.equals(singleObservationSpace)) {
+        throw new Error(
+          'All sub-environments must have the same observation space!'
+        );
+      }
+      if (!env.actionSpace.equals(singleActionSpace)) {
+        throw new Error(
+          'All sub-environments must have the same action space!'
+        );
+      }
+    });
+
+    super(
+      envs.length,
+      singleObservationSpace,
+      singleActionSpace,
+      batchSpace(singleObservationSpace, envs.length),
+      batchSpace(singleActionSpace, envs.length),
+      envs[0].renderMode
+    );
+
+    this.envs = envs;
+    this.autoresetEnvs = new Array(envs.length).fill(false);
+  }
+
+  /**
+   * Resets all the sub-environments.
+   *
+   * @param options - additional information to specify how the sub-environments reset,
+   * `seed` is either a number (sub-environment `i` is seeded with `seed + i`) or an array of seeds
+   * @returns An array of the batched observations and the infos of the sub-environments
+   */
+  async reset(
+    options?: Record<string, any>
+  ): Promise<[ObsType, (Record<string, any> | null)[]]> {
+    const seeds = getSeeds(options?.seed, this.numEnvs);
+
+    const observations: any[] = [];
+    const infos: (Record<string, any> | null)[] = [];
+    this.envs.forEach((env, index) => {
+      const [obs, info] = env.reset({ ...options, seed: seeds[index] });
+      observations.push(obs);
+      infos.push(info);
+    });
+
+    this.autoresetEnvs.fill(false);
+
+    return [
+      this.own(concatenate(this.singleObservationSpace, observations)),
+      infos,
+    ];
+  }
+
+  /**
+   * Takes one step in every sub-environment, sub-environments that finished on the previous step are reset instead
+   *
+   * @param actions - The batched actions, one for each sub-environment
+   * @returns A tuple of the batched observations, rewards, terminations, truncations and infos of the sub-environments
+   */
+  async step(
+    actions: ActType
+  ): Promise<
+    [ObsType, number[], boolean[], boolean[], (Record<string, any> | null)[]]
+  > {
+    const envActions = iterate(this.singleActionSpace, actions, this.numEnvs);
+    try {
+      return await this.stepEnvs(envActions);
+    } finally {
+      disposeTensors(envActions, actions);
+    }
+  }
+
+  /**
+   * Renders the sub-environments.
+   *
+   * @returns The renders of the sub-environments
+   */
+  async render(): Promise<(void | RenderFrame)[]> {
+    const renders: (void | RenderFrame)[] = [];
+    for (const env of this.envs) {
+      renders.push(await env.render());
+    }
+    return renders;
+  }
+
+  /**
+   * Calls a method of every sub-environment, searching through their wrappers.
+   *
+   * @param name - The name of the method, if the attribute isn't a method its value is returned
+   * @param args - The arguments of the method
+   * @returns The results of every sub-environment
+   */
+  async call(name: string, ...args: any[]): Promise<any[]> {
+    const results: any[] = [];
+    for (const env of this.envs) {
+      const owner = findAttributeOwner(env, name);
+      if (typeof owner[name] === 'function') {
+        results.push(await owner[name](...args));
+      } else {
+        results.push(owner[name]);
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Gets an attribute of every sub-environment, searching through their wrappers.
+   *
+   * @param name - The name of the attribute
+   * @returns The values of every sub-environment
+   */
+  async getAttr(name: string): Promise<any[]> {
+    return this.envs.map((env) => findAttributeOwner(env, name)[name]);
+  }
+
+  /**
+   * Sets an attribute of every sub-environment, searching through their wrappers.
+   *
+   * @param name - The name of the attribute
+   * @param values - Either an array with a value for each sub-environment or a value for all of them
+   */
+  async setAttr(name: string, values: any): Promise<void> {
+    getAttrValues(values, this.numEnvs).forEach((value, index) => {
+      findAttributeOwner(this.envs[index], name)[name] = value;
+    });
+  }
+
+  /**
+   * Disposes the tensors owned by the vector environment and the sub-environments.
+   */
+  dispose(): void {
+    super.dispose();
+    this.envs.forEach((env) => env.dispose());
+  }
+
+  /**
+   * Closes all the sub-environments.
+   */
+  protected closeExtras(): void {
+    this.envs.forEach((env) => env.close());
+  }
+
+  // Steps or resets every sub-environment with its action
+  private async stepEnvs(
+    envActions: any[]
+  ): Promise<
+    [ObsType, number[], boolean[], boolean[], (Record<string, any> | null)[]]
+  > {
+    const observations: any[] = [];
+    const rewards: number[] = [];
+    const terminations: boolean[] = [];
+    const truncations: boolean[] = [];
+    const infos: (Record<string, any> | null)[] = [];
+
+    for (let index = 0; index < this.numEnvs; index++) {
+      const env = this.envs[index];
+
+      if (this.autoresetEnvs[index]) {
+        const [obs, info] = env.reset();
+        observations.push(obs);
+        rewards.push(0.0);
+        terminations.push(false);
+        truncations.push(false);
+        infos.push(info);
+      } else {
+        const [obs, reward, terminated, truncated, info] = await env.step(
+          envActions[index]
+        );
+        observations.push(obs);
+        rewards.push(reward);
+        terminations.push(terminated);
+        truncations.push(truncated);
+        infos.push(info);
+      }
+
+      this.autoresetEnvs[index] = terminations[index] || truncations[index];
+    }
+
+    return [
+      this.own(concatenate(this.singleObservationSpace, observations)),
+      rewards,
+      terminations,
+      truncations,
+      infos,
+    ];
+  }
+}
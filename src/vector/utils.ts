@@ -0,0 +1,146 @@
+import * as tf from '@tensorflow/tfjs';
+
+import {
+  Space,
+  Box,
+  Discrete,
+  MultiDiscrete,
+  MultiBinary,
+  Dict,
+  Tuple,
+} from '../spaces';
+
+/**
+ * Creates the space of a batch of `n` values of a space
+ *
+ * @param space - The space of a single value
+ * @param n - The number of values in a batch
+ * @returns The batched space, with a leading dimension of size `n` for Box, MultiDiscrete and MultiBinary
+ */
+export function batchSpace(space: Space<any>, n: number): Space<any> {
+  if (space instanceof Box) {
+    const shape = [n, ...space.shape];
+    if (space.low instanceof tf.Tensor && space.high instanceof tf.Tensor) {
+      return new Box(
+        tileTensor(space.low, n),
+        tileTensor(space.high, n),
+        shape,
+        space.dtype
+      );
+    }
+    return new Box(space.low, space.high, shape, space.dtype);
+  } else if (space instanceof Discrete) {
+    return new MultiDiscrete(
+      tf.fill([n], space.n, 'int32'),
+      tf.fill([n], space.start, 'int32')
+    );
+  } else if (space instanceof MultiDiscrete) {
+    return new MultiDiscrete(
+      tileTensor(space.nVec, n),
+      tileTensor(space.start, n)
+    );
+  } else if (space instanceof MultiBinary) {
+    return new MultiBinary([n, ...space.shape]);
+  } else if (space instanceof Dict) {
+    const spaces: Record<string, Space<any>> = {};
+    Object.keys(space.spaces).forEach((key) => {
+      spaces[key] = batchSpace(space.spaces[key], n);
+    });
+    return new Dict(spaces);
+  } else if (space instanceof Tuple) {
+    return new Tuple(space.spaces.map((subspace) => batchSpace(subspace, n)));
+  } else {
+    throw new Error(`Batching is not supported for ${space.constructor.name}`);
+  }
+}
+
+/**
+ * Concatenates values of a space into a batch
+ *
+ * @param space - The space of a single value
+ * @param items - The values to concatenate
+ * @returns The batch of values, which is in the batched space
+ */
+export function concatenate(space: Space<any>, items: any[]): any {
+  if (
+    space instanceof Box ||
+    space instanceof MultiDiscrete ||
+    space instanceof MultiBinary
+  ) {
+    return tf.stack(items as tf.Tensor[]);
+  } else if (space instanceof Discrete) {
+    return tf.tensor(items as number[], [items.length], 'int32');
+  } else if (space instanceof Dict) {
+    const batch: Record<string, any> = {};
+    Object.keys(space.spaces).forEach((key) => {
+      batch[key] = concatenate(
+        space.spaces[key],
+        items.map((item) => item[key])
+      );
+    });
+    return batch;
+  } else if (space instanceof Tuple) {
+    return space.spaces.map((subspace, index) =>
+      concatenate(
+        subspace,
+        items.map((item) => item[index])
+      )
+    );
+  } else {
+    throw new Error(
+      `Concatenation is not supported for ${space.constructor.name}`
+    );
+  }
+}
+
+/**
+ * Splits a batch of values of a space into the individual values
+ *
+ * @param space - The space of a single value
+ * @param batch - The batch of values
+ * @param n - The number of values in the batch
+ * @returns The individual values, each in the space
+ */
+export function iterate(space: Space<any>, batch: any, n: number): any[] {
+  if (
+    space instanceof Box ||
+    space instanceof MultiDiscrete ||
+    space instanceof MultiBinary
+  ) {
+    return checkLength(tf.unstack(batch as tf.Tensor), n);
+  } else if (space instanceof Discrete) {
+    const values =
+      batch instanceof tf.Tensor ? batch.dataSync() : (batch as number[]);
+    return checkLength(Array.from(values), n);
+  } else if (space instanceof Dict) {
+    const items: Record<string, any>[] = Array.from({ length: n }, () => ({}));
+    Object.keys(space.spaces).forEach((key) => {
+      iterate(space.spaces[key], batch[key], n).forEach((value, index) => {
+        items[index][key] = value;
+      });
+    });
+    return items;
+  } else if (space instanceof Tuple) {
+    const subItems = space.spaces.map((subspace, index) =>
+      iterate(subspace, batch[index], n)
+    );
+    return Array.from({ length: n }, (_, index) =>
+      subItems.map((values) => values[index])
+    );
+  } else {
+    throw new Error(`Iteration is not supported for ${space.constructor.name}`);
+  }
+}
+
+function tileTensor(tensor: tf.Tensor, n: number): tf.Tensor {
+  return tf.tidy(() => tf.stack(new Array(n).fill(tensor)));
+}
+
+function checkLength(items: any[], n: number): any[] {
+  if (items.length !== n) {
+    throw new Error(
+      `Batch size (${items.length}) doesn't match the number of environments (${n})`
+    );
+  }
+  return items;
+}
@@ -0,0 +1,190 @@
+import { BaseEnv, RenderFrame } from '../core';
+import { Space } from '../spaces';
+import { OwnedTensors } from '../utils';
+
+/**
+ * An abstract class that represents several copies of an environment stepped in lockstep.
+ * Sub-environments reset automatically on the step after they terminate or truncate,
+ * in the same way as the `Autoreset` wrapper.
+ * The batched observations are owned by the vector environment until its next reset, step or dispose,
+ * like the observations of a `BaseEnv`.
+ */
+export abstract class VectorEnv<ObsType = any, ActType = any> {
+  /** The number of sub-environments */
+  public numEnvs: number;
+  /** The observation space of a single sub-environment */
+  public singleObservationSpace: Space<any>;
+  /** The action space of a single sub-environment */
+  public singleActionSpace: Space<any>;
+  /** The batched observation space of the sub-environments */
+  public observationSpace: Space<ObsType>;
+  /** The batched action space of the sub-environments */
+  public actionSpace: Space<ActType>;
+  /** The render mode of the sub-environments */
+  public renderMode: string | null;
+  /** If the vector environment was closed */
+  public closed: boolean;
+  /** The tensors of the last batched observations */
+  private readonly ownedTensors = new OwnedTensors();
+
+  constructor(
+    numEnvs: number,
+    singleObservationSpace: Space<any>,
+    singleActionSpace: Space<any>,
+    observationSpace: Space<ObsType>,
+    actionSpace: Space<ActType>,
+    renderMode: string | null
+  ) {
+    this.numEnvs = numEnvs;
+    this.singleObservationSpace = singleObservationSpace;
+    this.singleActionSpace = singleActionSpace;
+    this.observationSpace = observationSpace;
+    this.actionSpace = actionSpace;
+    this.renderMode = renderMode;
+    this.closed = false;
+  }
+
+  /**
+   * Resets all the sub-environments.
+   *
+   * @param options - additional information to specify how the sub-environments reset,
+   * `seed` is either a number (sub-environment `i` is seeded with `seed + i`) or an array of seeds
+   * @returns An array of the batched observations and the infos of the sub-environments
+   */
+  abstract reset(
+    options?: Record<string, any>
+  ): Promise<[ObsType, (Record<string, any> | null)[]]>;
+
+  /**
+   * Takes one step in every sub-environment
+   *
+   * @param actions - The batched actions, one for each sub-environment
+   * @returns A tuple of the batched observations, rewards, terminations, truncations and infos of the sub-environments
+   */
+  abstract step(
+    actions: ActType
+  ): Promise<
+    [ObsType, number[], boolean[], boolean[], (Record<string, any> | null)[]]
+  >;
+
+  /**
+   * Renders the sub-environments.
+   *
+   * @returns The renders of the sub-environments
+   */
+  abstract render(): Promise<(void | RenderFrame)[]>;
+
+  /**
+   * Calls a method of every sub-environment, searching through their wrappers.
+   *
+   * @param name - The name of the method, if the attribute isn't a method its value is returned
+   * @param args - The arguments of the method
+   * @returns The results of every sub-environment
+   */
+  abstract call(name: string, ...args: any[]): Promise<any[]>;
+
+  /**
+   * Gets an attribute of every sub-environment, searching through their wrappers.
+   *
+   * @param name - The name of the attribute
+   * @returns The values of every sub-environment
+   */
+  abstract getAttr(name: string): Promise<any[]>;
+
+  /**
+   * Sets an attribute of every sub-environment, searching through their wrappers.
+   *
+   * @param name - The name of the attribute
+   * @param values - Either an array with a value for each sub-environment or a value for all of them
+   */
+  abstract setAttr(name: string, values: any): Promise<void>;
+
+  /**
+   * Closes the sub-environments, does nothing if already closed.
+   */
+  close(): void {
+    if (this.closed) {
+      return;
+    }
+
+    this.closeExtras();
+    this.closed = true;
+  }
+
+  /**
+   * Disposes the tensors owned by the vector environment, the batched observations it returned last.
+   */
+  dispose(): void {
+    this.ownedTensors.dispose();
+  }
+
+  /**
+   * Cleans up the resources of the vector environment.
+   */
+  protected abstract closeExtras(): void;
+
+  /**
+   * Takes ownership of the tensors of the batched observations, the tensors of the previous ones are disposed.
+   *
+   * @param output - The batched observations
+   * @returns The batched observations
+   */
+  protected own<T>(output: T): T {
+    return this.ownedTensors.replace(output);
+  }
+}
+
+/**
+ * Gets the reset seed of each sub-environment from the reset options
+ *
+ * @param seed - Either a seed (sub-environment `i` is seeded with `seed + i`), an array of seeds or undefined
+ * @param numEnvs - The number of sub-environments
+ * @returns The seed of every sub-environment
+ */
+export function getSeeds(
+  seed: number | (number | null)[] | null | undefined,
+  numEnvs: number
+): (number | null)[] {
+  if (seed === undefined || seed === null) {
+    return new Array(numEnvs).fill(null);
+  } else if (typeof seed === 'number') {
+    return Array.from({ length: numEnvs }, (_, index) => seed + index);
+  } else if (seed.length !== numEnvs) {
+    throw new Error(
+      `Number of seeds (${seed.length}) doesn't match the number of environments (${numEnvs})`
+    );
+  }
+  return seed;
+}
+
+/**
+ * Finds the environment in a wrapper chain that has an attribute
+ *
+ * @param env - The outermost environment or wrapper
+ * @param name - The name of the attribute
+ * @returns The first environment or wrapper of the chain with the attribute, the outermost one if none has it
+ */
+export function findAttributeOwner(env: BaseEnv<any, any>, name: string): any {
+  let current: any = env;
+  while (current !== undefined) {
+    if (name in current) {
+      return current;
+    }
+    current = current.env;
+  }
+  return env;
+}
+
+/**
+ * Gets the value of an attribute of each sub-environment for `setAttr`
+ *
+ * @param values - Either an array with a value for each sub-environment or a value for all of them
+ * @param numEnvs - The number of sub-environments
+ * @returns The value of every sub-environment
+ */
+export function getAttrValues(values: any, numEnvs: number): any[] {
+  if (Array.isArray(values) && values.length === numEnvs) {
+    return values;
+  }
+  return new Array(numEnvs).fill(values);
+}
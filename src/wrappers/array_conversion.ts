@@ -0,0 +1,128 @@
+import { BaseEnv, Wrapper } from '../core';
+import { convertSpace, convertValue } from '../spaces';
+import { OwnedTensors } from '../utils';
+
+/**
+ * A wrapper that converts the tensors of an environment to typed arrays,
+ * the observations of `Box`, `MultiDiscrete` and `MultiBinary` spaces are copied into typed arrays
+ * and the typed array actions are converted to tensors before stepping the environment
+ */
+export class TensorToArray<ObsType, ActType> extends Wrapper<
+  any,
+  any,
+  ObsType,
+  ActType
+> {
+  /** The tensors of the last converted action */
+  private readonly actionTensors = new OwnedTensors();
+
+  /**
+   * Creates an instance of TensorToArray.
+   *
+   * @param env - The environment to wrap, its spaces are converted to the array backend
+   */
+  constructor(env: BaseEnv<ObsType, ActType>) {
+    super(env);
+    this.observationSpace = convertSpace(env.observationSpace, 'array');
+    this.actionSpace = convertSpace(env.actionSpace, 'array');
+  }
+
+  /**
+   * Resets the environment and converts the observation to typed arrays
+   *
+   * @param options - additional informatiom to specify how the environment resets
+   * @returns An array of the observation of the initial state and info
+   */
+  reset(options?: Record<string, any>): [any, Record<string, any> | null] {
+    const [obs, info] = this.env.reset(options);
+    return [convertValue(this.env.observationSpace, obs, 'array'), info];
+  }
+
+  /**
+   * Converts the action to tensors, owned by the wrapper until the next step, and steps the environment
+   *
+   * @param action - action to take in the environment, with typed arrays
+   * @returns A tuple of the observation with typed arrays, reward, termination, truncation and info
+   */
+  async step(
+    action: any
+  ): Promise<[any, number, boolean, boolean, Record<string, any> | null]> {
+    const envAction = this.actionTensors.replace(
+      convertValue(this.env.actionSpace, action, 'tensor'),
+      action
+    );
+    const [obs, reward, terminated, truncated, info] =
+      await this.env.step(envAction);
+    return [
+      convertValue(this.env.observationSpace, obs, 'array'),
+      reward,
+      terminated,
+      truncated,
+      info,
+    ];
+  }
+
+  /**
+   * Disposes the last converted action and the tensors owned by the wrapped environment.
+   */
+  dispose(): void {
+    this.actionTensors.dispose();
+    super.dispose();
+  }
+}
+
+/**
+ * A wrapper that converts the typed arrays of an environment to tensors,
+ * the observations of `Box`, `MultiDiscrete` and `MultiBinary` spaces are converted to tensors owned by the wrapper
+ * and the tensor actions are copied into typed arrays before stepping the environment
+ */
+export class ArrayToTensor<ObsType, ActType> extends Wrapper<
+  any,
+  any,
+  ObsType,
+  ActType
+> {
+  /**
+   * Creates an instance of ArrayToTensor.
+   *
+   * @param env - The environment to wrap, its spaces are converted to the tensor backend
+   */
+  constructor(env: BaseEnv<ObsType, ActType>) {
+    super(env);
+    this.observationSpace = convertSpace(env.observationSpace, 'tensor');
+    this.actionSpace = convertSpace(env.actionSpace, 'tensor');
+  }
+
+  /**
+   * Resets the environment and converts the observation to tensors
+   *
+   * @param options - additional informatiom to specify how the environment resets
+   * @returns An array of the observation of the initial state and info
+   */
+  reset(options?: Record<string, any>): [any, Record<string, any> | null] {
+    const [obs, info] = this.env.reset(options);
+    return [this.toTensor(obs), info];
+  }
+
+  /**
+   * Converts the action to typed arrays and steps the environment
+   *
+   * @param action - action to take in the environment, with tensors
+   * @returns A tuple of the observation with tensors, reward, termination, truncation and info
+   */
+  async step(
+    action: any
+  ): Promise<[any, number, boolean, boolean, Record<string, any> | null]> {
+    const [obs, reward, terminated, truncated, info] = await this.env.step(
+      convertValue(this.env.actionSpace, action, 'array')
+    );
+    return [this.toTensor(obs), reward, terminated, truncated, info];
+  }
+
+  private toTensor(obs: ObsType): any {
+    return this.own(
+      convertValue(this.env.observationSpace, obs, 'tensor'),
+      obs
+    );
+  }
+}
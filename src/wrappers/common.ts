@@ -1,6 +1,5 @@
-import * as tf from '@tensorflow/tfjs';
-
-import { Env, Wrapper } from '../core';
+import { BaseEnv, RenderFrame, Wrapper } from '../core';
+import type { EnvSpec } from '../envs/registration';
 
 /**
  * A wrapper that places a step limit on the environment
@@ -14,10 +13,21 @@ export class TimeLimit<ObsType, ActType> extends Wrapper<
   private maxEpisodeSteps: number;
   private elapsedSteps: number;
 
-  constructor(env: Env<ObsType, ActType>, maxEpisodeSteps: number) {
+  constructor(env: BaseEnv<ObsType, ActType>, maxEpisodeSteps: number) {
     super(env);
     this.maxEpisodeSteps = maxEpisodeSteps;
     this.elapsedSteps = -1; // Env hasn't began yet
+    this.wrapperKwargs = { maxEpisodeSteps };
+  }
+
+  /**
+   * Sets the maximum number of steps of the spec
+   *
+   * @param spec - The spec of the wrapped environment
+   * @returns A new spec
+   */
+  protected updateSpec(spec: EnvSpec): EnvSpec {
+    return spec.copy({ maxEpisodeSteps: this.maxEpisodeSteps });
   }
 
   /**
@@ -63,11 +73,21 @@ export class Autoreset<ObsType, ActType> extends Wrapper<
 > {
   private autoReset: boolean;
 
-  constructor(env: Env<ObsType, ActType>) {
+  constructor(env: BaseEnv<ObsType, ActType>) {
     super(env);
     this.autoReset = false;
   }
 
+  /**
+   * Enables autoreset in the spec
+   *
+   * @param spec - The spec of the wrapped environment
+   * @returns A new spec
+   */
+  protected updateSpec(spec: EnvSpec): EnvSpec {
+    return spec.copy({ autoreset: true });
+  }
+
   /**
    * Resets the wrapper.
    *
@@ -120,12 +140,27 @@ export class OrderEnforcing<ObsType, ActType> extends Wrapper<
   private disableRenderOrderEnforcing: boolean;
 
   constructor(
-    env: Env<ObsType, ActType>,
+    env: BaseEnv<ObsType, ActType>,
     disableRenderOrderEnforcing: boolean = false
   ) {
     super(env);
     this.disableRenderOrderEnforcing = disableRenderOrderEnforcing;
     this.hasReset = false;
+    this.wrapperKwargs = { disableRenderOrderEnforcing };
+  }
+
+  /**
+   * Enables order enforcing in the spec, the wrapper is recorded as an additional wrapper
+   * if it doesn't enforce the order of render
+   *
+   * @param spec - The spec of the wrapped environment
+   * @returns A new spec
+   */
+  protected updateSpec(spec: EnvSpec): EnvSpec {
+    if (this.disableRenderOrderEnforcing) {
+      return super.updateSpec(spec);
+    }
+    return spec.copy({ orderEnforce: true });
   }
 
   /**
@@ -158,7 +193,7 @@ export class OrderEnforcing<ObsType, ActType> extends Wrapper<
   /**
    * Renders the environment
    */
-  async render(): Promise<void | tf.Tensor> {
+  async render(): Promise<void | RenderFrame> {
     if (!this.disableRenderOrderEnforcing && !this.hasReset) {
       throw new Error(
         'Cannot call env.render() before calling env.reset(), unset disableRenderOrderEnforcing if this is intended'
@@ -188,9 +223,10 @@ export class RecordEpisodeStatistics<ObsType, ActType> extends Wrapper<
   private episodeReturns: number;
   private episodeLengths: number;
 
-  constructor(env: Env<ObsType, ActType>, statsKey: string = 'episode') {
+  constructor(env: BaseEnv<ObsType, ActType>, statsKey: string = 'episode') {
     super(env);
     this.statsKey = statsKey;
+    this.wrapperKwargs = { statsKey };
     this.episodeStartTime = -1;
     this.episodeReturns = 0;
     this.episodeLengths = 0;
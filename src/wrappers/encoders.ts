@@ -0,0 +1,286 @@
+/**
+ * Encodes RGB frames into an animated GIF that loops forever.
+ * Each frame has its own palette, the exact colors if there are at most 256 of them, otherwise a fixed 3-3-2 RGB palette.
+ *
+ * @param frames - The RGB pixels of the frames, row by row
+ * @param width - The width of the frames
+ * @param height - The height of the frames
+ * @param fps - The number of frames per second
+ * @returns The bytes of the GIF file
+ */
+export function encodeGif(
+  frames: Uint8Array[],
+  width: number,
+  height: number,
+  fps: number
+): Uint8Array {
+  const bytes = new ByteWriter();
+  // The delay between frames is in hundredths of a second
+  const delay = Math.max(1, Math.round(100 / fps));
+
+  bytes.writeString('GIF89a');
+  // Logical screen descriptor, without a global color table
+  bytes.writeUint16(width);
+  bytes.writeUint16(height);
+  bytes.write([0, 0, 0]);
+  // Netscape application extension, loops forever
+  bytes.write([0x21, 0xff, 0x0b]);
+  bytes.writeString('NETSCAPE2.0');
+  bytes.write([0x03, 0x01, 0x00, 0x00, 0x00]);
+
+  for (const frame of frames) {
+    if (frame.length !== width * height * 3) {
+      throw new Error(
+        `Expected a frame of ${width * height * 3} values, got ${frame.length}`
+      );
+    }
+    const [palette, indices] = quantize(frame);
+
+    // Graphic control extension, with the delay of the frame
+    bytes.write([0x21, 0xf9, 0x04, 0x04]);
+    bytes.writeUint16(delay);
+    bytes.write([0x00, 0x00]);
+    // Image descriptor, with a local color table of 256 colors
+    bytes.write([0x2c]);
+    bytes.writeUint16(0);
+    bytes.writeUint16(0);
+    bytes.writeUint16(width);
+    bytes.writeUint16(height);
+    bytes.write([0x87]);
+    bytes.write(palette);
+    // Image data, LZW compressed and split in blocks of up to 255 bytes
+    bytes.write([8]);
+    const data = lzwEncode(indices, 8);
+    for (let i = 0; i < data.length; i += 255) {
+      const block = data.subarray(i, i + 255);
+      bytes.write([block.length]);
+      bytes.write(block);
+    }
+    bytes.write([0x00]);
+  }
+
+  bytes.write([0x3b]);
+  return bytes.toUint8Array();
+}
+
+/**
+ * Encodes an RGB frame into a PNG image
+ *
+ * @param frame - The RGB pixels of the frame, row by row
+ * @param width - The width of the frame
+ * @param height - The height of the frame
+ * @param deflate - Compresses the image data in the zlib format
+ * @returns The bytes of the PNG file
+ */
+export function encodePng(
+  frame: Uint8Array,
+  width: number,
+  height: number,
+  deflate: (data: Uint8Array) => Uint8Array
+): Uint8Array {
+  if (frame.length !== width * height * 3) {
+    throw new Error(
+      `Expected a frame of ${width * height * 3} values, got ${frame.length}`
+    );
+  }
+
+  // Each row starts with its filter type, 0 means no filter
+  const raw = new Uint8Array(height * (width * 3 + 1));
+  for (let row = 0; row < height; row++) {
+    raw.set(
+      frame.subarray(row * width * 3, (row + 1) * width * 3),
+      row * (width * 3 + 1) + 1
+    );
+  }
+
+  const header = new ByteWriter();
+  header.writeUint32(width);
+  header.writeUint32(height);
+  // 8 bits per channel, truecolor, default compression, filter and no interlace
+  header.write([8, 2, 0, 0, 0]);
+
+  const bytes = new ByteWriter();
+  bytes.write([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  writePngChunk(bytes, 'IHDR', header.toUint8Array());
+  writePngChunk(bytes, 'IDAT', deflate(raw));
+  writePngChunk(bytes, 'IEND', new Uint8Array(0));
+  return bytes.toUint8Array();
+}
+
+// A growable buffer of bytes, multi-byte integers are little endian unless stated otherwise
+class ByteWriter {
+  private buffer: Uint8Array;
+  private length: number;
+
+  constructor() {
+    this.buffer = new Uint8Array(1024);
+    this.length = 0;
+  }
+
+  write(bytes: ArrayLike<number>): void {
+    if (this.length + bytes.length > this.buffer.length) {
+      const buffer = new Uint8Array(
+        Math.max(this.buffer.length * 2, this.length + bytes.length)
+      );
+      buffer.set(this.buffer.subarray(0, this.length));
+      this.buffer = buffer;
+    }
+    this.buffer.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  writeString(text: string): void {
+    this.write(Array.from(text, (char) => char.charCodeAt(0)));
+  }
+
+  writeUint16(value: number): void {
+    this.write([value & 0xff, (value >> 8) & 0xff]);
+  }
+
+  // Big endian, as used by PNG
+  writeUint32(value: number): void {
+    this.write([
+      (value >>> 24) & 0xff,
+      (value >>> 16) & 0xff,
+      (value >>> 8) & 0xff,
+      value & 0xff,
+    ]);
+  }
+
+  toUint8Array(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+// Maps the pixels to a palette of 256 colors, returns the palette and the index of each pixel
+function quantize(frame: Uint8Array): [Uint8Array, Uint8Array] {
+  const palette = new Uint8Array(256 * 3);
+  const indices = new Uint8Array(frame.length / 3);
+
+  const colors = new Map<number, number>();
+  for (let i = 0; i < indices.length; i++) {
+    const color =
+      (frame[3 * i] << 16) | (frame[3 * i + 1] << 8) | frame[3 * i + 2];
+    let index = colors.get(color);
+    if (index === undefined) {
+      if (colors.size === 256) {
+        return quantize332(frame);
+      }
+      index = colors.size;
+      colors.set(color, index);
+      palette.set(frame.subarray(3 * i, 3 * i + 3), 3 * index);
+    }
+    indices[i] = index;
+  }
+
+  return [palette, indices];
+}
+
+// Maps the pixels to the fixed palette with 3 bits of red, 3 bits of green and 2 bits of blue
+function quantize332(frame: Uint8Array): [Uint8Array, Uint8Array] {
+  const palette = new Uint8Array(256 * 3);
+  for (let index = 0; index < 256; index++) {
+    palette[3 * index] = Math.round(((index >> 5) * 255) / 7);
+    palette[3 * index + 1] = Math.round((((index >> 2) & 0x07) * 255) / 7);
+    palette[3 * index + 2] = Math.round(((index & 0x03) * 255) / 3);
+  }
+
+  const indices = new Uint8Array(frame.length / 3);
+  for (let i = 0; i < indices.length; i++) {
+    const r = Math.round((frame[3 * i] * 7) / 255);
+    const g = Math.round((frame[3 * i + 1] * 7) / 255);
+    const b = Math.round((frame[3 * i + 2] * 3) / 255);
+    indices[i] = (r << 5) | (g << 2) | b;
+  }
+
+  return [palette, indices];
+}
+
+// Compresses the indices with the variable code size LZW of the GIF format, the codes are packed least significant bit first
+function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const bytes = new ByteWriter();
+
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+
+  let bitBuffer = 0;
+  let bitCount = 0;
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      bytes.write([bitBuffer & 0xff]);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let current = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = (current << 8) | indices[i];
+    const code = table.get(key);
+    if (code !== undefined) {
+      current = code;
+      continue;
+    }
+
+    emit(current);
+    if (nextCode === 4096) {
+      // The table is full, it is cleared and starts over
+      emit(clearCode);
+      table = new Map();
+      nextCode = endCode + 1;
+      codeSize = minCodeSize + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) {
+        codeSize += 1;
+      }
+      table.set(key, nextCode);
+      nextCode += 1;
+    }
+    current = indices[i];
+  }
+  emit(current);
+  emit(endCode);
+
+  if (bitCount > 0) {
+    bytes.write([bitBuffer & 0xff]);
+  }
+  return bytes.toUint8Array();
+}
+
+function writePngChunk(bytes: ByteWriter, type: string, data: Uint8Array) {
+  const chunk = new ByteWriter();
+  chunk.writeString(type);
+  chunk.write(data);
+  const typeAndData = chunk.toUint8Array();
+
+  bytes.writeUint32(data.length);
+  bytes.write(typeAndData);
+  bytes.writeUint32(crc32(typeAndData));
+}
+
+let crcTable: Uint32Array | undefined = undefined;
+
+function crc32(data: Uint8Array): number {
+  if (crcTable === undefined) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -0,0 +1,115 @@
+import { BaseEnv, RenderFrame, Wrapper } from '../core';
+import type { EnvSpec } from '../envs/registration';
+import {
+  EnvCheckIssue,
+  checkResetOutput,
+  checkStepOutput,
+  checkMetadata,
+  checkRenderOutput,
+} from '../env_checker';
+import { Space } from '../spaces';
+
+/**
+ * A wrapper that checks the outputs of the first reset, step and render of the environment,
+ * throwing on errors and warning about likely bugs like NaN rewards
+ */
+export class PassiveEnvChecker<ObsType, ActType> extends Wrapper<
+  ObsType,
+  ActType,
+  ObsType,
+  ActType
+> {
+  private checkedReset: boolean;
+  private checkedStep: boolean;
+  private checkedRender: boolean;
+
+  constructor(env: BaseEnv<ObsType, ActType>) {
+    super(env);
+
+    if (!(env.observationSpace instanceof Space)) {
+      throw new Error('The observation space must inherit from `Space`.');
+    }
+    if (!(env.actionSpace instanceof Space)) {
+      throw new Error('The action space must inherit from `Space`.');
+    }
+    report(checkMetadata(env));
+
+    this.checkedReset = false;
+    this.checkedStep = false;
+    this.checkedRender = false;
+  }
+
+  /**
+   * Enables the environment checker in the spec
+   *
+   * @param spec - The spec of the wrapped environment
+   * @returns A new spec
+   */
+  protected updateSpec(spec: EnvSpec): EnvSpec {
+    return spec.copy({ disableEnvChecker: false });
+  }
+
+  /**
+   * Resets the wrapper, checking the output of the first reset.
+   *
+   * @param options - additional informatiom to specify how the environment resets
+   * @returns An array of the observation of the initial state and info
+   */
+  reset(options?: Record<string, any>): [ObsType, Record<string, any> | null] {
+    const output = super.reset(options);
+
+    if (!this.checkedReset) {
+      this.checkedReset = true;
+      report(checkResetOutput(output, this.env.observationSpace));
+    }
+
+    return output;
+  }
+
+  /**
+   * Takes one step in the wrapper, checking the output of the first step.
+   *
+   * @param action - action to take in the environment
+   * @returns A tuple of the observation of the initial state, reward, termination, truncation and info
+   */
+  async step(
+    action: ActType
+  ): Promise<[ObsType, number, boolean, boolean, Record<string, any> | null]> {
+    const output = await super.step(action);
+
+    if (!this.checkedStep) {
+      this.checkedStep = true;
+      report(checkStepOutput(output, this.env.observationSpace));
+    }
+
+    return output;
+  }
+
+  /**
+   * Renders the environment, checking the output of the first render unless in human mode.
+   */
+  async render(): Promise<void | RenderFrame> {
+    const frame = await super.render();
+
+    if (
+      !this.checkedRender &&
+      this.renderMode !== null &&
+      this.renderMode !== 'human'
+    ) {
+      this.checkedRender = true;
+      report(checkRenderOutput(frame, this.renderMode));
+    }
+
+    return frame;
+  }
+}
+
+// Throws the first error, warns about the rest
+function report(issues: EnvCheckIssue[]): void {
+  const error = issues.find((issue) => issue.level === 'error');
+  if (error !== undefined) {
+    throw new Error(error.message);
+  }
+
+  issues.forEach((issue) => console.warn(`Warning: ${issue.message}`));
+}
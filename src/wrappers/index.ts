@@ -6,6 +6,26 @@ import {
 } from './common';
 import { ClipReward } from './transform_reward';
 import { ClipAction } from './transform_action';
+import { PassiveEnvChecker } from './env_checker';
+import {
+  NormalizeObservation,
+  FrameStackObservation,
+  LazyFrames,
+} from './stateful_observation';
+import { NormalizeReward } from './stateful_reward';
+import {
+  ResizeObservation,
+  GrayscaleObservation,
+} from './transform_observation';
+import {
+  AddRenderObservation,
+  RenderCollection,
+  RecordVideo,
+  cappedCubicVideoSchedule,
+} from './rendering';
+import { TensorToArray, ArrayToTensor } from './array_conversion';
+import { RunningMeanStd } from './utils';
+import type { RunningMeanStdState } from './utils';
 
 export {
   TimeLimit,
@@ -14,4 +34,19 @@ export {
   RecordEpisodeStatistics,
   ClipReward,
   ClipAction,
+  PassiveEnvChecker,
+  NormalizeObservation,
+  FrameStackObservation,
+  LazyFrames,
+  NormalizeReward,
+  ResizeObservation,
+  GrayscaleObservation,
+  AddRenderObservation,
+  RenderCollection,
+  RecordVideo,
+  cappedCubicVideoSchedule,
+  TensorToArray,
+  ArrayToTensor,
+  RunningMeanStd,
 };
+export type { RunningMeanStdState };
@@ -0,0 +1,515 @@
+import * as tf from '@tensorflow/tfjs';
+
+import {
+  BaseEnv,
+  EnvMetadata,
+  ObservationWrapper,
+  RenderFrame,
+  Wrapper,
+} from '../core';
+import type { EnvSpec } from '../envs/registration';
+import { Box, Dict } from '../spaces';
+import { encodeGif, encodePng } from './encoders';
+
+/**
+ * A wrapper that replaces or augments the observations with the frames rendered in rgb_array mode
+ */
+export class AddRenderObservation<ObsType, ActType> extends ObservationWrapper<
+  tf.Tensor | Record<string, any>,
+  ObsType,
+  ActType
+> {
+  private readonly renderOnly: boolean;
+  private readonly renderKey: string;
+  private readonly obsKey: string;
+
+  /**
+   * Creates an instance of AddRenderObservation.
+   * The environment is reset and rendered once to get the shape of the frames.
+   *
+   * @param env - The environment to wrap, its render mode must be rgb_array
+   * @param renderOnly - If the observation is replaced by the frame, otherwise the observation is a dict of both
+   * @param renderKey - The key of the frame in the dict observation
+   * @param obsKey - The key of the original observation in the dict observation
+   */
+  constructor(
+    env: BaseEnv<ObsType, ActType>,
+    renderOnly: boolean = true,
+    renderKey: string = 'pixels',
+    obsKey: string = 'state'
+  ) {
+    super(env);
+
+    if (env.renderMode !== 'rgb_array') {
+      throw new Error(
+        `AddRenderObservation requires the rgb_array render mode, got ${env.renderMode}`
+      );
+    }
+    if (!renderOnly && renderKey === obsKey) {
+      throw new Error('The render key and the observation key must differ');
+    }
+
+    this.renderOnly = renderOnly;
+    this.renderKey = renderKey;
+    this.obsKey = obsKey;
+    this.wrapperKwargs = { renderOnly, renderKey, obsKey };
+
+    env.reset();
+    const frame = this.renderFrame();
+    const pixelSpace = new Box(0, 255, frame.shape, 'int32');
+    frame.dispose();
+
+    this.observationSpace = renderOnly
+      ? pixelSpace
+      : new Dict({
+          [obsKey]: env.observationSpace,
+          [renderKey]: pixelSpace,
+        });
+  }
+
+  /**
+   * Renders the frame of the current state
+   *
+   * @param obs - The observation of the environment
+   * @returns The frame, or a dict of the observation and the frame
+   */
+  observarionTransform(obs: ObsType): tf.Tensor | Record<string, any> {
+    const frame = this.renderFrame();
+    if (this.renderOnly) {
+      return frame;
+    }
+    return { [this.obsKey]: obs, [this.renderKey]: frame };
+  }
+}
+
+/**
+ * A wrapper that collects the frames rendered in rgb_array mode at each reset and step,
+ * `render` then returns the list of frames in rgb_array_list mode
+ */
+export class RenderCollection<ObsType, ActType> extends Wrapper<
+  ObsType,
+  ActType,
+  ObsType,
+  ActType
+> {
+  private readonly popFrames: boolean;
+  private readonly resetClean: boolean;
+  private frameList: tf.Tensor[];
+
+  /**
+   * Creates an instance of RenderCollection.
+   *
+   * @param env - The environment to wrap, its render mode must be rgb_array
+   * @param popFrames - If the frames are removed from the collection when rendered, the caller then owns them
+   * @param resetClean - If the collection is emptied on reset
+   */
+  constructor(
+    env: BaseEnv<ObsType, ActType>,
+    popFrames: boolean = true,
+    resetClean: boolean = true
+  ) {
+    super(env);
+
+    if (env.renderMode !== 'rgb_array') {
+      throw new Error(
+        `RenderCollection requires the rgb_array render mode, got ${env.renderMode}`
+      );
+    }
+
+    this.renderMode = 'rgb_array_list';
+    this.popFrames = popFrames;
+    this.resetClean = resetClean;
+    this.frameList = [];
+    this.wrapperKwargs = { popFrames, resetClean };
+  }
+
+  /**
+   * Sets the rgb_array_list render mode in the spec like `make`,
+   * the wrapper is recorded as an additional wrapper if it doesn't use the default arguments
+   *
+   * @param spec - The spec of the wrapped environment
+   * @returns A new spec
+   */
+  protected updateSpec(spec: EnvSpec): EnvSpec {
+    if (!this.popFrames || !this.resetClean) {
+      return super.updateSpec(spec);
+    }
+    return spec.copy({
+      kwargs: { ...spec.kwargs, renderMode: 'rgb_array_list' },
+    });
+  }
+
+  /**
+   * @returns the metadata of the wrapped environment, with the rgb_array_list render mode
+   */
+  get metadata(): EnvMetadata {
+    const metadata = this.env.metadata;
+    return {
+      ...metadata,
+      renderModes: [...metadata.renderModes, 'rgb_array_list'],
+    };
+  }
+
+  /**
+   * Resets the environment and collects the first frame
+   *
+   * @param options - additional informatiom to specify how the environment resets
+   * @returns An array of the observation of the initial state and info
+   */
+  reset(options?: Record<string, any>): [ObsType, Record<string, any> | null] {
+    const result = super.reset(options);
+
+    if (this.resetClean) {
+      this.disposeFrames();
+    }
+    this.frameList.push(this.renderFrame());
+
+    return result;
+  }
+
+  /**
+   * Takes one step in the environment and collects its frame
+   *
+   * @param action - action to take in the environment
+   * @returns A tuple of the observation of the initial state, reward, termination, truncation and info
+   */
+  async step(
+    action: ActType
+  ): Promise<[ObsType, number, boolean, boolean, Record<string, any> | null]> {
+    const result = await super.step(action);
+
+    const frame = await this.env.render();
+    if (!(frame instanceof tf.Tensor)) {
+      throw new Error('RenderCollection expects the frames to be tensors!');
+    }
+    this.frameList.push(frame);
+
+    return result;
+  }
+
+  /**
+   * Renders the collected frames
+   *
+   * @returns The frames since the last render, or since the last reset if they aren't popped
+   */
+  async render(): Promise<tf.Tensor[]> {
+    const frames = this.frameList;
+    if (this.popFrames) {
+      this.frameList = [];
+      return frames;
+    }
+    return [...frames];
+  }
+
+  /**
+   * Disposes the collected frames and closes the environment
+   */
+  close(): void {
+    this.disposeFrames();
+    super.close();
+  }
+
+  /**
+   * Disposes the collected frames and the tensors owned by the wrapper and the wrapped environment
+   */
+  dispose(): void {
+    this.disposeFrames();
+    super.dispose();
+  }
+
+  private disposeFrames(): void {
+    this.frameList.forEach((frame) => frame.dispose());
+    this.frameList = [];
+  }
+}
+
+/**
+ * The default episode trigger of `RecordVideo`, records the episodes whose id is a perfect cube below 1000 and then every 1000 episodes
+ *
+ * @param episodeId - The id of the episode, starting at 0
+ * @returns If the episode is recorded
+ */
+export function cappedCubicVideoSchedule(episodeId: number): boolean {
+  if (episodeId < 1000) {
+    return Math.round(Math.cbrt(episodeId)) ** 3 === episodeId;
+  }
+  return episodeId % 1000 === 0;
+}
+
+/**
+ * A wrapper that records videos of the environment from the frames rendered in rgb_array mode, on Node JS only.
+ * Videos start at the episodes selected by the episode trigger or at the steps selected by the step trigger
+ * and are saved as animated GIF files or as folders of numbered PNG files.
+ * The seed, return and length of each recorded episode are saved in a JSON file.
+ */
+export class RecordVideo<ObsType, ActType> extends Wrapper<
+  ObsType,
+  ActType,
+  ObsType,
+  ActType
+> {
+  private readonly videoFolder: string;
+  private readonly episodeTrigger: ((episodeId: number) => boolean) | null;
+  private readonly stepTrigger: ((stepId: number) => boolean) | null;
+  private readonly videoLength: number;
+  private readonly namePrefix: string;
+  private readonly format: 'gif' | 'png';
+  private readonly fps: number;
+
+  private episodeId: number;
+  private stepId: number;
+  private videoName: string | null;
+  private recordedFrames: Uint8Array[];
+  private frameShape: number[] | null;
+  private episode: {
+    seed: number | null;
+    return: number;
+    length: number;
+    recorded: boolean;
+  } | null;
+
+  /**
+   * Creates an instance of RecordVideo.
+   *
+   * @param env - The environment to wrap, its render mode must be rgb_array
+   * @param videoFolder - The folder where the videos and the metadata are saved, created if needed
+   * @param episodeTrigger - Selects the episodes that start a video, `cappedCubicVideoSchedule` by default if there is no step trigger
+   * @param stepTrigger - Selects the steps that start a video
+   * @param videoLength - The number of frames of the videos, 0 records whole episodes
+   * @param namePrefix - The prefix of the names of the files
+   * @param format - Saves the videos as animated GIF files or as folders of numbered PNG files
+   * @param fps - The number of frames per second of the GIF files
+   */
+  constructor(
+    env: BaseEnv<ObsType, ActType>,
+    videoFolder: string,
+    episodeTrigger: ((episodeId: number) => boolean) | null = null,
+    stepTrigger: ((stepId: number) => boolean) | null = null,
+    videoLength: number = 0,
+    namePrefix: string = 'rl-video',
+    format: 'gif' | 'png' = 'gif',
+    fps: number = 30
+  ) {
+    super(env);
+
+    if (env.renderMode !== 'rgb_array') {
+      throw new Error(
+        `RecordVideo requires the rgb_array render mode, got ${env.renderMode}`
+      );
+    }
+    if (videoLength < 0 || !Number.isInteger(videoLength)) {
+      throw new Error(
+        `The video length must be a non-negative integer, got ${videoLength}`
+      );
+    }
+    if (fps <= 0) {
+      throw new Error(`The fps must be positive, got ${fps}`);
+    }
+
+    this.videoFolder = videoFolder;
+    this.episodeTrigger =
+      episodeTrigger === null && stepTrigger === null
+        ? cappedCubicVideoSchedule
+        : episodeTrigger;
+    this.stepTrigger = stepTrigger;
+    this.videoLength = videoLength === 0 ? Infinity : videoLength;
+    this.namePrefix = namePrefix;
+    this.format = format;
+    this.fps = fps;
+    this.wrapperKwargs = {
+      videoFolder,
+      episodeTrigger,
+      stepTrigger,
+      videoLength,
+      namePrefix,
+      format,
+      fps,
+    };
+
+    this.episodeId = -1;
+    this.stepId = -1;
+    this.videoName = null;
+    this.recordedFrames = [];
+    this.frameShape = null;
+    this.episode = null;
+
+    nodeModules().fs.mkdirSync(videoFolder, { recursive: true });
+  }
+
+  /**
+   * Resets the environment, starts a video if the episode is selected by the episode trigger
+   *
+   * @param options - additional informatiom to specify how the environment resets
+   * @returns An array of the observation of the initial state and info
+   */
+  reset(options?: Record<string, any>): [ObsType, Record<string, any> | null] {
+    const result = super.reset(options);
+
+    this.saveEpisode();
+    this.episodeId += 1;
+    this.episode = {
+      seed: options?.seed ?? null,
+      return: 0,
+      length: 0,
+      recorded: false,
+    };
+
+    if (this.isRecording() && this.videoLength === Infinity) {
+      this.stopRecording();
+    }
+    if (this.episodeTrigger?.(this.episodeId)) {
+      this.startRecording(`${this.namePrefix}-episode-${this.episodeId}`);
+    }
+    if (this.isRecording()) {
+      this.captureFrame(this.renderFrame());
+    }
+
+    return result;
+  }
+
+  /**
+   * Takes one step in the environment, starts a video if the step is selected by the step trigger
+   *
+   * @param action - action to take in the environment
+   * @returns A tuple of the observation of the initial state, reward, termination, truncation and info
+   */
+  async step(
+    action: ActType
+  ): Promise<[ObsType, number, boolean, boolean, Record<string, any> | null]> {
+    const result = await this.env.step(action);
+    const [, reward, terminated, truncated] = result;
+    this.stepId += 1;
+
+    if (this.episode !== null) {
+      this.episode.return += reward;
+      this.episode.length += 1;
+    }
+
+    if (this.stepTrigger?.(this.stepId)) {
+      this.startRecording(`${this.namePrefix}-step-${this.stepId}`);
+    }
+    if (this.isRecording()) {
+      this.captureFrame(await this.env.render());
+    }
+    if (terminated || truncated) {
+      this.saveEpisode();
+    }
+
+    return result;
+  }
+
+  /**
+   * Saves the ongoing video and closes the environment
+   */
+  close(): void {
+    this.stopRecording();
+    this.saveEpisode();
+    super.close();
+  }
+
+  private isRecording(): boolean {
+    return this.videoName !== null;
+  }
+
+  private startRecording(videoName: string): void {
+    this.stopRecording();
+    this.videoName = videoName;
+  }
+
+  private captureFrame(frame: void | RenderFrame): void {
+    if (!(frame instanceof tf.Tensor)) {
+      throw new Error('RecordVideo expects the frames to be tensors!');
+    }
+    if (frame.rank !== 3 || frame.shape[2] !== 3) {
+      throw new Error(
+        `Expected frames of shape [height, width, 3], got [${frame.shape}]`
+      );
+    }
+    if (
+      this.frameShape !== null &&
+      !tf.util.arraysEqual(this.frameShape, frame.shape)
+    ) {
+      throw new Error(
+        `All the frames of a video must have the same shape, got [${frame.shape}] and [${this.frameShape}]`
+      );
+    }
+
+    this.frameShape = frame.shape;
+    this.recordedFrames.push(Uint8Array.from(frame.dataSync()));
+    frame.dispose();
+    if (this.episode !== null) {
+      this.episode.recorded = true;
+    }
+
+    if (this.recordedFrames.length >= this.videoLength) {
+      this.stopRecording();
+    }
+  }
+
+  private stopRecording(): void {
+    if (
+      this.videoName !== null &&
+      this.frameShape !== null &&
+      this.recordedFrames.length > 0
+    ) {
+      const { fs, path, zlib } = nodeModules();
+      const [height, width] = this.frameShape;
+
+      if (this.format === 'gif') {
+        fs.writeFileSync(
+          path.join(this.videoFolder, `${this.videoName}.gif`),
+          encodeGif(this.recordedFrames, width, height, this.fps)
+        );
+      } else {
+        const folder = path.join(this.videoFolder, this.videoName);
+        fs.mkdirSync(folder, { recursive: true });
+        this.recordedFrames.forEach((frame, i) => {
+          fs.writeFileSync(
+            path.join(folder, `${String(i).padStart(6, '0')}.png`),
+            encodePng(frame, width, height, (data) => zlib.deflateSync(data))
+          );
+        });
+      }
+    }
+
+    this.videoName = null;
+    this.recordedFrames = [];
+    this.frameShape = null;
+  }
+
+  // Saves the metadata of the current episode if some of its frames were recorded
+  private saveEpisode(): void {
+    if (this.episode === null || !this.episode.recorded) {
+      this.episode = null;
+      return;
+    }
+
+    const { fs, path } = nodeModules();
+    const metadata = {
+      episodeId: this.episodeId,
+      seed: this.episode.seed,
+      return: this.episode.return,
+      length: this.episode.length,
+    };
+    fs.writeFileSync(
+      path.join(
+        this.videoFolder,
+        `${this.namePrefix}-episode-${this.episodeId}.json`
+      ),
+      JSON.stringify(metadata, null, 2)
+    );
+    this.episode = null;
+  }
+}
+
+// The modules used to write files, only available on Node JS
+function nodeModules() {
+  if (typeof process !== 'object' || process.getBuiltinModule === undefined) {
+    throw new Error('RecordVideo can only write videos on Node JS!');
+  }
+  return {
+    fs: process.getBuiltinModule('fs'),
+    path: process.getBuiltinModule('path'),
+    zlib: process.getBuiltinModule('zlib'),
+  };
+}
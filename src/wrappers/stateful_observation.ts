@@ -0,0 +1,283 @@
+import * as tf from '@tensorflow/tfjs';
+
+import { BaseEnv, ObservationWrapper } from '../core';
+import { Box, Space } from '../spaces';
+import { RunningMeanStd } from './utils';
+
+/**
+ * A wrapper that normalizes the observations of a `Box` space to a mean of 0 and a variance of 1,
+ * using the running mean and variance of the observations seen so far
+ */
+export class NormalizeObservation<ActType> extends ObservationWrapper<
+  tf.Tensor,
+  tf.Tensor,
+  ActType
+> {
+  /** The running mean and variance of the observations, can be saved and restored with `getState` and `setState` */
+  public readonly obsRms: RunningMeanStd;
+  /** If the running mean and variance are updated, disable to freeze them for evaluation */
+  public updateRunningMean: boolean;
+  private readonly epsilon: number;
+
+  /**
+   * Creates an instance of NormalizeObservation.
+   *
+   * @param env - The environment to wrap, its observation space must be a `Box`
+   * @param epsilon - A stability parameter added to the variance
+   */
+  constructor(env: BaseEnv<tf.Tensor, ActType>, epsilon: number = 1e-8) {
+    super(env);
+
+    if (!(env.observationSpace instanceof Box)) {
+      throw new Error('NormalizeObservation only works for Box space');
+    }
+
+    const shape = env.observationSpace.shape;
+    this.observationSpace = new Box(-Infinity, Infinity, shape, 'float32');
+    this.obsRms = new RunningMeanStd(tf.util.sizeFromShape(shape));
+    this.updateRunningMean = true;
+    this.epsilon = epsilon;
+    this.wrapperKwargs = { epsilon };
+  }
+
+  /**
+   * Normalizes the observation, updating the running mean and variance first
+   *
+   * @param obs - The observation of the environment
+   * @returns The normalized observation
+   */
+  observarionTransform(obs: tf.Tensor): tf.Tensor {
+    const values = obs.dataSync();
+    if (this.updateRunningMean) {
+      this.obsRms.update(values);
+    }
+
+    const normalized = new Float32Array(values.length);
+    for (let i = 0; i < values.length; i++) {
+      normalized[i] =
+        (values[i] - this.obsRms.mean[i]) /
+        Math.sqrt(this.obsRms.var[i] + this.epsilon);
+    }
+
+    return tf.tensor(normalized, obs.shape, 'float32');
+  }
+}
+
+/**
+ * The stacked observations returned by `FrameStackObservation`.
+ * The frames are shared with the wrapper and are only stacked into a tensor when it is read with `toTensor`,
+ * so that a step doesn't copy every frame. They are disposed by the wrapper when it returns its next observation.
+ */
+export class LazyFrames {
+  /** The shape of the stacked frames, the number of frames followed by the shape of a frame */
+  public readonly shape: number[];
+  /** The data type of the frames */
+  public readonly dtype: tf.DataType;
+  private readonly frames: tf.Tensor[];
+  private stacked: tf.Tensor | null;
+
+  /**
+   * Creates an instance of LazyFrames.
+   *
+   * @param frames - The frames, from the oldest to the latest, their data is shared without being copied
+   */
+  constructor(frames: tf.Tensor[]) {
+    // Clones share the data of the frames, they keep it alive once the wrapper evicts the frames
+    this.frames = frames.map((frame) => frame.clone());
+    this.shape = [frames.length, ...frames[0].shape];
+    this.dtype = frames[0].dtype;
+    this.stacked = null;
+  }
+
+  /**
+   * @returns the number of frames
+   */
+  get length(): number {
+    return this.frames.length;
+  }
+
+  /**
+   * Gets a frame without stacking the frames
+   *
+   * @param index - The index of the frame, 0 is the oldest
+   * @returns The frame, disposed with the stacked frames
+   */
+  frame(index: number): tf.Tensor {
+    if (!Number.isInteger(index) || index < 0 || index >= this.frames.length) {
+      throw new Error(
+        `The frame index must be an integer between 0 and ${this.frames.length - 1}, got ${index}`
+      );
+    }
+    return this.frames[index];
+  }
+
+  /**
+   * Stacks the frames, only once
+   *
+   * @returns A tensor of shape `shape` in the observation space of the wrapper, disposed with the stacked frames
+   */
+  toTensor(): tf.Tensor {
+    if (this.stacked === null) {
+      this.stacked = tf.stack(this.frames);
+    }
+    return this.stacked;
+  }
+
+  /**
+   * Disposes the frames and their stack
+   */
+  dispose(): void {
+    tf.dispose(this.frames);
+    this.stacked?.dispose();
+    this.stacked = null;
+  }
+}
+
+/**
+ * A wrapper that stacks the last observations of a `Box` space along a new leading dimension.
+ * The frames are clones of the observations kept in a buffer, evicted frames are disposed.
+ * Observations are `LazyFrames` that share the frames of the buffer, the observation space is the `Box` of their stack.
+ */
+export class FrameStackObservation<ActType> extends ObservationWrapper<
+  LazyFrames,
+  tf.Tensor,
+  ActType
+> {
+  /** The number of stacked observations */
+  public readonly stackSize: number;
+  /** How the stack is padded at reset, with the first observation or with zeros */
+  public readonly padding: 'reset' | 'zero';
+  private frames: tf.Tensor[];
+  private zeros: tf.Tensor | null;
+  private lastObs: LazyFrames | null;
+
+  /**
+   * Creates an instance of FrameStackObservation.
+   *
+   * @param env - The environment to wrap, its observation space must be a `Box`
+   * @param stackSize - The number of stacked observations
+   * @param padding - "reset" pads the stack with the first observation and "zero" with zeros
+   */
+  constructor(
+    env: BaseEnv<tf.Tensor, ActType>,
+    stackSize: number,
+    padding: 'reset' | 'zero' = 'reset'
+  ) {
+    super(env);
+
+    if (!(env.observationSpace instanceof Box)) {
+      throw new Error('FrameStackObservation only works for Box space');
+    }
+    if (!Number.isInteger(stackSize) || stackSize < 1) {
+      throw new Error(
+        `The stack size must be a positive integer, got ${stackSize}`
+      );
+    }
+
+    const space = env.observationSpace;
+    const shape = [stackSize, ...space.shape];
+    const stackBound = (bound: tf.Tensor | number) =>
+      typeof bound === 'number'
+        ? bound
+        : tf.stack(new Array(stackSize).fill(bound));
+    // TODO: fix ...as unknown as...
+    this.observationSpace = new Box(
+      stackBound(space.low),
+      stackBound(space.high),
+      shape,
+      space.dtype
+    ) as unknown as Space<LazyFrames>;
+
+    this.stackSize = stackSize;
+    this.padding = padding;
+    this.wrapperKwargs = { stackSize, padding };
+    this.frames = [];
+    this.zeros = null;
+    this.lastObs = null;
+  }
+
+  /**
+   * Resets the wrapper, the stack is padded according to `padding`.
+   *
+   * @param options - additional informatiom to specify how the environment resets
+   * @returns An array of the stacked observations and info
+   */
+  reset(
+    options?: Record<string, any>
+  ): [LazyFrames, Record<string, any> | null] {
+    const [envObs, info] = this.env.reset(options);
+
+    this.disposeFrames();
+    const obs = envObs.clone();
+    let pad = obs;
+    if (this.padding === 'zero') {
+      if (this.zeros === null) {
+        this.zeros = tf.zeros(obs.shape, obs.dtype);
+      }
+      pad = this.zeros;
+    }
+    this.frames = [...new Array(this.stackSize - 1).fill(pad), obs];
+
+    return [this.lazyFrames(), info];
+  }
+
+  /**
+   * Adds the observation to the stack, the oldest observation is evicted
+   *
+   * @param obs - The observation of the environment
+   * @returns The stacked observations, the latest is last
+   */
+  observarionTransform(obs: tf.Tensor): LazyFrames {
+    const evicted = this.frames.shift();
+    this.frames.push(obs.clone());
+    if (evicted !== undefined) {
+      this.disposeFrame(evicted);
+    }
+
+    return this.lazyFrames();
+  }
+
+  /**
+   * Closes the environment and disposes the stacked frames.
+   */
+  close(): void {
+    this.disposeBuffer();
+    super.close();
+  }
+
+  /**
+   * Disposes the stacked frames and the tensors owned by the wrapper and the wrapped environment.
+   */
+  dispose(): void {
+    this.disposeBuffer();
+    super.dispose();
+  }
+
+  // Disposes a frame unless it is still in the stack or is the zero padding
+  private disposeFrame(frame: tf.Tensor): void {
+    if (frame !== this.zeros && !this.frames.includes(frame)) {
+      frame.dispose();
+    }
+  }
+
+  private disposeFrames(): void {
+    const frames = this.frames;
+    this.frames = [];
+    new Set(frames).forEach((frame) => this.disposeFrame(frame));
+  }
+
+  // The stacked frames of the buffer, the previous ones are disposed like owned tensors
+  private lazyFrames(): LazyFrames {
+    this.lastObs?.dispose();
+    this.lastObs = new LazyFrames(this.frames);
+    return this.lastObs;
+  }
+
+  private disposeBuffer(): void {
+    this.lastObs?.dispose();
+    this.lastObs = null;
+    this.disposeFrames();
+    this.zeros?.dispose();
+    this.zeros = null;
+  }
+}
@@ -0,0 +1,81 @@
+import { BaseEnv, RewardWrapper } from '../core';
+import { RunningMeanStd } from './utils';
+
+/**
+ * A wrapper that scales the rewards so that their discounted return has a variance of about 1,
+ * using the running variance of the discounted returns seen so far
+ */
+export class NormalizeReward<ObsType, ActType> extends RewardWrapper<
+  ObsType,
+  ActType
+> {
+  /** The running mean and variance of the discounted returns, can be saved and restored with `getState` and `setState` */
+  public readonly returnRms: RunningMeanStd;
+  /** If the running variance is updated, disable to freeze it for evaluation */
+  public updateRunningMean: boolean;
+  private readonly gamma: number;
+  private readonly epsilon: number;
+  private discountedReturn: number;
+
+  /**
+   * Creates an instance of NormalizeReward.
+   *
+   * @param env - The environment to wrap
+   * @param gamma - The discount factor of the return
+   * @param epsilon - A stability parameter added to the variance
+   */
+  constructor(
+    env: BaseEnv<ObsType, ActType>,
+    gamma: number = 0.99,
+    epsilon: number = 1e-8
+  ) {
+    super(env);
+
+    if (gamma < 0 || gamma > 1) {
+      throw new Error(`Gamma (${gamma}) must be between 0 and 1`);
+    }
+
+    this.returnRms = new RunningMeanStd(1);
+    this.updateRunningMean = true;
+    this.gamma = gamma;
+    this.epsilon = epsilon;
+    this.discountedReturn = 0;
+    this.wrapperKwargs = { gamma, epsilon };
+  }
+
+  /**
+   * Resets the wrapper and the discounted return.
+   *
+   * @param options - additional informatiom to specify how the environment resets
+   * @returns An array of the observation of the initial state and info
+   */
+  reset(options?: Record<string, any>): [ObsType, Record<string, any> | null] {
+    this.discountedReturn = 0;
+    return this.env.reset(options);
+  }
+
+  /**
+   * Scales the reward by the standard deviation of the discounted return
+   *
+   * @param reward - The reward of the environment
+   * @param terminated - If the episode terminated, the discounted return is then reset
+   * @param truncated - If the episode was truncated, the discounted return is then reset
+   * @returns The scaled reward
+   */
+  rewardTransform(
+    reward: number,
+    terminated: boolean,
+    truncated: boolean
+  ): number {
+    this.discountedReturn = this.discountedReturn * this.gamma + reward;
+    if (this.updateRunningMean) {
+      this.returnRms.update([this.discountedReturn]);
+    }
+
+    if (terminated || truncated) {
+      this.discountedReturn = 0;
+    }
+
+    return reward / Math.sqrt(this.returnRms.var[0] + this.epsilon);
+  }
+}
@@ -0,0 +1,171 @@
+import * as tf from '@tensorflow/tfjs';
+
+import { BaseEnv, ObservationWrapper } from '../core';
+import { Box } from '../spaces';
+
+/**
+ * A wrapper that resizes image observations of shape [height, width] or [height, width, channels] with bilinear interpolation
+ * The bounds of the elements of the observation space are resized the same way
+ */
+export class ResizeObservation<ActType> extends ObservationWrapper<
+  tf.Tensor,
+  tf.Tensor,
+  ActType
+> {
+  /** The height and width of the resized observations */
+  public readonly shape: [number, number];
+
+  /**
+   * Creates an instance of ResizeObservation.
+   *
+   * @param env - The environment to wrap, its observation space must be a `Box` of rank 2 or 3
+   * @param shape - The height and width of the resized observations
+   */
+  constructor(env: BaseEnv<tf.Tensor, ActType>, shape: [number, number]) {
+    super(env);
+
+    const space = env.observationSpace;
+    if (!(space instanceof Box)) {
+      throw new Error('ResizeObservation only works for Box space');
+    }
+    if (space.shape.length !== 2 && space.shape.length !== 3) {
+      throw new Error(
+        `Expected an observation of shape [height, width] or [height, width, channels], got [${space.shape}]`
+      );
+    }
+    if (shape.length !== 2 || !shape.every((dim) => dim > 0)) {
+      throw new Error(
+        `Expected a shape of positive [height, width], got [${shape}]`
+      );
+    }
+
+    this.shape = shape;
+    this.wrapperKwargs = { shape };
+    this.observationSpace = new Box(
+      resizeBound(space.low, shape, space.dtype, -Infinity),
+      resizeBound(space.high, shape, space.dtype, Infinity),
+      [...shape, ...space.shape.slice(2)],
+      space.dtype
+    );
+  }
+
+  /**
+   * Resizes the observation
+   *
+   * @param obs - The observation of the environment
+   * @returns The resized observation
+   */
+  observarionTransform(obs: tf.Tensor): tf.Tensor {
+    return tf.tidy(() => {
+      const image = (obs.rank === 2 ? obs.expandDims(-1) : obs).asType(
+        'float32'
+      ) as tf.Tensor3D;
+      let resized: tf.Tensor = tf.image.resizeBilinear(image, this.shape);
+      if (obs.rank === 2) {
+        resized = resized.squeeze([2]);
+      }
+      if (obs.dtype === 'int32') {
+        resized = resized.round();
+      }
+      return resized.asType(obs.dtype);
+    });
+  }
+}
+
+/**
+ * A wrapper that converts RGB image observations of shape [height, width, 3] to grayscale
+ */
+export class GrayscaleObservation<ActType> extends ObservationWrapper<
+  tf.Tensor,
+  tf.Tensor,
+  ActType
+> {
+  /** If the channel dimension is kept, the observations then have a shape of [height, width, 1] */
+  public readonly keepDim: boolean;
+
+  /**
+   * Creates an instance of GrayscaleObservation.
+   *
+   * @param env - The environment to wrap, its observation space must be a `Box` of shape [height, width, 3]
+   * @param keepDim - If the channel dimension is kept
+   */
+  constructor(env: BaseEnv<tf.Tensor, ActType>, keepDim: boolean = false) {
+    super(env);
+
+    const space = env.observationSpace;
+    if (!(space instanceof Box)) {
+      throw new Error('GrayscaleObservation only works for Box space');
+    }
+    if (space.shape.length !== 3 || space.shape[2] !== 3) {
+      throw new Error(
+        `Expected an observation of shape [height, width, 3], got [${space.shape}]`
+      );
+    }
+
+    this.keepDim = keepDim;
+    this.wrapperKwargs = { keepDim };
+    const [height, width] = space.shape;
+    this.observationSpace = new Box(
+      0,
+      255,
+      keepDim ? [height, width, 1] : [height, width],
+      space.dtype
+    );
+  }
+
+  /**
+   * Converts the observation to grayscale with the luminance weights of the ITU-R BT.709 standard
+   *
+   * @param obs - The observation of the environment
+   * @returns The grayscale observation
+   */
+  observarionTransform(obs: tf.Tensor): tf.Tensor {
+    return tf.tidy(() => {
+      let gray = obs
+        .asType('float32')
+        .mul(tf.tensor1d([0.2125, 0.7154, 0.0721]))
+        .sum(-1);
+      if (this.keepDim) {
+        gray = gray.expandDims(-1);
+      }
+      if (obs.dtype === 'int32') {
+        gray = gray.round();
+      }
+      return gray.asType(obs.dtype);
+    });
+  }
+}
+
+// Resizes the bounds of the elements like the observations, so that the resized observations stay in them.
+// Infinite bounds are kept infinite wherever they are interpolated since they can't be interpolated.
+function resizeBound(
+  bound: tf.Tensor | number,
+  shape: [number, number],
+  dtype: tf.DataType,
+  infinity: number
+): tf.Tensor | number {
+  if (typeof bound === 'number') {
+    return bound;
+  }
+
+  return tf.tidy(() => {
+    const image = (bound.rank === 2 ? bound.expandDims(-1) : bound).asType(
+      'float32'
+    ) as tf.Tensor3D;
+    const infinite = image.isInf();
+    const finite = tf.where(infinite, tf.zerosLike(image), image);
+
+    let resized: tf.Tensor = tf.where(
+      tf.image.resizeBilinear(infinite.asType('float32'), shape).greater(0),
+      tf.fill([...shape, image.shape[2]], infinity),
+      tf.image.resizeBilinear(finite, shape)
+    );
+    if (bound.rank === 2) {
+      resized = resized.squeeze([2]);
+    }
+    if (dtype === 'int32') {
+      resized = resized.round();
+    }
+    return resized.asType(dtype);
+  });
+}
@@ -1,6 +1,6 @@
 import * as tf from '@tensorflow/tfjs';
 
-import { Env, RewardWrapper } from '../core';
+import { BaseEnv, RewardWrapper } from '../core';
 
 export class ClipReward<ObsType, ActType> extends RewardWrapper<
   ObsType,
@@ -10,7 +10,7 @@ export class ClipReward<ObsType, ActType> extends RewardWrapper<
   private maxReward: number | null;
 
   constructor(
-    env: Env<ObsType, ActType>,
+    env: BaseEnv<ObsType, ActType>,
     minReward: number | null,
     maxReward: number | null
   ) {
@@ -28,6 +28,7 @@ export class ClipReward<ObsType, ActType> extends RewardWrapper<
 
     this.minReward = minReward;
     this.maxReward = maxReward;
+    this.wrapperKwargs = { minReward, maxReward };
   }
 
   rewardTransform(reward: number): number {
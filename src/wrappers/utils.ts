@@ -0,0 +1,89 @@
+/**
+ * The statistics of `RunningMeanStd`, that can be saved as JSON
+ */
+export interface RunningMeanStdState {
+  /** The mean of each element */
+  mean: number[];
+  /** The variance of each element */
+  var: number[];
+  /** The number of values, starts at a small epsilon */
+  count: number;
+}
+
+/**
+ * Tracks the mean and variance of a stream of values with Welford's online algorithm
+ */
+export class RunningMeanStd {
+  /** The mean of each element */
+  public mean: Float64Array;
+  /** The variance of each element */
+  public var: Float64Array;
+  /** The number of values, starts at a small epsilon */
+  public count: number;
+
+  /**
+   * Creates an instance of RunningMeanStd.
+   *
+   * @param size - The number of elements of the values
+   * @param epsilon - The initial count, avoids dividing by zero before the first update
+   */
+  constructor(size: number, epsilon: number = 1e-4) {
+    this.mean = new Float64Array(size);
+    this.var = new Float64Array(size).fill(1);
+    this.count = epsilon;
+  }
+
+  /**
+   * Updates the statistics with one value
+   *
+   * @param x - The elements of the value
+   */
+  update(x: ArrayLike<number>): void {
+    if (x.length !== this.mean.length) {
+      throw new Error(
+        `Expected a value of ${this.mean.length} elements, got ${x.length}!`
+      );
+    }
+
+    const totalCount = this.count + 1;
+    for (let i = 0; i < x.length; i++) {
+      const delta = x[i] - this.mean[i];
+      const m2 =
+        this.var[i] * this.count + (delta * delta * this.count) / totalCount;
+      this.mean[i] += delta / totalCount;
+      this.var[i] = m2 / totalCount;
+    }
+    this.count = totalCount;
+  }
+
+  /**
+   * @returns A copy of the statistics
+   */
+  getState(): RunningMeanStdState {
+    return {
+      mean: Array.from(this.mean),
+      var: Array.from(this.var),
+      count: this.count,
+    };
+  }
+
+  /**
+   * Restores statistics returned by `getState`
+   *
+   * @param state - The statistics to restore
+   */
+  setState(state: RunningMeanStdState): void {
+    if (
+      state.mean.length !== this.mean.length ||
+      state.var.length !== this.var.length
+    ) {
+      throw new Error(
+        `Expected statistics of ${this.mean.length} elements, got ${state.mean.length}!`
+      );
+    }
+
+    this.mean = Float64Array.from(state.mean);
+    this.var = Float64Array.from(state.var);
+    this.count = state.count;
+  }
+}
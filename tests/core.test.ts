@@ -41,11 +41,56 @@ class ExampleEnv extends Env<tf.Tensor, tf.Tensor> {
   }
 }
 
+// An environment that declares its render modes
+class ExampleAnsiEnv extends Env<tf.Tensor, tf.Tensor> {
+  static readonly metadata = { renderModes: ['ansi'], renderFps: 4 };
+
+  constructor(renderMode: string | null) {
+    super(new Box(0, 1, [1]), new Box(0, 1, [1]), renderMode);
+  }
+
+  reset(options?: Record<string, any>): [Tensor, null] {
+    return [tf.tensor([0]), null];
+  }
+
+  async step(
+    action: tf.Tensor
+  ): Promise<[tf.Tensor, number, boolean, boolean, null]> {
+    return [tf.tensor([0]), 0, false, false, null];
+  }
+
+  async render(): Promise<string> {
+    return '';
+  }
+
+  close(): void {
+    return;
+  }
+}
+
 describe('Test Env', () => {
   const exampleEnv = new ExampleEnv();
   it('Rendermode should be null', () => {
     expect(exampleEnv.renderMode).toBe(null);
   });
+
+  it('Metadata should be empty by default', () => {
+    expect(exampleEnv.metadata).toStrictEqual({
+      renderModes: [],
+      renderFps: null,
+    });
+  });
+
+  it('Render mode should be one of the render modes of the metadata', () => {
+    expect(new ExampleAnsiEnv('ansi').metadata.renderFps).toBe(4);
+    expect(() => new ExampleAnsiEnv(null)).not.toThrowError();
+    expect(() => new ExampleAnsiEnv('human')).toThrowError();
+  });
+
+  it('Wrapper should forward the metadata', () => {
+    const wrapper = new ExampleWrapper(new ExampleAnsiEnv('ansi'));
+    expect(wrapper.metadata.renderModes).toStrictEqual(['ansi']);
+  });
 });
 
 class ExampleWrapper extends Wrapper<
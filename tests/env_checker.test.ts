@@ -0,0 +1,112 @@
+import { test, expect, beforeEach, describe, it } from 'vitest';
+import * as tf from '@tensorflow/tfjs';
+
+import { Env } from '../src/core';
+import { Box } from '../src/spaces';
+import { checkEnv } from '../src/env_checker';
+import { CartPoleEnv, PendulumEnv } from '../src/envs/classic_control';
+import { make } from '../src/envs';
+
+// An env with configurable bugs
+class ExampleEnv extends Env<tf.Tensor, tf.Tensor> {
+  public bugs: Record<string, boolean>;
+  private closed: boolean;
+  constructor(
+    bugs: Record<string, boolean> = {},
+    renderMode: string | null = null
+  ) {
+    const observationSpace = new Box(0, 1, [2], 'float32');
+    const actioSpace = new Box(0, 1, [2], 'float32');
+    super(actioSpace, observationSpace, renderMode);
+    this.bugs = bugs;
+    this.closed = false;
+  }
+
+  reset(options?: Record<string, any>): [tf.Tensor, null] {
+    this.seed(options?.seed);
+    const value = this.bugs.unseeded ? Math.random() : this.rng.random();
+    return [tf.tensor([value, 0]), null];
+  }
+
+  async step(
+    action: tf.Tensor
+  ): Promise<[tf.Tensor, number, boolean, boolean, any]> {
+    if (this.bugs.disposeAction) {
+      action.dispose();
+    }
+    const obs = this.bugs.outOfSpace ? tf.tensor([2, 0]) : tf.tensor([0, 0]);
+    const reward = this.bugs.nanReward ? NaN : 0;
+    const info = this.bugs.arrayInfo ? [] : null;
+    return [obs, reward, false, false, info];
+  }
+
+  async render(): Promise<tf.Tensor> {
+    return this.bugs.badFrame ? tf.zeros([4, 4]) : tf.zeros([4, 4, 3], 'int32');
+  }
+
+  close(): void {
+    if (this.bugs.closeTwice && this.closed) {
+      throw new Error('Already closed');
+    }
+    this.closed = true;
+  }
+}
+
+describe('Test Valid Environments', () => {
+  it.each([
+    ['CartPoleEnv', () => new CartPoleEnv()],
+    ['PendulumEnv', () => new PendulumEnv()],
+    ['CartPole-v1', () => make('CartPole-v1')],
+    ['ExampleEnv', () => new ExampleEnv({}, 'rgb_array')],
+  ])('%s should have no issues', async (name, createEnv) => {
+    expect(await checkEnv(createEnv())).toStrictEqual([]);
+  });
+});
+
+describe.each([
+  ['unseeded', 'seeding', 'error'],
+  ['disposeAction', 'step', 'error'],
+  ['outOfSpace', 'step', 'error'],
+  ['nanReward', 'step', 'warning'],
+  ['arrayInfo', 'step', 'error'],
+  ['badFrame', 'render', 'error'],
+  ['closeTwice', 'close', 'error'],
+])('Test Environment with bug %s', (bug, check, level) => {
+  it(`Should report a ${level} for ${check}`, async () => {
+    const env = new ExampleEnv({ [bug]: true }, 'rgb_array');
+    const issues = await checkEnv(env);
+    expect(issues.length).toBeGreaterThan(0);
+    expect.assert(
+      issues.some((issue) => issue.check === check && issue.level === level)
+    );
+  });
+});
+
+describe('Test Render Modes', () => {
+  it('Should report an ansi render that is not a string', async () => {
+    const env = new ExampleEnv({}, 'ansi');
+    const issues = await checkEnv(env);
+    expect(issues.map((issue) => issue.check)).toStrictEqual(['render']);
+  });
+
+  it('Should report a render mode missing from the metadata', async () => {
+    const env = new CartPoleEnv();
+    env.renderMode = 'ansi';
+    const issues = await checkEnv(env, { skipRenderCheck: true });
+    expect(issues.map((issue) => issue.check)).toStrictEqual(['metadata']);
+  });
+
+  it('Should check the frames in rgb_array_list mode', async () => {
+    const env = make('CartPole-v1', {
+      kwargs: { renderMode: 'rgb_array_list' },
+    });
+    expect(await checkEnv(env)).toStrictEqual([]);
+  });
+});
+
+describe('Test Invalid Objects', () => {
+  it('Should report objects that are not environments', async () => {
+    const issues = await checkEnv({} as any);
+    expect(issues[0].check).toBe('env');
+  });
+});
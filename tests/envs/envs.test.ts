@@ -1,12 +1,24 @@
 import { test, expect, beforeEach, describe, it } from 'vitest';
 import * as tf from '@tensorflow/tfjs';
 
-import { CartPoleEnv, PendulumEnv } from '../../src/envs/classic_control';
+import {
+  AcrobotEnv,
+  CartPoleEnv,
+  MountainCarContinuousEnv,
+  MountainCarEnv,
+  PendulumEnv,
+} from '../../src/envs/classic_control';
 import { Env } from '../../src/core';
+import { make } from '../../src/envs';
+import { valueData } from '../../src/spaces';
+import { checkEnv } from '../../src/env_checker';
 
 describe.each([
   [CartPoleEnv, 'CartPoleEnv'],
   [PendulumEnv, 'PendulumEnv'],
+  [AcrobotEnv, 'AcrobotEnv'],
+  [MountainCarEnv, 'MountainCarEnv'],
+  [MountainCarContinuousEnv, 'MountainCarContinuousEnv'],
 ])('Testing Environment $name', (env, name) => {
   it(`${name} should construct successfully`, async () => {
     expect(() => new env()).not.toThrowError();
@@ -38,3 +50,201 @@ describe.each([
     expect.assert(environment.observationSpace.contains(obs));
   });
 });
+
+describe.each([
+  [CartPoleEnv, 'CartPoleEnv'],
+  [PendulumEnv, 'PendulumEnv'],
+  [AcrobotEnv, 'AcrobotEnv'],
+  [MountainCarEnv, 'MountainCarEnv'],
+  [MountainCarContinuousEnv, 'MountainCarContinuousEnv'],
+])('Testing Seeding of Environment $name', (env, name) => {
+  async function rollout(environment: Env<tf.Tensor, any>, seed: number) {
+    const observations = [];
+    const [obs, info] = environment.reset({ seed });
+    observations.push(obs.arraySync());
+
+    environment.actionSpace.seed(seed);
+    for (let i = 0; i < 10; i++) {
+      const [obs, reward, terminated, truncated, info] = await environment.step(
+        environment.actionSpace.sample()
+      );
+      observations.push(obs.arraySync());
+    }
+
+    return observations;
+  }
+
+  it(`${name} should produce the same observations with the same seed`, async () => {
+    const first = await rollout(new env(), 42);
+    const second = await rollout(new env(), 42);
+    expect(first).toStrictEqual(second);
+  });
+
+  it(`${name} should produce different observations with different seeds`, async () => {
+    const first = await rollout(new env(), 1);
+    const second = await rollout(new env(), 2);
+    expect(first).not.toStrictEqual(second);
+  });
+});
+
+describe('Testing AcrobotEnv dynamics', () => {
+  it('Should start hanging downwards', () => {
+    const env = new AcrobotEnv();
+    const [obs] = env.reset({ seed: 0 });
+    const [cos1, sin1, cos2, sin2] = obs.arraySync() as number[];
+    expect(cos1).toBeGreaterThan(0.99);
+    expect(cos2).toBeGreaterThan(0.99);
+    expect(Math.abs(sin1)).toBeLessThan(0.1);
+    expect(Math.abs(sin2)).toBeLessThan(0.1);
+  });
+
+  it('Should give a reward of -1 until the goal is reached', async () => {
+    const env = new AcrobotEnv();
+    env.reset({ seed: 0 });
+    const [, reward, terminated] = await env.step(1);
+    expect(reward).toBe(-1);
+    expect(terminated).toBe(false);
+  });
+
+  it('Should keep the velocities bounded', async () => {
+    const env = new AcrobotEnv();
+    env.reset({ seed: 0 });
+    for (let i = 0; i < 100; i++) {
+      const [obs, , terminated] = await env.step(i % 20 < 10 ? 0 : 2);
+      expect.assert(env.observationSpace.contains(obs));
+      if (terminated) {
+        break;
+      }
+    }
+  });
+
+  it('Should use different dynamics for nips', async () => {
+    const book = new AcrobotEnv('book');
+    const nips = new AcrobotEnv('nips');
+    book.reset({ seed: 3, low: 0.5, high: 1.0 });
+    nips.reset({ seed: 3, low: 0.5, high: 1.0 });
+    const [bookObs] = await book.step(2);
+    const [nipsObs] = await nips.step(2);
+    expect(bookObs.arraySync()).not.toEqual(nipsObs.arraySync());
+  });
+
+  it('Should throw when the reset bounds are inverted', () => {
+    const env = new AcrobotEnv();
+    expect(() => env.reset({ low: 1, high: -1 })).toThrow();
+  });
+});
+
+describe.each([
+  [MountainCarEnv, 'MountainCarEnv'],
+  [MountainCarContinuousEnv, 'MountainCarContinuousEnv'],
+])('Testing %s options', (env, name) => {
+  it(`${name} should start in the reset bounds with no velocity`, () => {
+    const environment = new env();
+    const [obs] = environment.reset({ seed: 0, low: -0.3, high: -0.2 });
+    const [position, velocity] = obs.arraySync() as number[];
+    expect(position).toBeGreaterThanOrEqual(-0.3);
+    expect(position).toBeLessThanOrEqual(-0.2);
+    expect(velocity).toBe(0);
+  });
+
+  it(`${name} should throw when the reset bounds are inverted`, () => {
+    const environment = new env();
+    expect(() => environment.reset({ low: 0, high: -1 })).toThrow();
+  });
+
+  it(`${name} should not terminate at the goal below the goal velocity`, async () => {
+    const environment = new env(1.0);
+    environment.reset({ seed: 0, low: 0.55, high: 0.55 });
+    const action =
+      environment instanceof MountainCarEnv ? 1 : tf.tensor([0], [1]);
+    // @ts-ignore
+    const [obs, reward, terminated] = await environment.step(action);
+    expect((obs.arraySync() as number[])[0]).toBeGreaterThan(0.45);
+    expect(terminated).toBe(false);
+  });
+
+  it(`${name} should terminate at the goal`, async () => {
+    const environment = new env();
+    environment.reset({ seed: 0, low: 0.55, high: 0.55 });
+    const action =
+      environment instanceof MountainCarEnv ? 2 : tf.tensor([1], [1]);
+    // @ts-ignore
+    const [obs, reward, terminated] = await environment.step(action);
+    expect(terminated).toBe(true);
+  });
+});
+
+describe('Testing MountainCarContinuousEnv rewards', () => {
+  it('Should penalise the squared force', async () => {
+    const env = new MountainCarContinuousEnv();
+    env.reset({ seed: 0 });
+    const [, reward] = await env.step(tf.tensor([0.5], [1]));
+    expect(reward).toBeCloseTo(-0.025);
+  });
+
+  it('Should reward reaching the goal', async () => {
+    const env = new MountainCarContinuousEnv();
+    env.reset({ seed: 0, low: 0.55, high: 0.55 });
+    const [, reward, terminated] = await env.step(tf.tensor([1], [1]));
+    expect(terminated).toBe(true);
+    expect(reward).toBeCloseTo(99.9);
+  });
+});
+
+describe.each([
+  [CartPoleEnv, 'CartPoleEnv'],
+  [PendulumEnv, 'PendulumEnv'],
+  [AcrobotEnv, 'AcrobotEnv'],
+  [MountainCarEnv, 'MountainCarEnv'],
+  [MountainCarContinuousEnv, 'MountainCarContinuousEnv'],
+])('Testing Array Backend of Environment %s', (env, name) => {
+  async function rollout(environment: Env<any, any>) {
+    const observations = [];
+    const [obs] = environment.reset({ seed: 42 });
+    observations.push(Array.from(valueData(obs)));
+    environment.actionSpace.seed(42);
+    for (let i = 0; i < 10; i++) {
+      const [obs] = await environment.step(environment.actionSpace.sample());
+      expect.assert(environment.observationSpace.contains(obs));
+      observations.push(Array.from(valueData(obs)));
+    }
+    return observations;
+  }
+
+  it(`${name} should return typed array observations`, async () => {
+    const environment = new env(undefined, null, null, 'array');
+    const [obs] = environment.reset({ seed: 42 });
+    expect(obs).toBeInstanceOf(Float32Array);
+    expect.assert(environment.observationSpace.contains(obs));
+
+    const [stepObs] = await environment.step(
+      // @ts-ignore
+      environment.actionSpace.sample()
+    );
+    expect(stepObs).toBeInstanceOf(Float32Array);
+  });
+
+  it(`${name} should match the tensor backend`, async () => {
+    expect(
+      await rollout(new env(undefined, null, null, 'array'))
+    ).toStrictEqual(await rollout(new env()));
+  });
+});
+
+describe('Testing Array Backend with make', () => {
+  it('Should pass the backend to the environment', async () => {
+    const env = make('CartPole-v1', { kwargs: { backend: 'array' } });
+    const [obs] = env.reset({ seed: 42 });
+    expect(obs).toBeInstanceOf(Float32Array);
+    const [stepObs] = await env.step(env.actionSpace.sample());
+    expect(stepObs).toBeInstanceOf(Float32Array);
+  });
+
+  it('Should pass the environment checker', async () => {
+    const env = make('MountainCarContinuous-v0', {
+      kwargs: { backend: 'array' },
+      disableEnvChecker: true,
+    });
+    expect(await checkEnv(env)).toStrictEqual([]);
+  });
+});
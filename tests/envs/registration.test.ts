@@ -0,0 +1,341 @@
+import { test, expect, beforeEach, describe, it } from 'vitest';
+import * as tf from '@tensorflow/tfjs';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { BaseEnv, Env, RewardWrapper } from '../../src/core';
+import { Box } from '../../src/spaces/box';
+import {
+  EnvSpec,
+  make,
+  register,
+  registerWrapper,
+  registry,
+  spec,
+  parseEnvId,
+} from '../../src/envs';
+import { CartPoleEnv } from '../../src/envs/classic_control';
+import {
+  Autoreset,
+  ClipReward,
+  FrameStackObservation,
+  OrderEnforcing,
+  PassiveEnvChecker,
+  RecordVideo,
+  RenderCollection,
+  TimeLimit,
+} from '../../src/wrappers';
+
+class ExampleEnv extends Env<tf.Tensor, tf.Tensor> {
+  public value: number;
+  constructor(value: number = 0) {
+    const observationSpace = new Box(0, 1, [1], 'float32');
+    const actioSpace = new Box(0, 1, [1], 'float32');
+    super(actioSpace, observationSpace, null);
+    this.value = value;
+  }
+
+  reset(options?: Record<string, any>): [tf.Tensor, null] {
+    return [tf.tensor([0]), null];
+  }
+
+  async step(
+    action: tf.Tensor
+  ): Promise<[tf.Tensor, number, boolean, boolean, null]> {
+    return [tf.tensor([0]), 0, false, false, null];
+  }
+
+  async render(): Promise<void> {
+    return;
+  }
+
+  close(): void {
+    return;
+  }
+}
+
+register({
+  id: 'test/Example-v0',
+  entryPoint: (kwargs) => new ExampleEnv(kwargs.value),
+});
+
+register({
+  id: 'test/Example-v1',
+  entryPoint: (kwargs) => new ExampleEnv(kwargs.value),
+  maxEpisodeSteps: 10,
+  kwargs: { value: 1 },
+});
+
+describe('Test Environment Ids', () => {
+  it.each([
+    ['CartPole-v1', [null, 'CartPole', 1]],
+    ['CartPole', [null, 'CartPole', null]],
+    ['test/Example-v10', ['test', 'Example', 10]],
+  ])('Id %s should be parsed correctly', (id, expected) => {
+    expect(parseEnvId(id)).toStrictEqual(expected);
+  });
+
+  it('Malformed id should throw', () => {
+    expect(() => parseEnvId('a/b/c')).toThrow('Malformed environment ID');
+  });
+});
+
+describe('Test Registry', () => {
+  it('Classic control environments should be registered', () => {
+    expect('CartPole-v1' in registry).toBe(true);
+    expect('Pendulum-v1' in registry).toBe(true);
+    expect(spec('CartPole-v1').maxEpisodeSteps).toBe(500);
+    expect(spec('Pendulum-v1').maxEpisodeSteps).toBe(200);
+  });
+
+  it('Should not register the same id twice', () => {
+    expect(() =>
+      register({ id: 'test/Example-v1', entryPoint: () => new ExampleEnv() })
+    ).toThrow('Environment test/Example-v1 is already registered!');
+  });
+
+  it('Should throw for unregistered environments', () => {
+    expect(() => spec('Unknown-v0')).toThrow(
+      'No registered env with id: Unknown-v0'
+    );
+  });
+
+  it('Should throw for missing versions', () => {
+    expect(() => spec('test/Example')).toThrow(
+      "Environment test/Example doesn't exist unversioned, use test/Example-v1 instead."
+    );
+    expect(() => spec('test/Example-v2')).toThrow(
+      "Environment version v2 for test/Example doesn't exist"
+    );
+  });
+});
+
+describe('Test Make', () => {
+  it('Should apply the default wrappers', () => {
+    const env = make('CartPole-v1');
+    expect.assert(env instanceof TimeLimit);
+    expect.assert((env as TimeLimit<any, any>).env instanceof OrderEnforcing);
+    expect.assert(env.unwrapped instanceof CartPoleEnv);
+  });
+
+  it('Should not apply TimeLimit without maxEpisodeSteps', () => {
+    const env = make('test/Example-v0');
+    expect.assert(env instanceof OrderEnforcing);
+  });
+
+  it('Should apply the env checker below OrderEnforcing', () => {
+    const env = make('test/Example-v0') as OrderEnforcing<any, any>;
+    expect.assert(env.env instanceof PassiveEnvChecker);
+    expect.assert(
+      (env.env as PassiveEnvChecker<any, any>).env instanceof ExampleEnv
+    );
+  });
+
+  it('Should apply overrides', () => {
+    const env = make('test/Example-v1', {
+      maxEpisodeSteps: null,
+      orderEnforce: false,
+      autoreset: true,
+      disableEnvChecker: true,
+      kwargs: { value: 2 },
+    });
+    expect.assert(env instanceof Autoreset);
+    expect.assert((env as Autoreset<any, any>).env instanceof ExampleEnv);
+    expect((env.unwrapped as ExampleEnv).value).toBe(2);
+  });
+
+  it('Should pass the spec kwargs', () => {
+    const env = make('test/Example-v1');
+    expect((env.unwrapped as ExampleEnv).value).toBe(1);
+  });
+
+  it('Should truncate after maxEpisodeSteps', async () => {
+    const env = make('test/Example-v1', { maxEpisodeSteps: 2 });
+    env.reset();
+    let [, , , truncated] = await env.step(tf.tensor([0]));
+    expect(truncated).toBe(false);
+    [, , , truncated] = await env.step(tf.tensor([0]));
+    expect(truncated).toBe(true);
+  });
+
+  it('Made environment should enforce order', async () => {
+    const env = make('CartPole-v1');
+    await expect(env.step(0)).rejects.toThrow(
+      'Cannot call env.step() before calling env.reset()'
+    );
+  });
+});
+
+// A custom wrapper that scales the rewards, registered to be recreated from specs
+class ScaleReward extends RewardWrapper<any, any> {
+  private scale: number;
+  constructor(env: BaseEnv<any, any>, scale: number) {
+    super(env);
+    this.scale = scale;
+    this.wrapperKwargs = { scale };
+  }
+
+  rewardTransform(reward: number): number {
+    return reward * this.scale;
+  }
+}
+
+registerWrapper(
+  'ScaleReward',
+  (env, kwargs) => new ScaleReward(env, kwargs.scale)
+);
+
+describe('Test Environment Spec', () => {
+  it('Made environments should have the spec they were made with', () => {
+    const env = make('CartPole-v1', { kwargs: { suttonBartoReward: true } });
+    expect(env.spec?.id).toBe('CartPole-v1');
+    expect(env.spec?.maxEpisodeSteps).toBe(500);
+    expect(env.spec?.orderEnforce).toBe(true);
+    expect(env.spec?.disableEnvChecker).toBe(false);
+    expect(env.spec?.kwargs).toStrictEqual({ suttonBartoReward: true });
+    expect(env.spec?.additionalWrappers).toStrictEqual([]);
+    expect(env.unwrapped.spec?.id).toBe('CartPole-v1');
+  });
+
+  it('Environments created without make should have no spec', () => {
+    const env = new TimeLimit(new CartPoleEnv(), 10);
+    expect(env.spec).toBeNull();
+    expect(env.unwrapped.spec).toBeNull();
+  });
+
+  it('Should record the overrides of make', () => {
+    const env = make('test/Example-v1', {
+      maxEpisodeSteps: null,
+      orderEnforce: false,
+      autoreset: true,
+      kwargs: { value: 2 },
+    });
+    expect(env.spec?.maxEpisodeSteps).toBeNull();
+    expect(env.spec?.orderEnforce).toBe(false);
+    expect(env.spec?.autoreset).toBe(true);
+    expect(env.spec?.kwargs).toStrictEqual({ value: 2 });
+  });
+
+  it('Should record the wrappers applied after make with their kwargs', () => {
+    const env = new FrameStackObservation(
+      new ClipReward(make('CartPole-v1'), 0, 0.5),
+      4,
+      'zero'
+    );
+    expect(env.spec?.additionalWrappers).toStrictEqual([
+      { name: 'ClipReward', kwargs: { minReward: 0, maxReward: 0.5 } },
+      {
+        name: 'FrameStackObservation',
+        kwargs: { stackSize: 4, padding: 'zero' },
+      },
+    ]);
+  });
+
+  it('Should record the wrappers of make in the spec fields', () => {
+    const env = new TimeLimit(make('test/Example-v0'), 20);
+    expect(env.spec?.maxEpisodeSteps).toBe(20);
+    expect(env.spec?.additionalWrappers).toStrictEqual([]);
+  });
+
+  it('Should record the rgb_array_list render mode', () => {
+    const env = make('CartPole-v1', {
+      kwargs: { renderMode: 'rgb_array_list' },
+    });
+    expect(env.unwrapped.spec?.kwargs.renderMode).toBe('rgb_array');
+    expect(env.spec?.kwargs.renderMode).toBe('rgb_array_list');
+
+    const wrapped = new RenderCollection(
+      make('CartPole-v1', { kwargs: { renderMode: 'rgb_array' } }),
+      false
+    );
+    expect(wrapped.spec?.kwargs.renderMode).toBe('rgb_array');
+    expect(wrapped.spec?.additionalWrappers).toStrictEqual([
+      {
+        name: 'RenderCollection',
+        kwargs: { popFrames: false, resetClean: true },
+      },
+    ]);
+  });
+});
+
+describe('Test Environment String', () => {
+  it('Should print the wrappers and the id of made environments', () => {
+    const env = make('CartPole-v1', { disableEnvChecker: true });
+    expect(env.toString()).toBe(
+      '<TimeLimit<OrderEnforcing<CartPoleEnv<CartPole-v1>>>>'
+    );
+    expect(`${new ClipReward(env, 0, 1)}`).toBe(
+      '<ClipReward<TimeLimit<OrderEnforcing<CartPoleEnv<CartPole-v1>>>>>'
+    );
+  });
+
+  it('Should print the instances of environments without spec', () => {
+    expect(new CartPoleEnv().toString()).toBe('<CartPoleEnv instance>');
+    expect(new TimeLimit(new CartPoleEnv(), 10).toString()).toBe(
+      '<TimeLimit<CartPoleEnv instance>>'
+    );
+  });
+});
+
+describe('Test Spec Serialization', () => {
+  it('Should serialize and deserialize specs', () => {
+    const envSpec = spec('FrozenLake-v1');
+    const copy = EnvSpec.fromJson(envSpec.toJson());
+    expect(copy).toStrictEqual(envSpec);
+  });
+
+  it('Should recreate the environments from their spec', async () => {
+    const env = new ScaleReward(
+      new ClipReward(
+        make('test/Example-v1', { autoreset: true, kwargs: { value: 3 } }),
+        -1,
+        1
+      ),
+      2
+    );
+    const json = env.spec!.toJson();
+    const recreated = make(EnvSpec.fromJson(json));
+
+    expect(recreated.toString()).toBe(env.toString());
+    expect(recreated.spec?.toJson()).toBe(json);
+    expect((recreated.unwrapped as ExampleEnv).value).toBe(3);
+    expect.assert(recreated instanceof ScaleReward);
+  });
+
+  it('Should recreate the rgb_array_list render mode', () => {
+    const env = make('CartPole-v1', {
+      kwargs: { renderMode: 'rgb_array_list' },
+    });
+    const recreated = make(EnvSpec.fromJson(env.spec!.toJson()));
+    expect(recreated.toString()).toBe(env.toString());
+    expect(recreated.renderMode).toBe('rgb_array_list');
+  });
+
+  it('Should throw for values that cannot be serialized', () => {
+    const env = make('CartPole-v1', { kwargs: { canvas: new Map() } });
+    expect(() => env.spec?.toJson()).toThrow(
+      "The kwargs.canvas of CartPole-v1 can't be serialized to JSON."
+    );
+
+    const folder = fs.mkdtempSync(path.join(os.tmpdir(), 'spec-'));
+    const recorded = new RecordVideo(
+      make('CartPole-v1', { kwargs: { renderMode: 'rgb_array' } }),
+      folder,
+      () => true
+    );
+    expect(() => recorded.spec?.toJson()).toThrow(
+      "The additionalWrappers[0].kwargs.episodeTrigger of CartPole-v1 can't be serialized to JSON."
+    );
+    fs.rmSync(folder, { recursive: true, force: true });
+  });
+
+  it('Should throw for unregistered wrappers', () => {
+    const envSpec = spec('CartPole-v1').copy({
+      additionalWrappers: [{ name: 'Unknown', kwargs: {} }],
+    });
+    expect(() => make(envSpec)).toThrow(
+      'Wrapper Unknown of CartPole-v1 is not registered, register it with registerWrapper.'
+    );
+  });
+});
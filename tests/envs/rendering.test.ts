@@ -0,0 +1,126 @@
+import { expect, describe, it, vi } from 'vitest';
+import * as tf from '@tensorflow/tfjs';
+
+import {
+  AcrobotEnv,
+  CartPoleEnv,
+  MountainCarContinuousEnv,
+  MountainCarEnv,
+  PendulumEnv,
+} from '../../src/envs/classic_control';
+import { Renderer } from '../../src/envs/classic_control/rendering';
+import { AddRenderObservation } from '../../src/wrappers';
+import { make } from '../../src/envs';
+
+describe.each([
+  [CartPoleEnv, 'CartPoleEnv', [400, 600, 3]],
+  [PendulumEnv, 'PendulumEnv', [500, 500, 3]],
+  [AcrobotEnv, 'AcrobotEnv', [500, 500, 3]],
+  [MountainCarEnv, 'MountainCarEnv', [400, 600, 3]],
+  [MountainCarContinuousEnv, 'MountainCarContinuousEnv', [400, 600, 3]],
+])('Testing rgb_array rendering of $name', (env, name, shape) => {
+  it(`${name} should render a frame right after a reset`, () => {
+    const environment = new env(undefined, 'rgb_array');
+    environment.reset({ seed: 0 });
+
+    const frame = environment.renderFrame();
+    expect(frame.shape).toStrictEqual(shape);
+    expect(frame.dtype).toBe('int32');
+    expect(frame.min().arraySync()).toBeGreaterThanOrEqual(0);
+    expect(frame.max().arraySync()).toBeLessThanOrEqual(255);
+    environment.close();
+  });
+
+  it(`${name} should render the same frame asynchronously`, async () => {
+    const environment = new env(undefined, 'rgb_array');
+    environment.reset({ seed: 0 });
+    await environment.step(environment.actionSpace.sample() as any);
+
+    const frame = (await environment.render()) as tf.Tensor;
+    expect(frame.arraySync()).toStrictEqual(
+      environment.renderFrame().arraySync()
+    );
+    environment.close();
+  });
+
+  it(`${name} should declare its render modes`, () => {
+    expect(env.metadata.renderModes).toStrictEqual(['human', 'rgb_array']);
+    expect(env.metadata.renderFps).toBeGreaterThan(0);
+    expect(() => new env(undefined, 'ansi' as any)).toThrowError();
+  });
+
+  it(`${name} should not render frames without the rgb_array mode`, () => {
+    const environment = new env();
+    environment.reset();
+    expect(() => environment.renderFrame()).toThrowError();
+  });
+});
+
+describe('Test Renderer', () => {
+  it('Should not create a canvas without a render mode', () => {
+    const renderer = new Renderer('Test', 4, 2, null);
+    expect(renderer.ready).toBeNull();
+    expect(() => renderer.getContext()).toThrowError();
+  });
+
+  it('Should ask to await the canvas loaded asynchronously', async () => {
+    // Node JS versions without process.getBuiltinModule, with a fresh module that hasn't loaded the canvas yet
+    vi.stubGlobal('process', { ...process, getBuiltinModule: undefined });
+    vi.resetModules();
+    const rendering = await import('../../src/envs/classic_control/rendering');
+    const renderer = new rendering.Renderer('Test', 4, 2, 'rgb_array');
+    vi.unstubAllGlobals();
+
+    expect(renderer.ready).not.toBeNull();
+    expect(() => renderer.frame()).toThrowError(
+      "Can't read a frame without a canvas! The canvas is still loading, await `ready`"
+    );
+    expect(() => renderer.getContext()).toThrowError(
+      'The canvas is still loading'
+    );
+
+    await renderer.ready;
+    expect(renderer.frame().shape).toStrictEqual([2, 4, 3]);
+  });
+
+  it('Should create an offscreen canvas synchronously in rgb_array mode', () => {
+    const renderer = new Renderer('Test', 4, 2, 'rgb_array');
+    expect(renderer.ready).toBeNull();
+
+    const ctx = renderer.getContext();
+    ctx.fillStyle = '#ff8000';
+    ctx.fillRect(0, 0, 4, 2);
+
+    const frame = renderer.frame();
+    expect(frame.shape).toStrictEqual([2, 4, 3]);
+    expect(frame.arraySync()).toStrictEqual(
+      Array(2).fill(Array(4).fill([255, 128, 0]))
+    );
+  });
+
+  it('Should be used to add frames to the observations', () => {
+    const env = new AddRenderObservation(new CartPoleEnv(false, 'rgb_array'));
+    expect(env.observationSpace.shape).toStrictEqual([400, 600, 3]);
+
+    const [obs] = env.reset();
+    expect(env.observationSpace.contains(obs)).toBe(true);
+  });
+});
+
+describe('Test rgb_array_list render mode', () => {
+  it('Should collect the frames of the environments made in rgb_array_list mode', async () => {
+    const env = make('CartPole-v1', {
+      kwargs: { renderMode: 'rgb_array_list' },
+    });
+    expect(env.renderMode).toBe('rgb_array_list');
+
+    env.reset({ seed: 0 });
+    await env.step(0);
+    await env.step(1);
+
+    const frames = (await env.render()) as tf.Tensor[];
+    expect(frames.length).toBe(3);
+    frames.forEach((frame) => expect(frame.shape).toStrictEqual([400, 600, 3]));
+    env.close();
+  });
+});
@@ -0,0 +1,231 @@
+import { expect, describe, it, vi } from 'vitest';
+
+import {
+  BlackjackEnv,
+  CliffWalkingEnv,
+  FrozenLakeEnv,
+  TaxiEnv,
+  generateRandomMap,
+} from '../../src/envs/toy_text';
+import { make } from '../../src/envs';
+
+describe.each([
+  [FrozenLakeEnv, 'FrozenLakeEnv'],
+  [CliffWalkingEnv, 'CliffWalkingEnv'],
+  [TaxiEnv, 'TaxiEnv'],
+  [BlackjackEnv, 'BlackjackEnv'],
+])('Testing Environment $name', (env, name) => {
+  const environment = new env();
+
+  it(`${name} reset observation should be in observation space`, () => {
+    const [obs, info] = environment.reset({ seed: 0 });
+    expect.assert(environment.observationSpace.contains(obs));
+  });
+
+  it(`${name} step observation should be in observation space`, async () => {
+    environment.reset({ seed: 0 });
+    const [obs, reward, terminated, truncated, info] = await environment.step(
+      environment.actionSpace.sample()
+    );
+    expect.assert(environment.observationSpace.contains(obs));
+    expect(typeof reward).toBe('number');
+  });
+
+  it(`${name} should be deterministic with a seed`, async () => {
+    const rollout = async () => {
+      const observations = [environment.reset({ seed: 7 })[0]];
+      environment.actionSpace.seed(7);
+      for (let i = 0; i < 20; i++) {
+        const [obs, , terminated] = await environment.step(
+          environment.actionSpace.sample()
+        );
+        observations.push(obs);
+        if (terminated) {
+          break;
+        }
+      }
+      return observations;
+    };
+    expect(await rollout()).toStrictEqual(await rollout());
+  });
+
+  it(`${name} should render a text in ansi mode`, async () => {
+    const ansiEnv = new env();
+    ansiEnv.renderMode = 'ansi';
+    ansiEnv.reset({ seed: 0 });
+    expect(typeof (await ansiEnv.render())).toBe('string');
+  });
+
+  it(`${name} should print the first frame when reset in human mode`, () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const humanEnv = new env();
+    humanEnv.renderMode = 'human';
+    humanEnv.reset({ seed: 0 });
+    expect(log).toHaveBeenCalledOnce();
+    log.mockRestore();
+  });
+});
+
+describe.each([
+  [FrozenLakeEnv, 'FrozenLakeEnv'],
+  [CliffWalkingEnv, 'CliffWalkingEnv'],
+  [TaxiEnv, 'TaxiEnv'],
+])('Testing transition table of $name', (env, name) => {
+  const environment = new env();
+  const nS = (environment.observationSpace as any).n;
+  const nA = (environment.actionSpace as any).n;
+
+  it(`${name} should have the outcomes of every state and action`, () => {
+    expect(environment.P.length).toBe(nS);
+    environment.P.forEach((actions) => {
+      expect(actions.length).toBe(nA);
+      actions.forEach((transitions) => {
+        const total = transitions.reduce((sum, [p]) => sum + p, 0);
+        expect(total).toBeCloseTo(1);
+        transitions.forEach(([, nextState]) =>
+          expect.assert(environment.observationSpace.contains(nextState))
+        );
+      });
+    });
+  });
+
+  it(`${name} should step according to the transition table`, async () => {
+    const [state] = environment.reset({ seed: 0 });
+    const [obs, reward, terminated] = await environment.step(0);
+    expect(
+      environment.P[state][0].some(
+        ([, s, r, t]) => s === obs && r === reward && t === terminated
+      )
+    ).toBe(true);
+  });
+});
+
+describe('Testing FrozenLakeEnv', () => {
+  it('Should use custom maps', () => {
+    const env = new FrozenLakeEnv(['SH', 'FG']);
+    expect(env.nrow).toBe(2);
+    expect(env.P[0][2]).toStrictEqual([
+      [1 / 3, 2, 0, false],
+      [1 / 3, 1, 0, true],
+      [1 / 3, 0, 0, false],
+    ]);
+  });
+
+  it('Should move in the intended direction when not slippery', () => {
+    const env = new FrozenLakeEnv(['SF', 'FG'], null, false);
+    expect(env.P[0][1]).toStrictEqual([[1.0, 2, 0, false]]);
+    expect(env.P[2][2]).toStrictEqual([[1.0, 3, 1, true]]);
+  });
+
+  it('Should use the 8x8 map', () => {
+    const env = new FrozenLakeEnv(null, '8x8');
+    expect(env.nrow).toBe(8);
+    expect(env.ncol).toBe(8);
+  });
+
+  it('Should generate reachable random maps', () => {
+    const map = generateRandomMap(6, 0.6, 3);
+    expect(map.length).toBe(6);
+    expect(map[0][0]).toBe('S');
+    expect(map[5][5]).toBe('G');
+    expect(generateRandomMap(6, 0.6, 3)).toStrictEqual(map);
+  });
+
+  it('Should throw on unknown maps', () => {
+    expect(() => new FrozenLakeEnv(null, '5x5')).toThrow();
+  });
+});
+
+describe('Testing CliffWalkingEnv', () => {
+  it('Should send the agent back to the start when falling off the cliff', async () => {
+    const env = new CliffWalkingEnv();
+    env.reset();
+    const [obs, reward, terminated] = await env.step(1);
+    expect(obs).toBe(36);
+    expect(reward).toBe(-100);
+    expect(terminated).toBe(false);
+  });
+
+  it('Should terminate at the goal', async () => {
+    const env = new CliffWalkingEnv();
+    env.reset();
+    let result = await env.step(0);
+    for (let i = 0; i < 11; i++) {
+      result = await env.step(1);
+    }
+    result = await env.step(2);
+    expect(result[0]).toBe(47);
+    expect(result[2]).toBe(true);
+  });
+});
+
+describe('Testing TaxiEnv', () => {
+  it('Should encode and decode states', () => {
+    const state = TaxiEnv.encode(3, 1, 2, 0);
+    expect(TaxiEnv.decode(state)).toStrictEqual([3, 1, 2, 0]);
+  });
+
+  it('Should give the action mask in the info', async () => {
+    const env = new TaxiEnv();
+    const [state, info] = env.reset({ seed: 0 });
+    expect(info.actionMask).toStrictEqual(TaxiEnv.actionMask(state));
+
+    const [nextState, , , , nextInfo] = await env.step(0);
+    expect(nextInfo.actionMask).toStrictEqual(TaxiEnv.actionMask(nextState));
+  });
+
+  it('Should mask the moves into walls', () => {
+    // Top left corner, wall on the right of the second column
+    const mask = TaxiEnv.actionMask(TaxiEnv.encode(0, 1, 0, 1));
+    expect(Array.from(mask)).toStrictEqual([1, 0, 0, 1, 0, 0]);
+  });
+
+  it('Should sample the valid actions of the action mask', async () => {
+    const env = new TaxiEnv();
+    const [, info] = env.reset({ seed: 0 });
+    for (let i = 0; i < 20; i++) {
+      const action = env.actionSpace.sample({ mask: info.actionMask });
+      expect(info.actionMask[action]).toBe(1);
+    }
+  });
+
+  it('Should reward a successful dropoff', () => {
+    const env = new TaxiEnv();
+    const state = TaxiEnv.encode(0, 4, 4, 1);
+    expect(env.P[state][5]).toStrictEqual([
+      [1.0, TaxiEnv.encode(0, 4, 1, 1), 20, true],
+    ]);
+  });
+
+  it('Should penalise an illegal pickup', () => {
+    const env = new TaxiEnv();
+    const state = TaxiEnv.encode(2, 2, 0, 1);
+    expect(env.P[state][4]).toStrictEqual([[1.0, state, -10, false]]);
+  });
+});
+
+describe('Testing BlackjackEnv', () => {
+  it('Should terminate when sticking', async () => {
+    const env = new BlackjackEnv();
+    env.reset({ seed: 0 });
+    const [, reward, terminated] = await env.step(0);
+    expect(terminated).toBe(true);
+    expect([-1, 0, 1]).toContain(reward);
+  });
+
+  it('Should reward naturals with the sab rules', async () => {
+    const env = new BlackjackEnv(false, true);
+    for (let seed = 0; seed < 200; seed++) {
+      const [[playerSum, , usableAce]] = env.reset({ seed });
+      if (playerSum === 21 && usableAce === 1) {
+        const [, reward] = await env.step(0);
+        expect(reward).toBeGreaterThanOrEqual(0);
+      }
+    }
+  });
+
+  it('Should be registered with the sab rules', () => {
+    const env = make('Blackjack-v1');
+    expect.assert(env.unwrapped instanceof BlackjackEnv);
+  });
+});
@@ -0,0 +1,233 @@
+import { expect, describe, it, beforeEach, afterEach } from 'vitest';
+import * as tf from '@tensorflow/tfjs';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { BaseEnv, Env, EnvMetadata } from '../src/core';
+import { checkMemoryLeaks } from '../src/env_checker';
+import { make } from '../src/envs';
+import {
+  AcrobotEnv,
+  CartPoleEnv,
+  MountainCarContinuousEnv,
+  MountainCarEnv,
+  PendulumEnv,
+} from '../src/envs/classic_control';
+import { Box } from '../src/spaces/box';
+import { Discrete } from '../src/spaces/discrete';
+import { SyncVectorEnv } from '../src/vector';
+import {
+  AddRenderObservation,
+  Autoreset,
+  ClipAction,
+  ClipReward,
+  FrameStackObservation,
+  GrayscaleObservation,
+  NormalizeObservation,
+  NormalizeReward,
+  OrderEnforcing,
+  PassiveEnvChecker,
+  RecordEpisodeStatistics,
+  RecordVideo,
+  RenderCollection,
+  ResizeObservation,
+  TimeLimit,
+} from '../src/wrappers';
+
+// An environment whose observations and frames are small images filled with the step count, terminates after 50 steps
+class ExampleImageEnv extends Env<tf.Tensor, number> {
+  static readonly metadata: EnvMetadata = {
+    renderModes: ['rgb_array'],
+    renderFps: 30,
+  };
+
+  private count: number;
+  constructor() {
+    const observationSpace = new Box(0, 255, [8, 8, 3], 'int32');
+    const actioSpace = new Discrete(2);
+    super(actioSpace, observationSpace, 'rgb_array');
+    this.count = 0;
+  }
+
+  reset(options?: Record<string, any>): [tf.Tensor, null] {
+    this.count = 0;
+    return [this.own(this.renderFrame()), null];
+  }
+
+  async step(
+    action: number
+  ): Promise<[tf.Tensor, number, boolean, boolean, null]> {
+    this.count += 1;
+    return [this.own(this.renderFrame()), 1, this.count === 50, false, null];
+  }
+
+  async render(): Promise<tf.Tensor> {
+    return this.renderFrame();
+  }
+
+  renderFrame(): tf.Tensor {
+    return tf.fill([8, 8, 3], this.count % 256, 'int32');
+  }
+
+  close(): void {
+    return;
+  }
+}
+
+describe.each([
+  ['CartPoleEnv', () => new CartPoleEnv()],
+  ['PendulumEnv', () => new PendulumEnv()],
+  ['AcrobotEnv', () => new AcrobotEnv()],
+  ['MountainCarEnv', () => new MountainCarEnv()],
+  ['MountainCarContinuousEnv', () => new MountainCarContinuousEnv()],
+  ['CartPole-v1', () => make('CartPole-v1')],
+  ['Pendulum-v1', () => make('Pendulum-v1')],
+  ['Acrobot-v1', () => make('Acrobot-v1')],
+  ['MountainCar-v0', () => make('MountainCar-v0')],
+  ['MountainCarContinuous-v0', () => make('MountainCarContinuous-v0')],
+  ['FrozenLake-v1', () => make('FrozenLake-v1')],
+  ['CliffWalking-v0', () => make('CliffWalking-v0')],
+  ['Taxi-v3', () => make('Taxi-v3')],
+  ['Blackjack-v1', () => make('Blackjack-v1')],
+])('Test Memory of Environment %s', (name, makeEnv) => {
+  it(`${name} should not leak tensors over 10000 steps`, async () => {
+    const env = makeEnv();
+    expect(await checkMemoryLeaks(env)).toStrictEqual([]);
+    env.close();
+  });
+});
+
+describe.each([
+  ['TimeLimit', () => new TimeLimit(new CartPoleEnv(), 100)],
+  ['Autoreset', () => new Autoreset(new CartPoleEnv())],
+  ['OrderEnforcing', () => new OrderEnforcing(new CartPoleEnv())],
+  ['PassiveEnvChecker', () => new PassiveEnvChecker(new CartPoleEnv())],
+  [
+    'RecordEpisodeStatistics',
+    () => new RecordEpisodeStatistics(new CartPoleEnv()),
+  ],
+  ['ClipReward', () => new ClipReward(new CartPoleEnv(), 0, 0.5)],
+  ['NormalizeReward', () => new NormalizeReward(new CartPoleEnv())],
+  ['NormalizeObservation', () => new NormalizeObservation(new CartPoleEnv())],
+  [
+    'FrameStackObservation with reset padding',
+    () => new FrameStackObservation(new CartPoleEnv(), 4, 'reset'),
+  ],
+  [
+    'FrameStackObservation with zero padding',
+    () => new FrameStackObservation(new CartPoleEnv(), 4, 'zero'),
+  ],
+  ['ClipAction', () => new ClipAction(new MountainCarContinuousEnv())],
+  [
+    'ResizeObservation',
+    () => new ResizeObservation(new ExampleImageEnv(), [4, 4]),
+  ],
+  [
+    'GrayscaleObservation',
+    () => new GrayscaleObservation(new ExampleImageEnv()),
+  ],
+  [
+    'AddRenderObservation',
+    () => new AddRenderObservation(new ExampleImageEnv(), false),
+  ],
+])('Test Memory of Wrapper %s', (name, makeEnv) => {
+  it(`${name} should not leak tensors over 10000 steps`, async () => {
+    const env = makeEnv() as BaseEnv<any, any>;
+    expect(await checkMemoryLeaks(env)).toStrictEqual([]);
+    env.close();
+  });
+});
+
+describe('Test Memory of Rendering Wrappers', () => {
+  let folder: string;
+
+  beforeEach(() => {
+    folder = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(folder, { recursive: true, force: true });
+  });
+
+  it('RenderCollection should not leak tensors when its frames are rendered', async () => {
+    const env = new RenderCollection(new ExampleImageEnv());
+    expect(await checkMemoryLeaks(env, { render: true })).toStrictEqual([]);
+    env.close();
+  });
+
+  it('RecordVideo should not leak tensors over 10000 steps', async () => {
+    const env = new RecordVideo(new ExampleImageEnv(), folder);
+    expect(await checkMemoryLeaks(env)).toStrictEqual([]);
+    env.close();
+  });
+});
+
+describe('Test Memory Ownership', () => {
+  it('Should report the tensors leaked by an environment', async () => {
+    // Creates a new observation at each step without owning it
+    class LeakyEnv extends ExampleImageEnv {
+      async step(
+        action: number
+      ): Promise<[tf.Tensor, number, boolean, boolean, null]> {
+        return [tf.zeros([8, 8, 3], 'int32'), 0, false, false, null];
+      }
+    }
+
+    const issues = await checkMemoryLeaks(new LeakyEnv(), { numSteps: 100 });
+    expect(issues).toHaveLength(1);
+    expect(issues[0].check).toBe('memory');
+  });
+
+  it('Should keep the observations valid until the next step', async () => {
+    const env = new NormalizeObservation(new CartPoleEnv());
+    const [first] = env.reset({ seed: 42 });
+    expect(first.isDisposed).toBe(false);
+
+    const [second] = await env.step(0);
+    expect(first.isDisposed).toBe(true);
+    expect(second.isDisposed).toBe(false);
+  });
+
+  it('Should not dispose the actions of the caller', async () => {
+    const env = new ClipAction(new MountainCarContinuousEnv());
+    env.reset({ seed: 42 });
+    const action = tf.tensor([2.0]);
+    await env.step(action);
+    await env.step(action);
+    expect(action.isDisposed).toBe(false);
+    action.dispose();
+  });
+
+  it('Should release the owned tensors on dispose', async () => {
+    const numTensors = tf.memory().numTensors;
+    const env = new FrameStackObservation(new CartPoleEnv(), 4);
+    const setupTensors = tf.memory().numTensors - numTensors;
+    env.reset({ seed: 42 });
+    await env.step(0);
+    await env.step(1);
+
+    env.dispose();
+    expect(tf.memory().numTensors).toBe(numTensors + setupTensors);
+  });
+
+  it('Should release the batched observations of vector environments on dispose', async () => {
+    const envs = new SyncVectorEnv([
+      () => new CartPoleEnv(),
+      () => new CartPoleEnv(),
+    ]);
+    await envs.reset({ seed: 42 });
+    const numTensors = tf.memory().numTensors;
+
+    for (let i = 0; i < 100; i++) {
+      const actions = envs.actionSpace.sample();
+      await envs.step(actions);
+      tf.dispose(actions);
+    }
+    expect(tf.memory().numTensors).toBe(numTensors);
+
+    envs.dispose();
+    expect(tf.memory().numTensors).toBeLessThan(numTensors);
+    envs.close();
+  });
+});
@@ -90,3 +90,100 @@ describe('Test Equality', () => {
     expect.assert(!space.equals(differentSpace));
   });
 });
+
+describe('Test Seeding', () => {
+  it.each([
+    [tf.tensor([-Infinity, -1, 0, -1]), tf.tensor([Infinity, Infinity, 0, 1])],
+    [-1, 1],
+  ])('Spaces with the same seed should have the same samples', (low, high) => {
+    const space = new Box(low, high, [4], 'float32', 42);
+    const sameSeedSpace = new Box(low, high, [4], 'float32');
+    sameSeedSpace.seed(42);
+
+    for (let i = 0; i < 10; i++) {
+      expect(space.sample().arraySync()).toStrictEqual(
+        sameSeedSpace.sample().arraySync()
+      );
+    }
+  });
+});
+
+describe('Test Contain', () => {
+  const space = new Box(tf.tensor([0, 0]), tf.tensor([1, 1]), [2], 'float32');
+
+  it('Value with all elements in bounds should be in the space', () => {
+    expect.assert(space.contains(tf.tensor([0, 1])));
+  });
+
+  it('Value with an element out of bounds should not be in the space', () => {
+    expect.assert(!space.contains(tf.tensor([0.5, 2])));
+  });
+});
+
+describe('Test Array Backend', () => {
+  const space = new Box(
+    tf.tensor([0, -1]),
+    tf.tensor([1, 1]),
+    [2],
+    'float32',
+    42,
+    'array'
+  );
+
+  it('Samples should be typed arrays in the space', () => {
+    for (let i = 0; i < 10; i++) {
+      const sample = space.sample();
+      expect(sample).toBeInstanceOf(Float32Array);
+      expect.assert(space.contains(sample));
+    }
+
+    const intSpace = new Box(0, 5, [2, 2], 'int32', null, 'array');
+    const sample = intSpace.sample();
+    expect(sample).toBeInstanceOf(Int32Array);
+    expect(sample.length).toBe(4);
+    expect.assert(intSpace.contains(sample));
+  });
+
+  it('Should have the same samples as the tensor backend', () => {
+    const tensorSpace = new Box(-1, 1, [3], 'float32', 42);
+    const arraySpace = new Box(-1, 1, [3], 'float32', 42, 'array');
+    expect(Array.from(arraySpace.sample())).toStrictEqual(
+      Array.from(tensorSpace.sample().dataSync())
+    );
+  });
+
+  it('Should only contain typed arrays of its data type, size and bounds', () => {
+    expect.assert(space.contains(new Float32Array([0.5, -1])));
+    expect.assert(!space.contains(new Float32Array([0.5, 2])));
+    expect.assert(!space.contains(new Float32Array([0.5])));
+    expect.assert(!space.contains(new Int32Array([0, 0])));
+    expect.assert(!space.contains(tf.tensor([0.5, 0])));
+    expect.assert(!space.contains([0.5, 0]));
+  });
+
+  it('Should not be equal to the same space with the tensor backend', () => {
+    const tensorSpace = new Box(
+      tf.tensor([0, -1]),
+      tf.tensor([1, 1]),
+      [2],
+      'float32'
+    );
+    expect.assert(!space.equals(tensorSpace));
+    expect.assert(
+      space.equals(
+        new Box(
+          tf.tensor([0, -1]),
+          tf.tensor([1, 1]),
+          [2],
+          'float32',
+          null,
+          'array'
+        )
+      )
+    );
+  });
+
+  it('Should throw for data types without typed arrays', () => {
+    expect(() => new Box(0, 1, [2], 'bool', null, 'array')).toThrow();
+  });
+});
@@ -58,3 +58,28 @@ describe('Test Equality', () => {
     expect.assert(!space.equals(differentSpace));
   });
 });
+
+describe('Test Seeding', () => {
+  it('Subspaces should be seeded with the dict', () => {
+    const createSpace = () =>
+      new Dict({
+        key1: new Box(-1, 1, [4], 'float32'),
+        key2: new Discrete(100),
+      });
+    const space = createSpace();
+    const sameSeedSpace = createSpace();
+
+    const seeds = space.seed(42);
+    expect(seeds.length).toBe(3);
+    expect(sameSeedSpace.seed(42)).toStrictEqual(seeds);
+
+    for (let i = 0; i < 10; i++) {
+      const sample = space.sample();
+      const sameSeedSample = sameSeedSpace.sample();
+      expect(sample.key1.arraySync()).toStrictEqual(
+        sameSeedSample.key1.arraySync()
+      );
+      expect(sample.key2).toBe(sameSeedSample.key2);
+    }
+  });
+});
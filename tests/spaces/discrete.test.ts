@@ -40,3 +40,70 @@ describe('Test Equality', () => {
     expect.assert(!space.equals(differentSpace));
   });
 });
+
+describe('Test Seeding', () => {
+  it('Spaces with the same seed should have the same samples', () => {
+    const space = new Discrete(100, 0, 42);
+    const sameSeedSpace = new Discrete(100);
+    expect(sameSeedSpace.seed(42)).toStrictEqual([42]);
+
+    for (let i = 0; i < 10; i++) {
+      expect(space.sample()).toBe(sameSeedSpace.sample());
+    }
+  });
+});
+
+describe('Test Masking', () => {
+  const space = new Discrete(5, 2);
+
+  it('Samples should only be valid actions of the mask', () => {
+    const mask = new Int8Array([0, 1, 0, 1, 0]);
+    for (let i = 0; i < 20; i++) {
+      expect([3, 5]).toContain(space.sample({ mask }));
+    }
+    expect(space.sample({ mask: [0, 0, 1, 0, 0] })).toBe(4);
+    expect(space.sample({ mask: tf.tensor1d([0, 0, 0, 0, 1], 'int32') })).toBe(
+      6
+    );
+  });
+
+  it('Samples should be the start when every action is masked', () => {
+    expect(space.sample({ mask: new Int8Array(5) })).toBe(2);
+  });
+
+  it('Samples should follow the probabilities', () => {
+    const counts = [0, 0, 0, 0, 0];
+    for (let i = 0; i < 1000; i++) {
+      counts[space.sample({ probability: [0, 0.25, 0, 0.75, 0] }) - 2] += 1;
+    }
+    expect(counts[0] + counts[2] + counts[4]).toBe(0);
+    expect(counts[3]).toBeGreaterThan(650);
+    expect(counts[3]).toBeLessThan(850);
+  });
+
+  it.each([
+    [{ mask: new Int8Array(4) }, 'Expected a mask of 5 values, got 4'],
+    [
+      { mask: new Int8Array([0, 1, 2, 0, 0]) },
+      'The mask values must be 0 or 1, got [0,1,2,0,0]',
+    ],
+    [
+      { probability: [0.5, 0.5] },
+      'Expected a probability vector of 5 values, got 2',
+    ],
+    [
+      { probability: [0.5, 0.5, 0.5, 0, 0] },
+      'The probabilities must sum to 1, got 1.5',
+    ],
+    [
+      { probability: [1.5, -0.5, 0, 0, 0] },
+      'The probabilities must be between 0 and 1, got [1.5,-0.5,0,0,0]',
+    ],
+    [
+      { mask: new Int8Array(5), probability: [1, 0, 0, 0, 0] },
+      'Only one of mask and probability can be given',
+    ],
+  ])('Invalid options %o should throw', (options, message) => {
+    expect(() => space.sample(options)).toThrow(message);
+  });
+});
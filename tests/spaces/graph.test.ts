@@ -0,0 +1,166 @@
+import { test, expect, beforeEach, describe, it } from 'vitest';
+import * as tf from '@tensorflow/tfjs';
+
+import { Box } from '../../src/spaces/box';
+import { Discrete } from '../../src/spaces/discrete';
+import { Graph, GraphInstance } from '../../src/spaces/graph';
+import { MultiBinary } from '../../src/spaces/multibinary';
+
+describe('Test Space Errors', () => {
+  it('Node space must be a Box or a Discrete', () => {
+    expect(() => new Graph(new MultiBinary(2) as any)).toThrow(
+      'The node space must be a Box with the tensor backend or a Discrete, got MultiBinary'
+    );
+  });
+
+  it('Edge space must be a Box or a Discrete', () => {
+    expect(
+      () =>
+        new Graph(
+          new Discrete(3),
+          new Box(0, 1, [2], 'float32', null, 'array') as any
+        )
+    ).toThrow(
+      'The edge space must be a Box with the tensor backend or a Discrete, got Box'
+    );
+  });
+});
+
+describe('Test Sampling', () => {
+  const space = new Graph(new Box(-1, 1, [3], 'float32'), new Discrete(4));
+
+  it('Samples should be contained in the space', () => {
+    for (let i = 0; i < 10; i++) {
+      const sample = space.sample();
+      expect(sample.nodes.shape).toStrictEqual([10, 3]);
+      expect(sample.edges?.shape[0]).toBeLessThan(90);
+      expect(sample.edgeLinks?.shape).toStrictEqual([
+        sample.edges?.shape[0],
+        2,
+      ]);
+      expect.assert(space.contains(sample));
+    }
+  });
+
+  it('Samples should have the requested numbers of nodes and edges', () => {
+    const sample = space.sample({ numNodes: 4, numEdges: 6 });
+    expect(sample.nodes.shape).toStrictEqual([4, 3]);
+    expect(sample.edges?.shape).toStrictEqual([6]);
+    expect(sample.edgeLinks?.shape).toStrictEqual([6, 2]);
+    expect.assert(space.contains(sample));
+  });
+
+  it('Graphs with a single node should have no edges by default', () => {
+    const sample = space.sample({ numNodes: 1 });
+    expect(sample.edges?.shape).toStrictEqual([0]);
+    expect.assert(space.contains(sample));
+  });
+
+  it('Invalid numbers of nodes and edges should throw', () => {
+    expect(() => space.sample({ numNodes: 0 })).toThrow(
+      'The number of nodes must be a positive integer, got 0'
+    );
+    expect(() => space.sample({ numEdges: -1 })).toThrow(
+      'The number of edges must be a non-negative integer, got -1'
+    );
+  });
+
+  it('Graphs without an edge space should have no edges', () => {
+    const nodeOnly = new Graph(new Discrete(5));
+    const sample = nodeOnly.sample({ numNodes: 3 });
+    expect(sample.nodes.shape).toStrictEqual([3]);
+    expect(sample.edges).toBeNull();
+    expect(sample.edgeLinks).toBeNull();
+    expect.assert(nodeOnly.contains(sample));
+  });
+});
+
+describe('Test Contain', () => {
+  const space = new Graph(new Discrete(3), new Box(0, 1, [2], 'float32'));
+  const graph = (links: number[][]): GraphInstance => ({
+    nodes: tf.tensor1d([0, 1, 2], 'int32'),
+    edges: tf.fill([links.length, 2], 0.5),
+    edgeLinks: tf.tensor2d(links, [links.length, 2], 'int32'),
+  });
+
+  it('Valid graphs should be contained in the space', () => {
+    expect.assert(
+      space.contains(
+        graph([
+          [0, 1],
+          [2, 0],
+        ])
+      )
+    );
+  });
+
+  it('Edges linking missing nodes should not be contained', () => {
+    expect.assert(!space.contains(graph([[0, 3]])));
+  });
+
+  it('Graphs with out of space features should not be contained', () => {
+    expect.assert(
+      !space.contains({ ...graph([]), nodes: tf.tensor1d([0, 3], 'int32') })
+    );
+    expect.assert(
+      !space.contains({ ...graph([[0, 1]]), edges: tf.fill([1, 2], 2) })
+    );
+  });
+
+  it('Edge links must match the edges', () => {
+    expect.assert(
+      !space.contains({
+        ...graph([[0, 1]]),
+        edgeLinks: tf.tensor2d(
+          [
+            [0, 1],
+            [1, 2],
+          ],
+          [2, 2],
+          'int32'
+        ),
+      })
+    );
+    expect.assert(!space.contains({ ...graph([[0, 1]]), edgeLinks: null }));
+    expect.assert(!space.contains(tf.tensor1d([0, 1, 2], 'int32')));
+  });
+});
+
+describe('Test Equality', () => {
+  const space = new Graph(new Discrete(3), new Discrete(2));
+
+  it('Spaces should be equal', () => {
+    expect.assert(space.equals(new Graph(new Discrete(3), new Discrete(2))));
+  });
+
+  it('Spaces should not be equal for different node spaces', () => {
+    expect.assert(!space.equals(new Graph(new Discrete(4), new Discrete(2))));
+  });
+
+  it('Spaces should not be equal for different edge spaces', () => {
+    expect.assert(!space.equals(new Graph(new Discrete(3), new Discrete(3))));
+    expect.assert(!space.equals(new Graph(new Discrete(3))));
+    expect.assert(
+      new Graph(new Discrete(3)).equals(new Graph(new Discrete(3)))
+    );
+  });
+});
+
+describe('Test Seeding', () => {
+  it('Spaces with the same seed should have the same samples', () => {
+    const space = new Graph(new Discrete(10), new Discrete(3), 42);
+    const sameSeedSpace = new Graph(new Discrete(10), new Discrete(3));
+    expect(sameSeedSpace.seed(42)).toStrictEqual(space.seed(42));
+
+    for (let i = 0; i < 5; i++) {
+      const sample = space.sample();
+      const sameSample = sameSeedSpace.sample();
+      expect(sample.nodes.arraySync()).toStrictEqual(
+        sameSample.nodes.arraySync()
+      );
+      expect(sample.edgeLinks?.arraySync()).toStrictEqual(
+        sameSample.edgeLinks?.arraySync()
+      );
+    }
+  });
+});
@@ -34,3 +34,80 @@ describe('Test Equality', () => {
     expect.assert(!space.equals(differentSpace));
   });
 });
+
+describe('Test Seeding', () => {
+  it('Spaces with the same seed should have the same samples', () => {
+    const space = new MultiBinary([4, 4], 42);
+    const sameSeedSpace = new MultiBinary([4, 4]);
+    sameSeedSpace.seed(42);
+
+    for (let i = 0; i < 10; i++) {
+      expect(space.sample().arraySync()).toStrictEqual(
+        sameSeedSpace.sample().arraySync()
+      );
+    }
+  });
+});
+
+describe('Test Array Backend', () => {
+  const space = new MultiBinary([3, 2], 42, 'array');
+
+  it('Samples should be typed arrays in the space', () => {
+    const sample = space.sample();
+    expect(sample).toBeInstanceOf(Int32Array);
+    expect(sample.length).toBe(6);
+    expect.assert(space.contains(sample));
+  });
+
+  it('Should only contain typed arrays of zeros and ones', () => {
+    expect.assert(space.contains(new Int32Array([0, 1, 1, 0, 0, 1])));
+    expect.assert(!space.contains(new Int32Array([0, 1, 2, 0, 0, 1])));
+    expect.assert(!space.contains(new Float32Array([0, 1, 1, 0, 0, 1])));
+    expect.assert(!space.contains(new Int32Array([0, 1])));
+    expect.assert(!space.contains(tf.zeros([3, 2], 'int32')));
+  });
+
+  it('Should not be equal to the same space with the tensor backend', () => {
+    expect.assert(!space.equals(new MultiBinary([3, 2])));
+    expect.assert(space.equals(new MultiBinary([3, 2], null, 'array')));
+  });
+});
+
+describe('Test Masking', () => {
+  const space = new MultiBinary([2, 2]);
+
+  it('Masked elements should be fixed and the others random', () => {
+    const mask = new Int8Array([0, 1, 2, 2]);
+    for (let i = 0; i < 20; i++) {
+      const sample = space.sample({ mask });
+      expect(sample.shape).toStrictEqual([2, 2]);
+      const [first, second, third, fourth] = Array.from(sample.dataSync());
+      expect([first, second]).toStrictEqual([0, 1]);
+      expect([0, 1]).toContain(third);
+      expect([0, 1]).toContain(fourth);
+    }
+  });
+
+  it('Elements should be 1 with their probability', () => {
+    expect(
+      space.sample({ probability: [1, 0, 1, 0] }).arraySync()
+    ).toStrictEqual([
+      [1, 0],
+      [1, 0],
+    ]);
+  });
+
+  it.each([
+    [{ mask: new Int8Array(3) }, 'Expected a mask of 4 values, got 3'],
+    [
+      { mask: new Int8Array([0, 1, 3, 0]) },
+      'The mask values must be 0, 1 or 2, got [0,1,3,0]',
+    ],
+    [
+      { probability: [0, 2, 0, 0] },
+      'The probabilities must be between 0 and 1, got [0,2,0,0]',
+    ],
+  ])('Invalid options %o should throw', (options, message) => {
+    expect(() => space.sample(options)).toThrow(message);
+  });
+});
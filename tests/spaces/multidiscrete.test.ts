@@ -62,3 +62,111 @@ describe('Test Equality', () => {
     expect.assert(!space.equals(differentSpace));
   });
 });
+
+describe('Test Seeding', () => {
+  it('Spaces with the same seed should have the same samples', () => {
+    const nVec = tf.tensor([3, 4, 100], [3], 'int32');
+    const space = new MultiDiscrete(nVec, null, 42);
+    const sameSeedSpace = new MultiDiscrete(nVec);
+    sameSeedSpace.seed(42);
+
+    for (let i = 0; i < 10; i++) {
+      expect(space.sample().arraySync()).toStrictEqual(
+        sameSeedSpace.sample().arraySync()
+      );
+    }
+  });
+});
+
+describe('Test Array Backend', () => {
+  const nVec = tf.tensor([3, 4], [2], 'int32');
+  const start = tf.tensor([-1, 2], [2], 'int32');
+  const space = new MultiDiscrete(nVec, start, 42, 'array');
+
+  it('Samples should be typed arrays in the space', () => {
+    for (let i = 0; i < 10; i++) {
+      const sample = space.sample();
+      expect(sample).toBeInstanceOf(Int32Array);
+      expect.assert(space.contains(sample));
+    }
+  });
+
+  it('Should only contain typed arrays in the ranges', () => {
+    expect.assert(space.contains(new Int32Array([-1, 5])));
+    expect.assert(!space.contains(new Int32Array([2, 2])));
+    expect.assert(!space.contains(new Int32Array([0, 1])));
+    expect.assert(!space.contains(new Float32Array([0, 2])));
+    expect.assert(!space.contains(tf.tensor([0, 2], [2], 'int32')));
+  });
+
+  it('Should not be equal to the same space with the tensor backend', () => {
+    expect.assert(!space.equals(new MultiDiscrete(nVec, start)));
+    expect.assert(space.equals(new MultiDiscrete(nVec, start, null, 'array')));
+  });
+});
+
+describe('Test Masking', () => {
+  const space = new MultiDiscrete(
+    tf.tensor([3, 4], [2], 'int32'),
+    tf.tensor([-2, 1], [2], 'int32')
+  );
+
+  it('Samples should only be valid actions of the masks of each dimension', () => {
+    const mask = [new Int8Array([0, 0, 1]), new Int8Array([0, 1, 1, 0])];
+    for (let i = 0; i < 20; i++) {
+      const [first, second] = Array.from(space.sample({ mask }).dataSync());
+      expect(first).toBe(0);
+      expect([2, 3]).toContain(second);
+    }
+  });
+
+  it('Dimensions whose actions are all masked should be sampled as their start', () => {
+    const mask = [new Int8Array(3), new Int8Array([0, 0, 0, 1])];
+    expect(space.sample({ mask }).arraySync()).toStrictEqual([-2, 4]);
+  });
+
+  it('Samples should follow the probabilities of each dimension', () => {
+    const probability = [
+      [0, 1, 0],
+      [0, 0, 0, 1],
+    ];
+    expect(space.sample({ probability }).arraySync()).toStrictEqual([-1, 4]);
+  });
+
+  it('Masks should work with the array backend', () => {
+    const arraySpace = new MultiDiscrete(
+      tf.tensor([3, 4], [2], 'int32'),
+      null,
+      null,
+      'array'
+    );
+    const mask = [new Int8Array([1, 0, 0]), new Int8Array([0, 0, 1, 0])];
+    expect(arraySpace.sample({ mask })).toStrictEqual(new Int32Array([0, 2]));
+  });
+
+  it.each([
+    [
+      { mask: [new Int8Array(3)] },
+      'Expected 2 masks, one for each dimension, got 1',
+    ],
+    [
+      { mask: [new Int8Array(3), new Int8Array(3)] },
+      'Expected a mask for dimension 1 of 4 values, got 3',
+    ],
+    [
+      { probability: [[1, 0, 0]] },
+      'Expected 2 probability vectors, one for each dimension, got 1',
+    ],
+    [
+      {
+        probability: [
+          [1, 0, 0],
+          [0.5, 0, 0, 0],
+        ],
+      },
+      'The probabilities must sum to 1, got 0.5',
+    ],
+  ])('Invalid options %o should throw', (options, message) => {
+    expect(() => space.sample(options)).toThrow(message);
+  });
+});
@@ -0,0 +1,101 @@
+import { test, expect, beforeEach, describe, it } from 'vitest';
+import * as tf from '@tensorflow/tfjs';
+
+import { Box } from '../../src/spaces/box';
+import { Discrete } from '../../src/spaces/discrete';
+import { OneOf } from '../../src/spaces/oneof';
+
+describe('Test Space Errors', () => {
+  it('OneOf needs at least one subspace', () => {
+    expect(() => new OneOf([])).toThrow('OneOf needs at least one subspace');
+  });
+});
+
+describe('Test Contain', () => {
+  const space = new OneOf([new Discrete(3), new Box(-1, 1, [2], 'float32')]);
+
+  it('Samples should be contained in the space', () => {
+    for (let i = 0; i < 20; i++) {
+      const sample = space.sample();
+      expect.assert(space.contains(sample));
+    }
+  });
+
+  it('Values should be contained in the subspace of their index', () => {
+    expect.assert(space.contains([0, 2]));
+    expect.assert(space.contains([1, tf.tensor([0.5, -0.5])]));
+    expect.assert(!space.contains([1, 2]));
+    expect.assert(!space.contains([0, tf.tensor([0.5, -0.5])]));
+  });
+
+  it.each([
+    ['an out of range index', [2, 0]],
+    ['a non integer index', [0.5, 0]],
+    ['a missing value', [0]],
+    ['not an array', 0],
+  ])('Values with %s should not be contained in the space', (_, value) => {
+    expect.assert(!space.contains(value));
+  });
+});
+
+describe('Test Sampling Probabilities', () => {
+  const space = new OneOf(
+    [new Discrete(2), new Discrete(3, 10), new Discrete(4, 20)],
+    42
+  );
+
+  it('Samples should only come from subspaces with a positive probability', () => {
+    for (let i = 0; i < 20; i++) {
+      const [index, value] = space.sample({ probability: [0, 1, 0] });
+      expect(index).toBe(1);
+      expect(value).toBeGreaterThanOrEqual(10);
+    }
+  });
+
+  it('Samples should follow the probabilities', () => {
+    const counts = [0, 0, 0];
+    for (let i = 0; i < 1000; i++) {
+      counts[space.sample({ probability: [0.7, 0.3, 0] })[0]] += 1;
+    }
+    expect(counts[0]).toBeGreaterThan(600);
+    expect(counts[0]).toBeLessThan(800);
+    expect(counts[2]).toBe(0);
+  });
+
+  it.each([
+    [[0.5, 0.5], 'Expected a probability for each of the 3 subspaces, got 2'],
+    [
+      [0.5, 0.7, -0.2],
+      'The probabilities must be between 0 and 1, got [0.5,0.7,-0.2]',
+    ],
+    [[0.5, 0.25, 0.125], 'The probabilities must sum to 1, got 0.875'],
+  ])('Probabilities %s should throw', (probability, message) => {
+    expect(() => space.sample({ probability })).toThrow(message);
+  });
+});
+
+describe('Test Equality', () => {
+  const space = new OneOf([new Discrete(3), new Discrete(4)]);
+
+  it('Spaces should be equal', () => {
+    expect.assert(space.equals(new OneOf([new Discrete(3), new Discrete(4)])));
+  });
+
+  it('Spaces should not be equal for different subspaces', () => {
+    expect.assert(!space.equals(new OneOf([new Discrete(3), new Discrete(5)])));
+    expect.assert(!space.equals(new OneOf([new Discrete(4), new Discrete(3)])));
+    expect.assert(!space.equals(new OneOf([new Discrete(3)])));
+  });
+});
+
+describe('Test Seeding', () => {
+  it('Spaces with the same seed should have the same samples', () => {
+    const space = new OneOf([new Discrete(100), new Discrete(50)], 42);
+    const sameSeedSpace = new OneOf([new Discrete(100), new Discrete(50)]);
+    expect(sameSeedSpace.seed(42)).toStrictEqual(space.seed(42));
+
+    for (let i = 0; i < 10; i++) {
+      expect(space.sample()).toStrictEqual(sameSeedSpace.sample());
+    }
+  });
+});
@@ -0,0 +1,130 @@
+import { test, expect, beforeEach, describe, it } from 'vitest';
+import * as tf from '@tensorflow/tfjs';
+
+import { Box } from '../../src/spaces/box';
+import { Dict } from '../../src/spaces/dict';
+import { Discrete } from '../../src/spaces/discrete';
+import { MultiBinary } from '../../src/spaces/multibinary';
+import { Sequence } from '../../src/spaces/sequence';
+import { convertSpace, convertValue } from '../../src/spaces/utils';
+
+describe('Test Stacking Errors', () => {
+  it('Composite feature spaces cannot be stacked', () => {
+    expect(() => new Sequence(new Dict({ a: new Discrete(2) }), true)).toThrow(
+      'Stacking is only supported for Box, Discrete, MultiDiscrete and MultiBinary feature spaces with the tensor backend, got Dict'
+    );
+  });
+
+  it('Feature spaces with the array backend cannot be stacked', () => {
+    expect(
+      () => new Sequence(new Box(0, 1, [2], 'float32', null, 'array'), true)
+    ).toThrow('Stacking is only supported');
+  });
+});
+
+describe('Test Contain', () => {
+  const space = new Sequence(
+    new Dict({
+      position: new Box(-1, 1, [2], 'float32'),
+      kind: new Discrete(3),
+    })
+  );
+
+  it('Samples should be contained in the space', () => {
+    for (let i = 0; i < 20; i++) {
+      const sample = space.sample() as any[];
+      expect(sample.length).toBeGreaterThanOrEqual(1);
+      expect.assert(space.contains(sample));
+    }
+  });
+
+  it('Samples should have the requested length', () => {
+    expect(space.sample({ length: 5 })).toHaveLength(5);
+    expect(space.sample({ length: 0 })).toStrictEqual([]);
+    expect(() => space.sample({ length: -1 })).toThrow(
+      'The length must be a non-negative integer, got -1'
+    );
+  });
+
+  it('Sequences with an element out of the feature space should not be contained', () => {
+    const sample = space.sample({ length: 3 }) as any[];
+    sample[1] = { position: tf.tensor([2, 0]), kind: 0 };
+    expect.assert(!space.contains(sample));
+    expect.assert(!space.contains(sample[0]));
+    expect.assert(space.contains([]));
+  });
+});
+
+describe('Test Stacked Sequences', () => {
+  it('Box features should be stacked along a new dimension', () => {
+    const space = new Sequence(new Box(0, 1, [2, 3], 'float32'), true);
+    const sample = space.sample({ length: 4 }) as tf.Tensor;
+    expect(sample.shape).toStrictEqual([4, 2, 3]);
+    expect.assert(space.contains(sample));
+    expect.assert(!space.contains(tf.fill([4, 2, 3], 2)));
+    expect.assert(!space.contains(tf.zeros([2, 3])));
+
+    const empty = space.sample({ length: 0 }) as tf.Tensor;
+    expect(empty.shape).toStrictEqual([0, 2, 3]);
+    expect.assert(space.contains(empty));
+  });
+
+  it('Discrete features should be stacked into a 1D tensor', () => {
+    const space = new Sequence(new Discrete(3), true);
+    const sample = space.sample({ length: 5 }) as tf.Tensor;
+    expect(sample.shape).toStrictEqual([5]);
+    expect(sample.dtype).toBe('int32');
+    expect.assert(space.contains(sample));
+    expect.assert(!space.contains(tf.tensor1d([0, 3], 'int32')));
+  });
+
+  it('Stacking should not leak tensors', () => {
+    const space = new Sequence(new MultiBinary(4), true);
+    const numTensors = tf.memory().numTensors;
+    const sample = space.sample({ length: 10 }) as tf.Tensor;
+    space.contains(sample);
+    sample.dispose();
+    expect(tf.memory().numTensors).toBe(numTensors);
+  });
+});
+
+describe('Test Equality', () => {
+  const space = new Sequence(new Discrete(3));
+
+  it('Spaces should be equal', () => {
+    expect.assert(space.equals(new Sequence(new Discrete(3))));
+  });
+
+  it('Spaces should not be equal for different feature spaces', () => {
+    expect.assert(!space.equals(new Sequence(new Discrete(4))));
+  });
+
+  it('Spaces should not be equal for different stack modes', () => {
+    expect.assert(!space.equals(new Sequence(new Discrete(3), true)));
+  });
+});
+
+describe('Test Converting Backends', () => {
+  it('Unstacked sequences should be converted element by element', () => {
+    const space = new Sequence(new Box(0, 1, [2], 'float32'));
+    const arraySpace = convertSpace(space, 'array') as Sequence;
+    expect((arraySpace.featureSpace as Box<'array'>).backend).toBe('array');
+
+    const value = convertValue(space, space.sample({ length: 3 }), 'array');
+    expect(value).toHaveLength(3);
+    expect(value[0]).toBeInstanceOf(Float32Array);
+    expect.assert(arraySpace.contains(value));
+  });
+});
+
+describe('Test Seeding', () => {
+  it('Spaces with the same seed should have the same samples', () => {
+    const space = new Sequence(new Discrete(100), false, 42);
+    const sameSeedSpace = new Sequence(new Discrete(100));
+    expect(sameSeedSpace.seed(42)).toStrictEqual(space.seed(42));
+
+    for (let i = 0; i < 10; i++) {
+      expect(space.sample()).toStrictEqual(sameSeedSpace.sample());
+    }
+  });
+});
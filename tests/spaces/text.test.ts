@@ -0,0 +1,120 @@
+import { test, expect, beforeEach, describe, it } from 'vitest';
+import * as tf from '@tensorflow/tfjs';
+
+import { Text, alphanumeric } from '../../src/spaces/text';
+
+describe('Test Length Errors', () => {
+  it('Minimum length must be a non-negative integer', () => {
+    expect(() => new Text(5, -1)).toThrow(
+      'The minimum length must be a non-negative integer, got -1'
+    );
+  });
+
+  it('Maximum length must not be smaller than the minimum length', () => {
+    expect(() => new Text(2, 3)).toThrow(
+      'The maximum length must be an integer greater than or equal to the minimum length (3), got 2'
+    );
+  });
+
+  it('Charset must not be empty', () => {
+    expect(() => new Text(5, 1, '')).toThrow(
+      'The charset must contain at least one character'
+    );
+  });
+});
+
+describe('Test Contain', () => {
+  const space = new Text(5, 2, 'abc');
+
+  it('Samples should be contained in the space', () => {
+    for (let i = 0; i < 100; i++) {
+      const sample = space.sample();
+      expect(sample.length).toBeGreaterThanOrEqual(2);
+      expect(sample.length).toBeLessThanOrEqual(5);
+      expect.assert(space.contains(sample));
+    }
+  });
+
+  it('Samples should have the requested length', () => {
+    expect(space.sample({ length: 3 })).toHaveLength(3);
+    expect(() => space.sample({ length: 6 })).toThrow(
+      'The length must be an integer between 2 and 5, got 6'
+    );
+  });
+
+  it('Strings should be contained in the space', () => {
+    expect.assert(space.contains('ab'));
+    expect.assert(space.contains('cabca'));
+  });
+
+  it.each([
+    ['too short', 'a'],
+    ['too long', 'abcabc'],
+    ['out of the charset', 'abd'],
+    ['not a string', ['a', 'b']],
+  ])('Values %s should not be contained in the space', (_, value) => {
+    expect.assert(!space.contains(value));
+  });
+
+  it('Lengths should be counted in code points', () => {
+    const emojis = new Text(2, 2, '🙂🙃');
+    expect.assert(emojis.contains('🙂🙃'));
+    expect(Array.from(emojis.sample())).toHaveLength(2);
+  });
+
+  it('Default charset should be alphanumeric', () => {
+    const defaultSpace = new Text(10);
+    expect(defaultSpace.characters.join('')).toBe(alphanumeric);
+    expect.assert(defaultSpace.contains('Gym42'));
+    expect.assert(!defaultSpace.contains('gym js'));
+  });
+});
+
+describe('Test Equality', () => {
+  const space = new Text(5, 1, 'abc');
+
+  it('Spaces should be equal regardless of the charset order and duplicates', () => {
+    expect.assert(space.equals(new Text(5, 1, 'cbaa')));
+  });
+
+  it.each([
+    ['maximum lengths', new Text(6, 1, 'abc')],
+    ['minimum lengths', new Text(5, 0, 'abc')],
+    ['charsets', new Text(5, 1, 'abd')],
+  ])('Spaces should not be equal for different %s', (_, other) => {
+    expect.assert(!space.equals(other));
+  });
+});
+
+describe('Test Encoding', () => {
+  const space = new Text(5, 1, 'abc');
+
+  it('Strings should be encoded as padded character indices', () => {
+    const encoded = space.encode('cab');
+    expect(encoded.dtype).toBe('int32');
+    expect(encoded.arraySync()).toStrictEqual([2, 0, 1, 3, 3]);
+  });
+
+  it('Decoding should be the inverse of encoding', () => {
+    expect(space.decode(space.encode('bca'))).toBe('bca');
+    expect(space.decode(tf.tensor1d([1, 3, 3, 3, 3], 'int32'))).toBe('b');
+  });
+
+  it('Encoding characters out of the charset should throw', () => {
+    expect(() => space.encode('abd')).toThrow(
+      'The character d is not in the charset'
+    );
+  });
+});
+
+describe('Test Seeding', () => {
+  it('Spaces with the same seed should have the same samples', () => {
+    const space = new Text(10, 1, alphanumeric, 42);
+    const sameSeedSpace = new Text(10);
+    expect(sameSeedSpace.seed(42)).toStrictEqual([42]);
+
+    for (let i = 0; i < 10; i++) {
+      expect(space.sample()).toBe(sameSeedSpace.sample());
+    }
+  });
+});
@@ -48,3 +48,19 @@ describe('Test Equality', () => {
     expect.assert(!space.equals(differentSpace));
   });
 });
+
+describe('Test Seeding', () => {
+  it('Subspaces should be seeded with the tuple', () => {
+    const createSpace = (seed: number) =>
+      new Tuple([new Box(-1, 1, [4], 'float32'), new Discrete(100)], seed);
+    const space = createSpace(42);
+    const sameSeedSpace = createSpace(42);
+
+    for (let i = 0; i < 10; i++) {
+      const [box, discrete] = space.sample();
+      const [sameSeedBox, sameSeedDiscrete] = sameSeedSpace.sample();
+      expect(box.arraySync()).toStrictEqual(sameSeedBox.arraySync());
+      expect(discrete).toBe(sameSeedDiscrete);
+    }
+  });
+});
@@ -0,0 +1,193 @@
+import { test, expect, beforeEach, describe, it } from 'vitest';
+import * as tf from '@tensorflow/tfjs';
+
+import {
+  Space,
+  Box,
+  Discrete,
+  MultiDiscrete,
+  MultiBinary,
+  Dict,
+  Tuple,
+  Text,
+  OneOf,
+  flatdim,
+  flatten,
+  unflatten,
+  flattenSpace,
+  convertSpace,
+  convertValue,
+} from '../../src/spaces';
+
+describe.each([
+  [new Box(-1, 1, [2, 3], 'float32'), 6],
+  [new Box(tf.tensor([0, -1]), tf.tensor([1, 1]), [2], 'float32'), 2],
+  [new Box(0, 10, [3], 'int32'), 3],
+  [new Discrete(3, -1), 3],
+  [new MultiDiscrete(tf.tensor([2, 3], [2], 'int32')), 5],
+  [
+    new MultiDiscrete(
+      tf.tensor([2, 3, 4, 5], [2, 2], 'int32'),
+      tf.tensor([-1, 0, 1, 2], [2, 2], 'int32')
+    ),
+    14,
+  ],
+  [new MultiBinary([2, 2]), 4],
+  [
+    new Dict({
+      discrete: new Discrete(2),
+      box: new Box(0, 1, [3], 'float32'),
+    }),
+    5,
+  ],
+  [
+    new Tuple([
+      new Box(0, 1, [3], 'float32'),
+      new Dict({ a: new Discrete(4), b: new MultiBinary(2) }),
+    ]),
+    9,
+  ],
+  [new Text(6, 2, 'abc'), 6],
+  [new OneOf([new Discrete(3), new Box(-1, 1, [2], 'float32')]), 4],
+])('Test Flattening %s', (space: Space<any>, expectedDim: number) => {
+  const sample = space.sample();
+
+  it('Flat dimension should be correct without leaking tensors', () => {
+    const numTensors = tf.memory().numTensors;
+    expect(flatdim(space)).toBe(expectedDim);
+    expect(tf.memory().numTensors).toBe(numTensors);
+  });
+
+  it('Flattened sample should be a 1D tensor in the flattened space', () => {
+    const flat = flatten(space, sample);
+    expect(flat.shape).toStrictEqual([expectedDim]);
+    expect.assert(flattenSpace(space).contains(flat));
+  });
+
+  it('Flattening and unflattening should not leak tensors', () => {
+    const numTensors = tf.memory().numTensors;
+    const flat = flatten(space, sample);
+    const unflat = unflatten(space, flat);
+    tf.dispose([flat, unflat]);
+    expect(tf.memory().numTensors).toBe(numTensors);
+  });
+
+  it('Unflattened sample should be in the space and equal to the sample', () => {
+    const unflat = unflatten(space, flatten(space, sample));
+    expect.assert(space.contains(unflat));
+    expect(flatten(space, unflat).arraySync()).toStrictEqual(
+      flatten(space, sample).arraySync()
+    );
+  });
+});
+
+describe('Test Flattening Values', () => {
+  it('Discrete should be one-hot encoded', () => {
+    const space = new Discrete(3, -1);
+    expect(flatten(space, 0).arraySync()).toStrictEqual([0, 1, 0]);
+    expect(unflatten(space, tf.tensor([0, 0, 1]))).toBe(1);
+  });
+
+  it('Dict keys should be sorted', () => {
+    const space = new Dict({
+      b: new Discrete(2),
+      a: new Box(0, 10, [1], 'int32'),
+    });
+    const flat = flatten(space, { b: 1, a: tf.tensor([5], [1], 'int32') });
+    expect(flat.arraySync()).toStrictEqual([5, 0, 1]);
+  });
+});
+
+describe('Test Flattening Texts', () => {
+  it('Texts should be encoded as character indices', () => {
+    const space = new Text(4, 1, 'xyz');
+    const flat = flatten(space, 'zx');
+    expect(flat.arraySync()).toStrictEqual([2, 0, 3, 3]);
+    expect(unflatten(space, flat)).toBe('zx');
+    expect.assert(flattenSpace(space).equals(new Box(0, 3, [4], 'int32')));
+  });
+});
+
+describe('Test Flattening OneOf', () => {
+  const space = new OneOf([
+    new Discrete(3),
+    new Box(-2, 1, [2], 'float32'),
+    new Box(0, 5, [1], 'int32'),
+  ]);
+
+  it('Values should be flattened as their index followed by the padded value', () => {
+    expect(flatten(space, [0, 1]).arraySync()).toStrictEqual([0, 0, 1, 0]);
+    expect(flatten(space, [1, tf.tensor([0.5, -1])]).arraySync()).toStrictEqual(
+      [1, 0.5, -1, 0]
+    );
+    expect(
+      flatten(space, [2, tf.tensor([4], [1], 'int32')]).arraySync()
+    ).toStrictEqual([2, 4, 0, 0]);
+  });
+
+  it('Unflattening should recover the index and the value', () => {
+    const [index, value] = unflatten(space, tf.tensor([1, 0.5, -1, 0]));
+    expect(index).toBe(1);
+    expect(value.arraySync()).toStrictEqual([0.5, -1]);
+    expect(unflatten(space, tf.tensor([0, 0, 0, 1]))).toStrictEqual([0, 2]);
+  });
+
+  it('Flattened space should bound the index and all the subspaces', () => {
+    const box = flattenSpace(space);
+    expect(box.dtype).toBe('float32');
+    expect((box.low as tf.Tensor).arraySync()).toStrictEqual([0, -2, -2, -2]);
+    expect((box.high as tf.Tensor).arraySync()).toStrictEqual([2, 5, 5, 5]);
+  });
+});
+
+describe('Test Converting Backends', () => {
+  const space = new Dict({
+    position: new Box(-1, 1, [2], 'float32'),
+    buttons: new MultiBinary(3),
+    gear: new Discrete(3),
+    other: new Tuple([new MultiDiscrete(tf.tensor([2, 3], [2], 'int32'))]),
+  });
+  const arraySpace = convertSpace(space, 'array') as Dict;
+
+  it('Box, MultiDiscrete and MultiBinary spaces should be converted', () => {
+    expect((arraySpace.spaces.position as Box<'array'>).backend).toBe('array');
+    expect((arraySpace.spaces.buttons as MultiBinary<'array'>).backend).toBe(
+      'array'
+    );
+    expect(arraySpace.spaces.gear).toBe(space.spaces.gear);
+    expect.assert(convertSpace(arraySpace, 'tensor').equals(space));
+  });
+
+  it('Values should be converted between tensors and typed arrays', () => {
+    const value = space.sample();
+    const arrayValue = convertValue(space, value, 'array');
+    expect.assert(arraySpace.contains(arrayValue));
+    expect(arrayValue.position).toBeInstanceOf(Float32Array);
+    expect(arrayValue.other[0]).toBeInstanceOf(Int32Array);
+    expect(arrayValue.gear).toBe(value.gear);
+
+    const tensorValue = convertValue(arraySpace, arrayValue, 'tensor');
+    expect.assert(space.contains(tensorValue));
+    expect(tensorValue.position.arraySync()).toStrictEqual(
+      value.position.arraySync()
+    );
+  });
+
+  it('Typed arrays should be flattened and unflattened', () => {
+    const box = new Box(0, 10, [2, 2], 'int32', null, 'array');
+    const value = new Int32Array([1, 2, 3, 4]);
+    const flat = flatten(box, value);
+    expect(flat.arraySync()).toStrictEqual([1, 2, 3, 4]);
+    expect(unflatten(box, flat)).toStrictEqual(value);
+
+    const multiDiscrete = convertSpace(
+      new MultiDiscrete(tf.tensor([2, 3], [2], 'int32')),
+      'array'
+    );
+    const oneHot = flatten(multiDiscrete, new Int32Array([1, 2]));
+    expect(oneHot.arraySync()).toStrictEqual([0, 1, 0, 0, 1]);
+    expect(unflatten(multiDiscrete, oneHot)).toStrictEqual(
+      new Int32Array([1, 2])
+    );
+  });
+});
@@ -0,0 +1,51 @@
+import { test, expect, beforeEach, describe, it } from 'vitest';
+
+import { RandomGenerator } from '../src/utils';
+
+describe('Test Random Generator', () => {
+  it('Same seeds should generate the same numbers', () => {
+    const first = new RandomGenerator(42);
+    const second = new RandomGenerator(42);
+
+    for (let i = 0; i < 100; i++) {
+      expect(first.nextUint32()).toBe(second.nextUint32());
+    }
+  });
+
+  it('Different seeds should generate different numbers', () => {
+    const first = new RandomGenerator(1);
+    const second = new RandomGenerator(2);
+
+    expect(first.random()).not.toBe(second.random());
+  });
+
+  it('Unseeded generator should choose a seed', () => {
+    const generator = new RandomGenerator();
+    expect.assert(Number.isSafeInteger(generator.seed));
+  });
+
+  it.each([-1, 0.5, NaN])('Seed %d should not be accepted', (seed) => {
+    expect(() => new RandomGenerator(seed)).toThrow(
+      'Seed must be a non-negative integer'
+    );
+  });
+
+  it('Numbers should be in range', () => {
+    const generator = new RandomGenerator(0);
+
+    for (let i = 0; i < 1000; i++) {
+      const random = generator.random();
+      expect.assert(random >= 0 && random < 1);
+
+      const uniform = generator.uniform(-2, 3);
+      expect.assert(uniform >= -2 && uniform < 3);
+
+      const integer = generator.integers(-2, 3);
+      expect.assert(Number.isInteger(integer));
+      expect.assert(integer >= -2 && integer < 3);
+
+      expect.assert(generator.exponential() >= 0);
+      expect.assert(Number.isSafeInteger(generator.nextSeed()));
+    }
+  });
+});
@@ -0,0 +1,170 @@
+import { test, expect, beforeAll, beforeEach, describe, it } from 'vitest';
+import * as tf from '@tensorflow/tfjs';
+import { MessageChannel } from 'node:worker_threads';
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { build } from 'tsdown';
+
+import { CartPoleEnv } from '../../src/envs/classic_control';
+import { AsyncVectorEnv, SyncVectorEnv, runWorker } from '../../src/vector';
+import { WorkerFactory } from '../../src/vector/async_vector_env';
+
+// Runs the workers in the same thread, communicating through message ports
+const channelWorkerFactory: WorkerFactory = (workerData, listeners) => {
+  const { port1, port2 } = new MessageChannel();
+  port1.on('message', listeners.onMessage);
+  runWorker(port2, workerData);
+  return {
+    postMessage: (message, transfer) => port1.postMessage(message, transfer),
+    terminate: () => {
+      port1.close();
+      port2.close();
+    },
+  };
+};
+
+// A worker that crashes as soon as it receives a command
+const crashingWorkerFactory: WorkerFactory = (workerData, listeners) => ({
+  postMessage: () => listeners.onExit(1),
+  terminate: () => {},
+});
+
+describe('Test Async Vector Env', () => {
+  const envs = new AsyncVectorEnv(['CartPole-v1', 'CartPole-v1'], {
+    workerFactory: channelWorkerFactory,
+  });
+
+  it('Should have batched spaces', () => {
+    expect(envs.numEnvs).toBe(2);
+    expect(envs.observationSpace.shape).toStrictEqual([2, 4]);
+    expect.assert(
+      envs.singleObservationSpace.equals(new CartPoleEnv().observationSpace)
+    );
+  });
+
+  it('Should produce the same observations as SyncVectorEnv', async () => {
+    const syncEnvs = new SyncVectorEnv([
+      () => new CartPoleEnv(),
+      () => new CartPoleEnv(),
+    ]);
+
+    const [obs, infos] = await envs.reset({ seed: 42 });
+    const [syncObs, syncInfos] = await syncEnvs.reset({ seed: 42 });
+    expect(obs.arraySync()).toStrictEqual(syncObs.arraySync());
+    expect(infos).toStrictEqual(syncInfos);
+
+    const actions = tf.tensor([0, 1], [2], 'int32');
+    const [nextObs, rewards, terminations, truncations] =
+      await envs.step(actions);
+    const [syncNextObs, syncRewards, syncTerminations, syncTruncations] =
+      await syncEnvs.step(actions);
+    expect(nextObs.arraySync()).toStrictEqual(syncNextObs.arraySync());
+    expect(rewards).toStrictEqual(syncRewards);
+    expect(terminations).toStrictEqual(syncTerminations);
+    expect(truncations).toStrictEqual(syncTruncations);
+  });
+
+  it('Should support stepAsync and stepWait', async () => {
+    envs.stepAsync(envs.actionSpace.sample());
+    expect(() => envs.stepAsync(envs.actionSpace.sample())).toThrow(
+      'Calling `stepAsync` while waiting for a pending call to `stepWait` to complete.'
+    );
+
+    const [obs] = await envs.stepWait();
+    expect.assert(envs.observationSpace.contains(obs));
+    await expect(envs.stepWait()).rejects.toThrow(
+      'Calling `stepWait` without any prior call to `stepAsync`.'
+    );
+  });
+
+  it('Should get, set and call attributes through wrappers', async () => {
+    expect(await envs.getAttr('renderMode')).toStrictEqual([null, null]);
+
+    await envs.setAttr('state', [
+      [0, 0, 0, 0],
+      [1, 1, 1, 1],
+    ]);
+    expect(await envs.getAttr('state')).toStrictEqual([
+      [0, 0, 0, 0],
+      [1, 1, 1, 1],
+    ]);
+
+    const results = await envs.call('reset', { seed: 1 });
+    expect(results.length).toBe(2);
+    expect(results[0][0].arraySync()).toStrictEqual(results[1][0].arraySync());
+  });
+
+  it('Should report errors of sub-environments', async () => {
+    await expect(envs.call('step', 5)).rejects.toThrow(
+      /Error in sub-environment \d: Action invalid/
+    );
+  });
+
+  it('Should not be usable after closing', async () => {
+    envs.close();
+    envs.close();
+    expect(() => envs.stepAsync(envs.actionSpace.sample())).toThrow(
+      'Trying to operate on `AsyncVectorEnv` after it was closed.'
+    );
+  });
+});
+
+describe('Test Worker Errors', () => {
+  it('Should report unregistered environments', async () => {
+    expect(
+      () =>
+        new AsyncVectorEnv(['Unknown-v0'], {
+          workerFactory: channelWorkerFactory,
+        })
+    ).toThrow('No registered env with id: Unknown-v0');
+  });
+
+  it('Should surface worker crashes as errors', async () => {
+    const envs = new AsyncVectorEnv(['CartPole-v1'], {
+      workerFactory: crashingWorkerFactory,
+    });
+
+    await expect(envs.reset()).rejects.toThrow(
+      'Worker of sub-environment 0 crashed: Worker exited unexpectedly with code 1'
+    );
+    await expect(envs.reset()).rejects.toThrow(
+      'Worker of sub-environment 0 crashed'
+    );
+    envs.close();
+  });
+});
+
+describe('Test Worker Threads', () => {
+  // The workers can't import the TypeScript sources, so they import the library built in the cache
+  const outDir = resolve('node_modules/.cache/gymjs-workers');
+  beforeAll(async () => {
+    await build({
+      entry: ['./src/index.ts'],
+      outDir,
+      hash: false,
+      dts: false,
+      config: false,
+      logLevel: 'silent',
+    });
+  }, 60000);
+
+  it('Should run the sub-environments with the default worker factory', async () => {
+    const envs = new AsyncVectorEnv(['CartPole-v1', 'CartPole-v1'], {
+      libraryUrl: pathToFileURL(resolve(outDir, 'index.js')).href,
+    });
+    const syncEnvs = new SyncVectorEnv([
+      () => new CartPoleEnv(),
+      () => new CartPoleEnv(),
+    ]);
+
+    const [obs] = await envs.reset({ seed: 42 });
+    const [syncObs] = await syncEnvs.reset({ seed: 42 });
+    expect(obs.arraySync()).toStrictEqual(syncObs.arraySync());
+
+    const actions = tf.tensor([0, 1], [2], 'int32');
+    const [nextObs] = await envs.step(actions);
+    const [syncNextObs] = await syncEnvs.step(actions);
+    expect(nextObs.arraySync()).toStrictEqual(syncNextObs.arraySync());
+    envs.close();
+  }, 30000);
+});
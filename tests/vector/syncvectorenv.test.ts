@@ -0,0 +1,151 @@
+import { test, expect, beforeEach, describe, it } from 'vitest';
+import * as tf from '@tensorflow/tfjs';
+
+import { Env } from '../../src/core';
+import { Box, Discrete, MultiDiscrete } from '../../src/spaces';
+import { CartPoleEnv, PendulumEnv } from '../../src/envs/classic_control';
+import { SyncVectorEnv } from '../../src/vector';
+
+// An env that terminates after `length` steps
+class ExampleEnv extends Env<tf.Tensor, number> {
+  private count: number;
+  private length: number;
+  constructor(length: number) {
+    const observationSpace = new Box(0, 10, [1], 'int32');
+    const actioSpace = new Discrete(2);
+    super(actioSpace, observationSpace, null);
+    this.count = 0;
+    this.length = length;
+  }
+
+  reset(options?: Record<string, any>): [tf.Tensor, Record<string, number>] {
+    this.count = 0;
+    return [tf.tensor([0], [1], 'int32'), { count: 0 }];
+  }
+
+  async step(
+    action: number
+  ): Promise<[tf.Tensor, number, boolean, boolean, Record<string, number>]> {
+    this.count += 1;
+    const terminated = this.count >= this.length;
+    return [
+      tf.tensor([this.count], [1], 'int32'),
+      action,
+      terminated,
+      false,
+      { count: this.count },
+    ];
+  }
+
+  async render(): Promise<void> {
+    return;
+  }
+
+  close(): void {
+    return;
+  }
+}
+
+describe('Test Spaces', () => {
+  const envs = new SyncVectorEnv([
+    () => new CartPoleEnv(),
+    () => new CartPoleEnv(),
+    () => new CartPoleEnv(),
+  ]);
+
+  it('Single spaces should be the spaces of the sub-environments', () => {
+    expect(envs.numEnvs).toBe(3);
+    expect.assert(
+      envs.singleObservationSpace.equals(envs.envs[0].observationSpace)
+    );
+    expect.assert(envs.singleActionSpace.equals(new Discrete(2)));
+  });
+
+  it('Batched spaces should have a leading dimension', () => {
+    expect(envs.observationSpace.shape).toStrictEqual([3, 4]);
+    expect.assert(
+      envs.actionSpace.equals(
+        new MultiDiscrete(tf.tensor([2, 2, 2], [3], 'int32'))
+      )
+    );
+  });
+
+  it('Should not accept sub-environments with different spaces', () => {
+    expect(
+      () =>
+        new SyncVectorEnv([() => new CartPoleEnv(), () => new PendulumEnv()])
+    ).toThrow('All sub-environments must have the same observation space!');
+  });
+});
+
+describe('Test Reset and Step', () => {
+  const envs = new SyncVectorEnv([
+    () => new CartPoleEnv(),
+    () => new CartPoleEnv(),
+  ]);
+
+  it('Observations should be in the batched observation space', async () => {
+    const [obs, infos] = await envs.reset({ seed: 42 });
+    expect.assert(envs.observationSpace.contains(obs));
+    expect(infos.length).toBe(2);
+
+    const [nextObs, rewards, terminations, truncations, nextInfos] =
+      await envs.step(envs.actionSpace.sample());
+    expect.assert(envs.observationSpace.contains(nextObs));
+    expect(rewards.length).toBe(2);
+    expect(terminations.length).toBe(2);
+    expect(truncations.length).toBe(2);
+  });
+
+  it('Sub-environments should be seeded with consecutive seeds', async () => {
+    const [obs, infos] = await envs.reset({ seed: 42 });
+    const [first] = new CartPoleEnv().reset({ seed: 42 });
+    const [second] = new CartPoleEnv().reset({ seed: 43 });
+
+    expect(obs.arraySync()).toStrictEqual([
+      first.arraySync(),
+      second.arraySync(),
+    ]);
+  });
+
+  it('Should not accept a wrong number of seeds', async () => {
+    await expect(envs.reset({ seed: [1, 2, 3] })).rejects.toThrow(
+      "Number of seeds (3) doesn't match the number of environments (2)"
+    );
+  });
+});
+
+describe('Test Autoreset', () => {
+  const envs = new SyncVectorEnv([
+    () => new ExampleEnv(1),
+    () => new ExampleEnv(2),
+  ]);
+
+  it('Sub-environments should reset on the step after finishing', async () => {
+    await envs.reset();
+    const actions = tf.tensor([1, 1], [2], 'int32');
+
+    let [obs, rewards, terminations, truncations, infos] =
+      await envs.step(actions);
+    expect(obs.arraySync()).toStrictEqual([[1], [1]]);
+    expect(rewards).toStrictEqual([1, 1]);
+    expect(terminations).toStrictEqual([true, false]);
+
+    [obs, rewards, terminations, truncations, infos] = await envs.step(actions);
+    expect(obs.arraySync()).toStrictEqual([[0], [2]]);
+    expect(rewards).toStrictEqual([0, 1]);
+    expect(terminations).toStrictEqual([false, true]);
+    expect(infos).toStrictEqual([{ count: 0 }, { count: 2 }]);
+
+    [obs, rewards, terminations, truncations, infos] = await envs.step(actions);
+    expect(obs.arraySync()).toStrictEqual([[1], [0]]);
+    expect(rewards).toStrictEqual([1, 0]);
+    expect(terminations).toStrictEqual([true, false]);
+  });
+
+  it('Close should be idempotent', () => {
+    envs.close();
+    envs.close();
+    expect.assert(envs.closed);
+  });
+});
@@ -0,0 +1,43 @@
+import { test, expect, beforeEach, describe, it } from 'vitest';
+import * as tf from '@tensorflow/tfjs';
+
+import {
+  Box,
+  Discrete,
+  MultiBinary,
+  MultiDiscrete,
+  Dict,
+  Tuple,
+  Space,
+} from '../../src/spaces';
+import { batchSpace, concatenate, iterate } from '../../src/vector';
+
+describe.each([
+  [new Box(-1, 1, [2], 'float32')],
+  [new Box(tf.tensor([0, -1]), tf.tensor([1, 1]), [2], 'float32')],
+  [new Discrete(3, 1)],
+  [new MultiDiscrete(tf.tensor([2, 3], [2], 'int32'))],
+  [new MultiBinary([2, 2])],
+  [new Dict({ box: new Box(0, 1, [3], 'float32'), discrete: new Discrete(2) })],
+  [new Tuple([new Box(0, 1, [3], 'float32'), new Discrete(2)])],
+])('Test Batching of %s', (space: Space<any>) => {
+  const n = 3;
+  const batchedSpace = batchSpace(space, n);
+  const items = Array.from({ length: n }, () => space.sample());
+
+  it('Concatenated samples should be in the batched space', () => {
+    expect.assert(batchedSpace.contains(concatenate(space, items)));
+  });
+
+  it('Iterated batch should be in the space', () => {
+    const batch = concatenate(space, items);
+    const iterated = iterate(space, batch, n);
+    expect(iterated.length).toBe(n);
+    iterated.forEach((item) => expect.assert(space.contains(item)));
+  });
+
+  it('Iterated batched samples should be in the space', () => {
+    const iterated = iterate(space, batchedSpace.sample(), n);
+    iterated.forEach((item) => expect.assert(space.contains(item)));
+  });
+});
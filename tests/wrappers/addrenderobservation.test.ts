@@ -0,0 +1,81 @@
+import { expect, describe, it } from 'vitest';
+import * as tf from '@tensorflow/tfjs';
+
+import { Env } from '../../src/core';
+import { Box } from '../../src/spaces/box';
+import { Dict } from '../../src/spaces/dict';
+import { AddRenderObservation } from '../../src/wrappers';
+
+// An environment whose frames are filled with the step count
+class ExampleEnv extends Env<tf.Tensor, tf.Tensor> {
+  private count: number;
+  constructor(renderMode: 'rgb_array' | null = 'rgb_array') {
+    const observationSpace = new Box(0, 100, [1], 'float32');
+    const actioSpace = new Box(0, 1, [1], 'float32');
+    super(actioSpace, observationSpace, renderMode);
+    this.count = 0;
+  }
+
+  reset(options?: Record<string, any>): [tf.Tensor, null] {
+    this.count = 0;
+    return [tf.tensor([this.count]), null];
+  }
+
+  async step(
+    action: tf.Tensor
+  ): Promise<[tf.Tensor, number, boolean, boolean, null]> {
+    this.count += 1;
+    return [tf.tensor([this.count]), 0, false, false, null];
+  }
+
+  async render(): Promise<tf.Tensor> {
+    return this.renderFrame();
+  }
+
+  renderFrame(): tf.Tensor {
+    return tf.fill([4, 6, 3], this.count, 'int32');
+  }
+
+  close(): void {
+    return;
+  }
+}
+
+describe('Test Add Render Observation Wrapper', () => {
+  it('Should replace the observations with the frames', async () => {
+    const env = new AddRenderObservation(new ExampleEnv());
+    const space = env.observationSpace as Box;
+    expect(space).toBeInstanceOf(Box);
+    expect(space.shape).toStrictEqual([4, 6, 3]);
+    expect(space.dtype).toBe('int32');
+
+    const [obs] = env.reset();
+    expect(space.contains(obs)).toBe(true);
+    expect((obs as tf.Tensor).max().arraySync()).toBe(0);
+
+    const [nextObs] = await env.step(tf.tensor([0]));
+    expect(space.contains(nextObs)).toBe(true);
+    expect((nextObs as tf.Tensor).min().arraySync()).toBe(1);
+  });
+
+  it('Should add the frames to the observations', async () => {
+    const env = new AddRenderObservation(new ExampleEnv(), false, 'rgb');
+    const space = env.observationSpace as Dict;
+    expect(space).toBeInstanceOf(Dict);
+
+    env.reset();
+    const [obs] = await env.step(tf.tensor([0]));
+    expect(space.contains(obs)).toBe(true);
+    expect(Object.keys(obs)).toStrictEqual(['state', 'rgb']);
+    expect((obs as Record<string, tf.Tensor>).state.arraySync()).toStrictEqual([
+      1,
+    ]);
+    expect((obs as Record<string, tf.Tensor>).rgb.shape).toStrictEqual([
+      4, 6, 3,
+    ]);
+  });
+
+  it('Should require the rgb_array render mode', () => {
+    expect(() => new AddRenderObservation(new ExampleEnv(null))).toThrowError();
+  });
+});
@@ -0,0 +1,84 @@
+import { expect, describe, it } from 'vitest';
+import * as tf from '@tensorflow/tfjs';
+
+import { checkMemoryLeaks } from '../../src/env_checker';
+import {
+  CartPoleEnv,
+  MountainCarContinuousEnv,
+} from '../../src/envs/classic_control';
+import { Box } from '../../src/spaces/box';
+import { ArrayToTensor, TensorToArray } from '../../src/wrappers';
+
+describe('Test Tensor To Array Wrapper', () => {
+  it('Should convert the spaces and observations to typed arrays', async () => {
+    const env = new TensorToArray(new CartPoleEnv());
+    expect((env.observationSpace as Box<'array'>).backend).toBe('array');
+
+    const [obs] = env.reset({ seed: 42 });
+    expect(obs).toBeInstanceOf(Float32Array);
+    expect.assert(env.observationSpace.contains(obs));
+
+    const [stepObs] = await env.step(env.actionSpace.sample());
+    expect(stepObs).toBeInstanceOf(Float32Array);
+    expect.assert(env.observationSpace.contains(stepObs));
+  });
+
+  it('Should match the observations of the wrapped environment', async () => {
+    const tensorEnv = new CartPoleEnv();
+    const env = new TensorToArray(new CartPoleEnv());
+
+    const [tensorObs] = tensorEnv.reset({ seed: 42 });
+    const [obs] = env.reset({ seed: 42 });
+    expect(Array.from(obs)).toStrictEqual(Array.from(tensorObs.dataSync()));
+  });
+
+  it('Should convert the typed array actions to tensors', async () => {
+    const env = new TensorToArray(new MountainCarContinuousEnv());
+    expect.assert(env.actionSpace.contains(new Float32Array([0.5])));
+    env.reset({ seed: 0 });
+
+    const [, reward] = await env.step(new Float32Array([0.5]));
+    expect(reward).toBeCloseTo(-0.025);
+  });
+
+  it('Should not leak tensors', async () => {
+    const env = new TensorToArray(new MountainCarContinuousEnv());
+    expect(await checkMemoryLeaks(env, { numSteps: 1000 })).toStrictEqual([]);
+  });
+});
+
+describe('Test Array To Tensor Wrapper', () => {
+  it('Should convert the spaces and observations to tensors', async () => {
+    const env = new ArrayToTensor(
+      new MountainCarContinuousEnv(0, null, null, 'array')
+    );
+    expect((env.actionSpace as Box).backend).toBe('tensor');
+
+    const [obs] = env.reset({ seed: 42 });
+    expect(obs).toBeInstanceOf(tf.Tensor);
+    expect.assert(env.observationSpace.contains(obs));
+
+    const [stepObs, reward] = await env.step(tf.tensor([0.5]));
+    expect(stepObs).toBeInstanceOf(tf.Tensor);
+    expect.assert(env.observationSpace.contains(stepObs));
+    expect(reward).toBeCloseTo(-0.025);
+  });
+
+  it('Should be the inverse of TensorToArray', async () => {
+    const env = new ArrayToTensor(new TensorToArray(new CartPoleEnv()));
+    expect.assert(
+      env.observationSpace.equals(new CartPoleEnv().observationSpace)
+    );
+
+    const [obs] = env.reset({ seed: 42 });
+    const [tensorObs] = new CartPoleEnv().reset({ seed: 42 });
+    expect(obs.arraySync()).toStrictEqual(tensorObs.arraySync());
+  });
+
+  it('Should not leak tensors', async () => {
+    const env = new ArrayToTensor(
+      new MountainCarContinuousEnv(0, null, null, 'array')
+    );
+    expect(await checkMemoryLeaks(env, { numSteps: 1000 })).toStrictEqual([]);
+  });
+});
@@ -0,0 +1,159 @@
+import { expect, describe, it } from 'vitest';
+import * as tf from '@tensorflow/tfjs';
+
+import { Env } from '../../src/core';
+import { Box } from '../../src/spaces/box';
+import { FrameStackObservation, LazyFrames } from '../../src/wrappers';
+
+// An environment whose observation is the step count
+class ExampleEnv extends Env<tf.Tensor, tf.Tensor> {
+  private count: number;
+  constructor() {
+    const observationSpace = new Box(
+      tf.tensor([0, -1]),
+      tf.tensor([100, 1]),
+      [2],
+      'float32'
+    );
+    const actioSpace = new Box(0, 1, [1], 'float32');
+    super(actioSpace, observationSpace, null);
+    this.count = 0;
+  }
+
+  reset(options?: Record<string, any>): [tf.Tensor, null] {
+    this.count = 1;
+    return [this.own(tf.tensor([1, 1])), null];
+  }
+
+  async step(
+    action: tf.Tensor
+  ): Promise<[tf.Tensor, number, boolean, boolean, null]> {
+    this.count += 1;
+    return [this.own(tf.tensor([this.count, 1])), 0, false, false, null];
+  }
+
+  async render(): Promise<void> {
+    return;
+  }
+
+  close(): void {
+    return;
+  }
+}
+
+describe('Test Frame Stack Observation Wrapper', () => {
+  it('Should stack the bounds of the observation space', () => {
+    const env = new FrameStackObservation(new ExampleEnv(), 3);
+    const space = env.observationSpace as Box;
+    expect(space.shape).toStrictEqual([3, 2]);
+    expect((space.low as tf.Tensor).arraySync()).toStrictEqual([
+      [0, -1],
+      [0, -1],
+      [0, -1],
+    ]);
+    expect((space.high as tf.Tensor).arraySync()).toStrictEqual([
+      [100, 1],
+      [100, 1],
+      [100, 1],
+    ]);
+  });
+
+  it('Should pad with the first observation at reset', () => {
+    const env = new FrameStackObservation(new ExampleEnv(), 3);
+    const [obs] = env.reset();
+    expect(obs).toBeInstanceOf(LazyFrames);
+    expect(obs.shape).toStrictEqual([3, 2]);
+    expect(obs.toTensor().arraySync()).toStrictEqual([
+      [1, 1],
+      [1, 1],
+      [1, 1],
+    ]);
+    expect.assert(env.observationSpace.contains(obs.toTensor()));
+  });
+
+  it('Should pad with zeros at reset', () => {
+    const env = new FrameStackObservation(new ExampleEnv(), 3, 'zero');
+    const [obs] = env.reset();
+    expect(obs.toTensor().arraySync()).toStrictEqual([
+      [0, 0],
+      [0, 0],
+      [1, 1],
+    ]);
+  });
+
+  it('Should stack the last observations', async () => {
+    const env = new FrameStackObservation(new ExampleEnv(), 3);
+    env.reset();
+    await env.step(env.actionSpace.sample());
+    await env.step(env.actionSpace.sample());
+    const [obs] = await env.step(env.actionSpace.sample());
+    expect(obs.toTensor().arraySync()).toStrictEqual([
+      [2, 1],
+      [3, 1],
+      [4, 1],
+    ]);
+    expect(obs.frame(0).arraySync()).toStrictEqual([2, 1]);
+    expect(() => obs.frame(3)).toThrow();
+  });
+
+  it('Should dispose an observation with the next one', async () => {
+    const env = new FrameStackObservation(new ExampleEnv(), 2);
+    const [obs] = env.reset();
+    const frame = obs.frame(0);
+    const stacked = obs.toTensor();
+
+    const [nextObs] = await env.step(env.actionSpace.sample());
+    expect(frame.isDisposed).toBe(true);
+    expect(stacked.isDisposed).toBe(true);
+    expect(nextObs.frame(0).isDisposed).toBe(false);
+    expect(nextObs.toTensor().arraySync()).toStrictEqual([
+      [1, 1],
+      [2, 1],
+    ]);
+  });
+
+  it.each([2, 32])(
+    'Should not copy the frames at each step with a stack size of %i',
+    async (stackSize) => {
+      const env = new FrameStackObservation(new ExampleEnv(), stackSize);
+      env.reset();
+      const action = env.actionSpace.sample();
+      for (let i = 0; i < stackSize; i++) {
+        await env.step(action);
+      }
+
+      // Only the observation of the environment is allocated, a frame of 2 float32 values
+      const startBytes = tf.memory().numBytes;
+      const info = await tf.profile(async () => {
+        await env.step(action);
+      });
+      expect(info.peakBytes - startBytes).toBe(8);
+    }
+  );
+
+  it('Should keep the number of tensors bounded', async () => {
+    const env = new FrameStackObservation(new ExampleEnv(), 4, 'zero');
+    const [first] = env.reset();
+    first.dispose();
+    const action = env.actionSpace.sample();
+
+    // Fill the stack with observations of steps
+    for (let i = 0; i < 4; i++) {
+      (await env.step(action))[0].dispose();
+    }
+
+    const numTensors = tf.memory().numTensors;
+    for (let i = 0; i < 100; i++) {
+      const [obs] = await env.step(action);
+      obs.dispose();
+    }
+    expect(tf.memory().numTensors).toBe(numTensors);
+
+    env.reset()[0].dispose();
+    expect(tf.memory().numTensors).toBeLessThanOrEqual(numTensors);
+  });
+
+  it('Should throw on invalid stack sizes', () => {
+    expect(() => new FrameStackObservation(new ExampleEnv(), 0)).toThrow();
+  });
+});
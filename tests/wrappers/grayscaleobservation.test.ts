@@ -0,0 +1,82 @@
+import { expect, describe, it } from 'vitest';
+import * as tf from '@tensorflow/tfjs';
+
+import { Env } from '../../src/core';
+import { Box } from '../../src/spaces/box';
+import { GrayscaleObservation } from '../../src/wrappers';
+
+// An environment whose observations are pure red, green and blue pixels
+class ExampleEnv extends Env<tf.Tensor, tf.Tensor> {
+  constructor(shape: number[] = [1, 3, 3]) {
+    const observationSpace = new Box(0, 255, shape, 'int32');
+    const actioSpace = new Box(0, 1, [1], 'float32');
+    super(actioSpace, observationSpace, null);
+  }
+
+  reset(options?: Record<string, any>): [tf.Tensor, null] {
+    const obs = tf.tensor(
+      [
+        [
+          [255, 0, 0],
+          [0, 255, 0],
+          [0, 0, 255],
+        ],
+      ],
+      [1, 3, 3],
+      'int32'
+    );
+    return [obs, null];
+  }
+
+  async step(
+    action: tf.Tensor
+  ): Promise<[tf.Tensor, number, boolean, boolean, null]> {
+    return [this.observationSpace.sample(), 0, false, false, null];
+  }
+
+  async render(): Promise<void> {
+    return;
+  }
+
+  close(): void {
+    return;
+  }
+}
+
+describe('Test Grayscale Observation Wrapper', () => {
+  it('Should convert the observations to grayscale', async () => {
+    const env = new GrayscaleObservation(new ExampleEnv());
+    const space = env.observationSpace as Box;
+    expect(space.shape).toStrictEqual([1, 3]);
+    expect(space.dtype).toBe('int32');
+
+    const [obs] = env.reset();
+    expect(obs.dtype).toBe('int32');
+    expect(obs.arraySync()).toStrictEqual([[54, 182, 18]]);
+
+    const [nextObs] = await env.step(tf.tensor([0]));
+    expect(space.contains(nextObs)).toBe(true);
+  });
+
+  it('Should keep the channel dimension', () => {
+    const env = new GrayscaleObservation(new ExampleEnv(), true);
+    expect(env.observationSpace.shape).toStrictEqual([1, 3, 1]);
+
+    const [obs] = env.reset();
+    expect(env.observationSpace.contains(obs)).toBe(true);
+  });
+
+  it('Should round the grayscale values', () => {
+    const env = new GrayscaleObservation(new ExampleEnv());
+    const obs = env.observarionTransform(
+      tf.tensor([[[255, 255, 0]]], [1, 1, 3], 'int32')
+    );
+    expect(obs.arraySync()).toStrictEqual([[237]]);
+  });
+
+  it('Should require RGB observations', () => {
+    expect(
+      () => new GrayscaleObservation(new ExampleEnv([4, 4, 1]))
+    ).toThrowError();
+  });
+});
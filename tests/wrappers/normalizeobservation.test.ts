@@ -0,0 +1,118 @@
+import { expect, describe, it } from 'vitest';
+import * as tf from '@tensorflow/tfjs';
+
+import { Env } from '../../src/core';
+import { Box } from '../../src/spaces/box';
+import { Discrete } from '../../src/spaces/discrete';
+import { NormalizeObservation, RunningMeanStd } from '../../src/wrappers';
+
+// An environment whose observations are [count, 10 * count]
+class ExampleEnv extends Env<tf.Tensor, tf.Tensor> {
+  private count: number;
+  constructor() {
+    const observationSpace = new Box(-Infinity, Infinity, [2], 'float32');
+    const actioSpace = new Box(0, 1, [1], 'float32');
+    super(actioSpace, observationSpace, null);
+    this.count = 0;
+  }
+
+  reset(options?: Record<string, any>): [tf.Tensor, null] {
+    this.count = 0;
+    return [tf.tensor([0, 0]), null];
+  }
+
+  async step(
+    action: tf.Tensor
+  ): Promise<[tf.Tensor, number, boolean, boolean, null]> {
+    this.count += 1;
+    return [tf.tensor([this.count, 10 * this.count]), 0, false, false, null];
+  }
+
+  async render(): Promise<void> {
+    return;
+  }
+
+  close(): void {
+    return;
+  }
+}
+
+describe('Test Running Mean Std', () => {
+  it('Should compute the mean and variance', () => {
+    const rms = new RunningMeanStd(2, 0);
+    [
+      [1, 2],
+      [3, 6],
+      [5, 10],
+    ].forEach((x) => rms.update(x));
+
+    expect(rms.count).toBe(3);
+    expect(rms.mean[0]).toBeCloseTo(3);
+    expect(rms.mean[1]).toBeCloseTo(6);
+    expect(rms.var[0]).toBeCloseTo(8 / 3);
+    expect(rms.var[1]).toBeCloseTo(32 / 3);
+  });
+
+  it('Should throw on values of the wrong size', () => {
+    const rms = new RunningMeanStd(2);
+    expect(() => rms.update([1, 2, 3])).toThrow();
+  });
+});
+
+describe('Test Normalize Observation Wrapper', () => {
+  it('Should have an unbounded observation space', () => {
+    const env = new NormalizeObservation(new ExampleEnv());
+    expect.assert(
+      env.observationSpace.equals(new Box(-Infinity, Infinity, [2], 'float32'))
+    );
+  });
+
+  it('Should normalize the observations', async () => {
+    const env = new NormalizeObservation(new ExampleEnv());
+    env.reset();
+    let obs = tf.tensor([0]);
+    for (let i = 0; i < 1000; i++) {
+      [obs] = await env.step(env.actionSpace.sample());
+    }
+
+    // The last observation is about 1.7 standard deviations above the mean
+    const [first, second] = obs.arraySync() as number[];
+    expect(first).toBeCloseTo(Math.sqrt(3), 1);
+    expect(second).toBeCloseTo(first, 4);
+  });
+
+  it('Should not update the statistics when frozen', async () => {
+    const env = new NormalizeObservation(new ExampleEnv());
+    env.reset();
+    await env.step(env.actionSpace.sample());
+
+    env.updateRunningMean = false;
+    const state = env.obsRms.getState();
+    await env.step(env.actionSpace.sample());
+    expect(env.obsRms.getState()).toStrictEqual(state);
+  });
+
+  it('Should restore saved statistics', async () => {
+    const env = new NormalizeObservation(new ExampleEnv());
+    env.reset();
+    for (let i = 0; i < 10; i++) {
+      await env.step(env.actionSpace.sample());
+    }
+    const state = JSON.parse(JSON.stringify(env.obsRms.getState()));
+
+    const restored = new NormalizeObservation(new ExampleEnv());
+    restored.obsRms.setState(state);
+    restored.updateRunningMean = false;
+    env.updateRunningMean = false;
+
+    const [obs] = env.reset();
+    const [restoredObs] = restored.reset();
+    expect(restoredObs.arraySync()).toStrictEqual(obs.arraySync());
+  });
+
+  it('Should only work for Box space', () => {
+    const env = new ExampleEnv();
+    env.observationSpace = new Discrete(2) as any;
+    expect(() => new NormalizeObservation(env)).toThrow();
+  });
+});
@@ -0,0 +1,113 @@
+import { expect, describe, it } from 'vitest';
+import * as tf from '@tensorflow/tfjs';
+
+import { Env, RewardWrapper } from '../../src/core';
+import { Box } from '../../src/spaces/box';
+import { NormalizeReward } from '../../src/wrappers';
+
+// An environment that rewards 1 at each step and terminates every 5 steps
+class ExampleEnv extends Env<tf.Tensor, tf.Tensor> {
+  private count: number;
+  constructor() {
+    const observationSpace = new Box(0, 1, [1], 'float32');
+    const actioSpace = new Box(0, 1, [1], 'float32');
+    super(actioSpace, observationSpace, null);
+    this.count = 0;
+  }
+
+  reset(options?: Record<string, any>): [tf.Tensor, null] {
+    this.count = 0;
+    return [tf.tensor([0]), null];
+  }
+
+  async step(
+    action: tf.Tensor
+  ): Promise<[tf.Tensor, number, boolean, boolean, null]> {
+    this.count += 1;
+    return [tf.tensor([0]), 1, this.count % 5 === 0, false, null];
+  }
+
+  async render(): Promise<void> {
+    return;
+  }
+
+  close(): void {
+    return;
+  }
+}
+
+// A wrapper that records the termination flags given to the reward transform
+class FlagsWrapper extends RewardWrapper<tf.Tensor, tf.Tensor> {
+  public flags: [boolean, boolean][] = [];
+
+  rewardTransform(
+    reward: number,
+    terminated: boolean,
+    truncated: boolean
+  ): number {
+    this.flags.push([terminated, truncated]);
+    return reward;
+  }
+}
+
+describe('Test Reward Wrapper', () => {
+  it('Should give the termination flags to the reward transform', async () => {
+    const env = new FlagsWrapper(new ExampleEnv());
+    env.reset();
+    for (let i = 0; i < 5; i++) {
+      await env.step(env.actionSpace.sample());
+    }
+    expect(env.flags.map(([terminated]) => terminated)).toStrictEqual([
+      false,
+      false,
+      false,
+      false,
+      true,
+    ]);
+  });
+});
+
+describe('Test Normalize Reward Wrapper', () => {
+  it('Should scale the rewards by the std of the discounted return', async () => {
+    const gamma = 0.9;
+    const env = new NormalizeReward(new ExampleEnv(), gamma);
+    env.reset();
+
+    // The discounted returns of an episode are 1, 1.9, 2.71, 3.439 and 4.0951
+    const returns: number[] = [];
+    let discountedReturn = 0;
+    let reward = 0;
+    for (let i = 0; i < 100; i++) {
+      const [, , terminated] = await env.step(env.actionSpace.sample());
+      discountedReturn = discountedReturn * gamma + 1;
+      returns.push(discountedReturn);
+      if (terminated) {
+        discountedReturn = 0;
+      }
+    }
+
+    const mean = returns.reduce((a, b) => a + b) / returns.length;
+    const variance =
+      returns.reduce((a, b) => a + (b - mean) ** 2, 0) / returns.length;
+    expect(env.returnRms.mean[0]).toBeCloseTo(mean, 2);
+    expect(env.returnRms.var[0]).toBeCloseTo(variance, 2);
+
+    [, reward] = await env.step(env.actionSpace.sample());
+    expect(reward).toBeCloseTo(1 / Math.sqrt(env.returnRms.var[0]), 5);
+  });
+
+  it('Should not update the statistics when frozen', async () => {
+    const env = new NormalizeReward(new ExampleEnv());
+    env.reset();
+    await env.step(env.actionSpace.sample());
+
+    env.updateRunningMean = false;
+    const state = env.returnRms.getState();
+    await env.step(env.actionSpace.sample());
+    expect(env.returnRms.getState()).toStrictEqual(state);
+  });
+
+  it('Should throw on invalid gamma', () => {
+    expect(() => new NormalizeReward(new ExampleEnv(), 1.5)).toThrow();
+  });
+});
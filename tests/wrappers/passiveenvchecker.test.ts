@@ -0,0 +1,139 @@
+import { expect, describe, it, vi, afterEach } from 'vitest';
+import * as tf from '@tensorflow/tfjs';
+
+import { Env } from '../../src/core';
+import { Box } from '../../src/spaces/box';
+import { PassiveEnvChecker } from '../../src/wrappers';
+
+class ExampleEnv extends Env<tf.Tensor, tf.Tensor> {
+  public obsValue: number;
+  public reward: any;
+  public terminated: any;
+  public info: any;
+
+  constructor() {
+    const observationSpace = new Box(0, 3, [1], 'float32');
+    const actioSpace = new Box(0, 1, [1], 'float32');
+    super(actioSpace, observationSpace, null);
+    this.obsValue = 0;
+    this.reward = 1;
+    this.terminated = false;
+    this.info = {};
+  }
+
+  reset(options?: Record<string, any>): [tf.Tensor, Record<string, any>] {
+    return [tf.tensor([this.obsValue]), this.info];
+  }
+
+  async step(
+    action: tf.Tensor
+  ): Promise<[tf.Tensor, number, boolean, boolean, Record<string, any>]> {
+    return [
+      tf.tensor([this.obsValue]),
+      this.reward,
+      this.terminated,
+      false,
+      this.info,
+    ];
+  }
+
+  async render(): Promise<void> {
+    return;
+  }
+
+  close(): void {
+    return;
+  }
+}
+
+describe('Test Passive Env Checker Wrapper', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('Should pass through valid outputs', async () => {
+    const env = new PassiveEnvChecker(new ExampleEnv());
+    const [obs, info] = env.reset();
+    expect(obs.arraySync()).toEqual([0]);
+    expect(info).toEqual({});
+
+    const [, reward, terminated, truncated] = await env.step(
+      env.actionSpace.sample()
+    );
+    expect(reward).toBe(1);
+    expect(terminated).toBe(false);
+    expect(truncated).toBe(false);
+  });
+
+  it('Should throw on an observation outside of the space', async () => {
+    const inner = new ExampleEnv();
+    inner.obsValue = 5;
+    const env = new PassiveEnvChecker(inner);
+    expect(() => env.reset()).toThrow(
+      'The observation is not in the observation space.'
+    );
+  });
+
+  it('Should throw on invalid info', () => {
+    const inner = new ExampleEnv();
+    inner.info = 'info';
+    const env = new PassiveEnvChecker(inner);
+    expect(() => env.reset()).toThrow('The info must be an object or null.');
+  });
+
+  it('Should throw on a non boolean termination', async () => {
+    const inner = new ExampleEnv();
+    inner.terminated = 0;
+    const env = new PassiveEnvChecker(inner);
+    env.reset();
+    await expect(env.step(env.actionSpace.sample())).rejects.toThrow(
+      'The termination must be a boolean, got number.'
+    );
+  });
+
+  it('Should only check the first step', async () => {
+    const inner = new ExampleEnv();
+    const env = new PassiveEnvChecker(inner);
+    env.reset();
+    await env.step(env.actionSpace.sample());
+
+    inner.terminated = 0;
+    const [, , terminated] = await env.step(env.actionSpace.sample());
+    expect(terminated).toBe(0);
+  });
+
+  it('Should warn once about a NaN reward', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const inner = new ExampleEnv();
+    inner.reward = NaN;
+    const env = new PassiveEnvChecker(inner);
+    env.reset();
+    await env.step(env.actionSpace.sample());
+    await env.step(env.actionSpace.sample());
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain('The reward is not finite (NaN).');
+  });
+
+  it('Should warn about an infinite observation', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const inner = new ExampleEnv();
+    inner.observationSpace = new Box(-Infinity, Infinity, [1], 'float32');
+    inner.obsValue = Infinity;
+    const env = new PassiveEnvChecker(inner);
+    env.reset();
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain(
+      'The observation contains NaN or Infinity.'
+    );
+  });
+
+  it('Should throw on a space not inheriting from Space', () => {
+    const inner = new ExampleEnv();
+    inner.observationSpace = {} as any;
+    expect(() => new PassiveEnvChecker(inner)).toThrow(
+      'The observation space must inherit from `Space`.'
+    );
+  });
+});
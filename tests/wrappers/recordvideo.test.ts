@@ -0,0 +1,139 @@
+import { expect, describe, it, beforeEach, afterEach } from 'vitest';
+import * as tf from '@tensorflow/tfjs';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { Env } from '../../src/core';
+import { Box } from '../../src/spaces/box';
+import { Discrete } from '../../src/spaces/discrete';
+import { RecordVideo, cappedCubicVideoSchedule } from '../../src/wrappers';
+
+// An environment that terminates after 3 steps, rewarded by 1, whose frames are filled with the step count
+class ExampleEnv extends Env<number, number> {
+  private count: number;
+  constructor(renderMode: 'rgb_array' | null = 'rgb_array') {
+    const observationSpace = new Box(0, 3, [], 'int32');
+    const actioSpace = new Discrete(2);
+    super(actioSpace, observationSpace as any, renderMode);
+    this.count = 0;
+  }
+
+  reset(options?: Record<string, any>): [number, null] {
+    this.count = 0;
+    return [this.count, null];
+  }
+
+  async step(
+    action: number
+  ): Promise<[number, number, boolean, boolean, null]> {
+    this.count += 1;
+    return [this.count, 1, this.count === 3, false, null];
+  }
+
+  async render(): Promise<tf.Tensor> {
+    return this.renderFrame();
+  }
+
+  renderFrame(): tf.Tensor {
+    return tf.fill([4, 5, 3], this.count * 50, 'int32');
+  }
+
+  close(): void {
+    return;
+  }
+}
+
+async function runEpisodes(env: RecordVideo<number, number>, n: number) {
+  for (let i = 0; i < n; i++) {
+    env.reset({ seed: i });
+    let done = false;
+    while (!done) {
+      const [, , terminated, truncated] = await env.step(0);
+      done = terminated || truncated;
+    }
+  }
+}
+
+describe('Test Record Video Wrapper', () => {
+  let folder: string;
+
+  beforeEach(() => {
+    folder = fs.mkdtempSync(path.join(os.tmpdir(), 'record-video-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(folder, { recursive: true, force: true });
+  });
+
+  it('Should record the episodes selected by the capped cubic schedule', () => {
+    const recorded = Array.from({ length: 30 }, (_, i) => i).filter(
+      cappedCubicVideoSchedule
+    );
+    expect(recorded).toStrictEqual([0, 1, 8, 27]);
+    expect(cappedCubicVideoSchedule(1000)).toBe(true);
+    expect(cappedCubicVideoSchedule(1001)).toBe(false);
+    expect(cappedCubicVideoSchedule(2000)).toBe(true);
+  });
+
+  it('Should save the recorded episodes as GIF files with their metadata', async () => {
+    const env = new RecordVideo(new ExampleEnv(), folder);
+    await runEpisodes(env, 3);
+    env.close();
+
+    expect(fs.readdirSync(folder).sort()).toStrictEqual([
+      'rl-video-episode-0.gif',
+      'rl-video-episode-0.json',
+      'rl-video-episode-1.gif',
+      'rl-video-episode-1.json',
+    ]);
+
+    const gif = fs.readFileSync(path.join(folder, 'rl-video-episode-1.gif'));
+    expect(gif.subarray(0, 6).toString()).toBe('GIF89a');
+    expect(gif.readUInt16LE(6)).toBe(5);
+    expect(gif.readUInt16LE(8)).toBe(4);
+    expect(gif[gif.length - 1]).toBe(0x3b);
+
+    const metadata = JSON.parse(
+      fs.readFileSync(path.join(folder, 'rl-video-episode-1.json'), 'utf8')
+    );
+    expect(metadata).toStrictEqual({
+      episodeId: 1,
+      seed: 1,
+      return: 3,
+      length: 3,
+    });
+  });
+
+  it('Should save videos selected by the step trigger as PNG files', async () => {
+    const env = new RecordVideo(
+      new ExampleEnv(),
+      folder,
+      null,
+      (stepId) => stepId === 1,
+      2,
+      'test',
+      'png'
+    );
+    await runEpisodes(env, 2);
+    env.close();
+
+    expect(fs.readdirSync(folder).sort()).toStrictEqual([
+      'test-episode-0.json',
+      'test-step-1',
+    ]);
+    const frames = fs.readdirSync(path.join(folder, 'test-step-1')).sort();
+    expect(frames).toStrictEqual(['000000.png', '000001.png']);
+
+    const png = fs.readFileSync(path.join(folder, 'test-step-1', frames[0]));
+    expect([...png.subarray(0, 8)]).toStrictEqual([
+      0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+    ]);
+    expect(png.readUInt32BE(16)).toBe(5);
+    expect(png.readUInt32BE(20)).toBe(4);
+  });
+
+  it('Should require the rgb_array render mode', () => {
+    expect(() => new RecordVideo(new ExampleEnv(null), folder)).toThrowError();
+  });
+});
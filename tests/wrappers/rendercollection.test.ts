@@ -0,0 +1,88 @@
+import { expect, describe, it } from 'vitest';
+import * as tf from '@tensorflow/tfjs';
+
+import { Env } from '../../src/core';
+import { Box } from '../../src/spaces/box';
+import { RenderCollection } from '../../src/wrappers';
+
+// An environment whose frames are filled with the step count
+class ExampleEnv extends Env<tf.Tensor, tf.Tensor> {
+  static readonly metadata = { renderModes: ['rgb_array'], renderFps: 30 };
+
+  private count: number;
+  constructor(renderMode: 'rgb_array' | null = 'rgb_array') {
+    const observationSpace = new Box(0, 100, [1], 'float32');
+    const actioSpace = new Box(0, 1, [1], 'float32');
+    super(actioSpace, observationSpace, renderMode);
+    this.count = 0;
+  }
+
+  reset(options?: Record<string, any>): [tf.Tensor, null] {
+    this.count = 0;
+    return [tf.tensor([this.count]), null];
+  }
+
+  async step(
+    action: tf.Tensor
+  ): Promise<[tf.Tensor, number, boolean, boolean, null]> {
+    this.count += 1;
+    return [tf.tensor([this.count]), 0, false, false, null];
+  }
+
+  async render(): Promise<tf.Tensor> {
+    return this.renderFrame();
+  }
+
+  renderFrame(): tf.Tensor {
+    return tf.fill([2, 2, 3], this.count, 'int32');
+  }
+
+  close(): void {
+    return;
+  }
+}
+
+function frameValues(frames: tf.Tensor[]): number[] {
+  return frames.map((frame) => frame.dataSync()[0]);
+}
+
+describe('Test Render Collection Wrapper', () => {
+  it('Should use the rgb_array_list render mode', () => {
+    const env = new RenderCollection(new ExampleEnv());
+    expect(env.renderMode).toBe('rgb_array_list');
+    expect(env.metadata.renderModes).toStrictEqual([
+      'rgb_array',
+      'rgb_array_list',
+    ]);
+    expect(env.metadata.renderFps).toBe(30);
+  });
+
+  it('Should return the frames since the last render', async () => {
+    const env = new RenderCollection(new ExampleEnv());
+    env.reset();
+    await env.step(tf.tensor([0]));
+    expect(frameValues(await env.render())).toStrictEqual([0, 1]);
+
+    await env.step(tf.tensor([0]));
+    await env.step(tf.tensor([0]));
+    expect(frameValues(await env.render())).toStrictEqual([2, 3]);
+    expect(await env.render()).toStrictEqual([]);
+  });
+
+  it('Should keep the frames of the episode without popping them', async () => {
+    const env = new RenderCollection(new ExampleEnv(), false);
+    env.reset();
+    await env.step(tf.tensor([0]));
+    expect(frameValues(await env.render())).toStrictEqual([0, 1]);
+
+    await env.step(tf.tensor([0]));
+    expect(frameValues(await env.render())).toStrictEqual([0, 1, 2]);
+
+    env.reset();
+    expect(frameValues(await env.render())).toStrictEqual([0]);
+  });
+
+  it('Should require the rgb_array render mode', () => {
+    expect(() => new RenderCollection(new ExampleEnv(null))).toThrowError();
+  });
+});
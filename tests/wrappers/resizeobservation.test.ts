@@ -0,0 +1,115 @@
+import { expect, describe, it } from 'vitest';
+import * as tf from '@tensorflow/tfjs';
+
+import { Env } from '../../src/core';
+import { Box } from '../../src/spaces/box';
+import { ResizeObservation } from '../../src/wrappers';
+
+// An environment whose observations are images
+class ExampleEnv extends Env<tf.Tensor, tf.Tensor> {
+  constructor(
+    shape: number[],
+    low: tf.Tensor | number = 0,
+    high: tf.Tensor | number = 255,
+    dtype: 'int32' | 'float32' = 'int32'
+  ) {
+    const observationSpace = new Box(low, high, shape, dtype);
+    const actioSpace = new Box(0, 1, [1], 'float32');
+    super(actioSpace, observationSpace, null);
+  }
+
+  reset(options?: Record<string, any>): [tf.Tensor, null] {
+    return [tf.fill(this.observationSpace.shape, 100, 'int32'), null];
+  }
+
+  async step(
+    action: tf.Tensor
+  ): Promise<[tf.Tensor, number, boolean, boolean, null]> {
+    return [this.observationSpace.sample(), 0, false, false, null];
+  }
+
+  async render(): Promise<void> {
+    return;
+  }
+
+  close(): void {
+    return;
+  }
+}
+
+describe('Test Resize Observation Wrapper', () => {
+  it('Should resize the observations of rank 3', async () => {
+    const env = new ResizeObservation(new ExampleEnv([20, 30, 3]), [8, 10]);
+    const space = env.observationSpace as Box;
+    expect(space.shape).toStrictEqual([8, 10, 3]);
+    expect(space.dtype).toBe('int32');
+
+    const [obs] = env.reset();
+    expect(obs.shape).toStrictEqual([8, 10, 3]);
+    expect(obs.dtype).toBe('int32');
+    expect(obs.min().arraySync()).toBe(100);
+    expect(obs.max().arraySync()).toBe(100);
+
+    const [nextObs] = await env.step(tf.tensor([0]));
+    expect(space.contains(nextObs)).toBe(true);
+  });
+
+  it('Should resize the observations of rank 2', () => {
+    const env = new ResizeObservation(new ExampleEnv([20, 30]), [40, 60]);
+    expect(env.observationSpace.shape).toStrictEqual([40, 60]);
+
+    const [obs] = env.reset();
+    expect(env.observationSpace.contains(obs)).toBe(true);
+  });
+
+  it('Should resize the bounds of the elements', async () => {
+    const low = tf.tensor([0, 0, 100, 100], [2, 2], 'int32');
+    const high = tf.tensor([11, 11, 255, 255], [2, 2], 'int32');
+    const env = new ResizeObservation(
+      new ExampleEnv([2, 2], low, high),
+      [4, 4]
+    );
+    const space = env.observationSpace as Box;
+    expect((space.low as tf.Tensor).arraySync()).toStrictEqual([
+      [0, 0, 0, 0],
+      [50, 50, 50, 50],
+      [100, 100, 100, 100],
+      [100, 100, 100, 100],
+    ]);
+    expect((space.high as tf.Tensor).arraySync()).toStrictEqual([
+      [11, 11, 11, 11],
+      [133, 133, 133, 133],
+      [255, 255, 255, 255],
+      [255, 255, 255, 255],
+    ]);
+
+    const [nextObs] = await env.step(tf.tensor([0]));
+    expect(space.contains(nextObs)).toBe(true);
+  });
+
+  it('Should keep infinite bounds infinite', () => {
+    const low = tf.tensor([-Infinity, 0, 0, 0], [2, 2]);
+    const high = tf.tensor([1, 1, 1, 1], [2, 2]);
+    const env = new ResizeObservation(
+      new ExampleEnv([2, 2], low, high, 'float32'),
+      [4, 4]
+    );
+    expect(
+      ((env.observationSpace as Box).low as tf.Tensor).arraySync()
+    ).toStrictEqual([
+      [-Infinity, -Infinity, 0, 0],
+      [-Infinity, -Infinity, 0, 0],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+    ]);
+  });
+
+  it('Should reject invalid shapes', () => {
+    expect(
+      () => new ResizeObservation(new ExampleEnv([20]), [10, 10])
+    ).toThrowError();
+    expect(
+      () => new ResizeObservation(new ExampleEnv([20, 30]), [0, 10])
+    ).toThrowError();
+  });
+});